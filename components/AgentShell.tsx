@@ -0,0 +1,681 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Avatar } from '@/models/Avatar';
+import { createAvatar } from '@/models/createAvatar';
+import { SpeechService } from '@/lib/SpeechService';
+import { AudioTTSProvider } from '@/lib/tts/AudioTTSProvider';
+import { RecordingRecognizer } from '@/lib/stt/RecordingRecognizer';
+import { QwenService } from '@/lib/QwenService';
+import { DashscopeClient } from '@/lib/DashscopeClient';
+import { ToolRegistry } from '@/lib/tools/ToolRegistry';
+import { TimerManager } from '@/lib/tools/TimerManager';
+import { createBuiltinTools } from '@/lib/tools/builtins';
+import LanguageSelector from './LanguageSelector';
+import VoiceSelector from './VoiceSelector';
+import ProsodyControls from './ProsodyControls';
+import InputModeSelector from './InputModeSelector';
+import MicrophoneSelector from './MicrophoneSelector';
+import SessionSidebar from './SessionSidebar';
+import SourceList from './SourceList';
+import TranscriptConfirm from './TranscriptConfirm';
+import SpeechControls from './SpeechControls';
+import ReplyHistory from './ReplyHistory';
+import MemoryPanel from './MemoryPanel';
+import { useConversationSessions } from '@/hooks/useConversationSessions';
+import { useUserMemory } from '@/hooks/useUserMemory';
+import { useAgent } from '@/hooks/useAgent';
+import { isBusy, isListening, isWaitingForReply } from '@/lib/agent/conversationMachine';
+import { InputMode, defaultWakeWords, loadInputMode, saveInputMode } from '@/lib/agent/inputModes';
+import { getLastExchange } from '@/lib/storage/ConversationStore';
+import { RATE_STEP, completeProsody, loadProsodyOverride, saveProsodyOverride } from '@/lib/tts/prosody';
+import { VoiceCommand } from '@/lib/commands/voiceCommands';
+import { KnowledgeClient } from '@/lib/knowledge/KnowledgeClient';
+import { UserMemory } from '@/lib/memory/UserMemory';
+import { PersonaDefinition } from '@/lib/personas/schema';
+import { ChatMessage } from '@/lib/types';
+import { getTheme } from '@/lib/personas/themes';
+
+interface AgentShellProps {
+  persona: PersonaDefinition;
+}
+
+/**
+ * The agent UI for any character: the avatar from its persona, voice conversation,
+ * streaming replies, sessions, sources and memories
+ */
+const AgentShell: React.FC<AgentShellProps> = ({ persona }) => {
+  const theme = getTheme(persona.theme);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [avatar, setAvatar] = useState<Avatar | null>(null);
+  const [speechService, setSpeechService] = useState<SpeechService | null>(null);
+  const [qwenService, setQwenService] = useState<QwenService | null>(null);
+  const [userMemory, setUserMemory] = useState<UserMemory | null>(null);
+  const [modelLoaded, setModelLoaded] = useState(false);
+  const [modelFailed, setModelFailed] = useState(false);
+  // Neither the browser nor the server can recognize speech
+  const [speechInputUnavailable, setSpeechInputUnavailable] = useState(false);
+  const [showChatPanel, setShowChatPanel] = useState(true);
+  const [autoRotate, setAutoRotate] = useState(false);
+  const [rotateSpeed, setRotateSpeed] = useState(1.0);
+  const [showControls, setShowControls] = useState(false);
+  const [showSessions, setShowSessions] = useState(false);
+  // Talking over the character stops its answer
+  const [bargeIn, setBargeIn] = useState(true);
+  const [bargeInSensitivity, setBargeInSensitivity] = useState(0.5);
+  const [inputMode, setInputMode] = useState<InputMode>('always-on');
+  // The speech language, also changed by voice commands
+  const [language, setLanguage] = useState(persona.voice.language);
+  // Messages of the current conversation, for replaying earlier replies
+  const [history, setHistory] = useState<ChatMessage[]>([]);
+  const wakeWords = useMemo(() => persona.wakeWords || defaultWakeWords(persona.name), [persona]);
+
+  // Persist conversations and restore the latest one after a reload
+  const {
+    sessions,
+    currentSessionId,
+    saveCurrentSession,
+    startNewSession,
+    resumeSession,
+    renameSession,
+    deleteSession
+  } = useConversationSessions(persona.id, qwenService, (session) => {
+    // A reply to the previous conversation is cancelled and stops speaking, so the agent is ready for this one
+    interrupt();
+    // Show the last exchange of the resumed session, or clear the panel for a new one
+    const messages = session ? session.messages : [];
+    const { userMessage, assistantMessage } = getLastExchange(messages);
+    showExchange(userMessage, assistantMessage);
+    setHistory(messages);
+  });
+
+  // Conversation turns: listening, answering and speaking
+  const {
+    state: conversation,
+    talkHeld,
+    toggleListening,
+    pressToTalk,
+    releaseToTalk,
+    confirmTranscript,
+    cancelTranscript,
+    replay,
+    reset,
+    interrupt,
+    showExchange,
+    announce
+  } = useAgent({
+    avatar,
+    speechService,
+    qwenService,
+    onReply: () => {
+      if (qwenService) setHistory(qwenService.getConversationHistory().slice(1));
+      saveCurrentSession();
+    },
+    bargeIn,
+    bargeInSensitivity,
+    inputMode,
+    wakeWords,
+    onCommand: (command) => runCommand(command)
+  });
+  const { transcript, alternatives, response, typingText, sources, error: errorMessage } = conversation;
+  const transcriptConfidence = alternatives.length > 0 ? alternatives[0].confidence : undefined;
+  const listening = isListening(conversation);
+  const answering = isBusy(conversation);
+
+  // Initialize services
+  useEffect(() => {
+    // Only initialize on client side due to Three.js and Web APIs
+    if (typeof window !== 'undefined') {
+      const avatarModel = createAvatar(persona.avatar);
+      const speech = new SpeechService();
+      speech.setLanguage(persona.voice.language);
+      if (persona.voice.name) speech.setPreferredVoice(persona.voice.name);
+      if (persona.lexicon) speech.setLexicon(persona.lexicon);
+      speech.setProsody(loadProsodyOverride(persona.id) || persona.voice.prosody || {});
+      
+      // Speak with the server's speech engine when one is configured, so the mouth follows the real audio;
+      // browser voices remain the fallback
+      AudioTTSProvider.isConfigured().then((configured) => {
+        const output = speech.getAudioOutput();
+        if (configured && output) {
+          speech.setTTSProvider(new AudioTTSProvider(output, speech.getTTSProvider()));
+        }
+      });
+      
+      // Browsers without the Web Speech API (e.g. Firefox) can only listen through the server's speech engine
+      if (!speech.usesBrowserRecognition()) {
+        const check = RecordingRecognizer.isSupported() ? RecordingRecognizer.isConfigured() : Promise.resolve(false);
+        check.then((configured) => {
+          if (configured) {
+            speech.setRecordingRecognizer(new RecordingRecognizer());
+          } else {
+            setSpeechInputUnavailable(true);
+          }
+        });
+      }
+      
+      // Local tools the character may use: clock, calculator, unit conversion and timers
+      // A finished timer is announced once the current reply has been spoken
+      const timers = new TimerManager((timer) => announce(`Your timer for ${timer.label} is done!`));
+      const tools = persona.tools ? new ToolRegistry(createBuiltinTools(timers, persona.tools)) : undefined;
+      
+      const memory = new UserMemory(persona.id);
+      const qwen = new QwenService(persona.systemPrompt, {
+        llmOptions: persona.llm,
+        tools,
+        knowledge: new KnowledgeClient(persona.id),
+        memory
+      });
+      // Size the prompts for the model the server is configured with
+      DashscopeClient.getServerModel().then((info) => {
+        if (info) qwen.setServerModel(info);
+      });
+      
+      // Listen for model loading completion
+      avatarModel.onLoad(() => setModelLoaded(true));
+      avatarModel.onLoadError(() => setModelFailed(true));
+      
+      setAvatar(avatarModel);
+      setSpeechService(speech);
+      setQwenService(qwen);
+      setUserMemory(memory);
+      
+      return () => {
+        timers.cancelAll();
+        if (avatarModel) avatarModel.unmount();
+      };
+    }
+  }, []);
+
+  // Restore the listening mode chosen last time (localStorage isn't available during server rendering)
+  useEffect(() => {
+    setInputMode(loadInputMode());
+  }, []);
+
+  const changeInputMode = (mode: InputMode) => {
+    setInputMode(mode);
+    saveInputMode(mode);
+  };
+
+  // Hold the spacebar to talk in push-to-talk mode, unless typing in a field
+  useEffect(() => {
+    if (inputMode !== 'push-to-talk' || !modelLoaded) return;
+
+    const isTyping = (target: EventTarget | null) => {
+      const element = target as HTMLElement | null;
+      return Boolean(element && (
+        element.tagName === 'INPUT' || element.tagName === 'TEXTAREA' ||
+        element.tagName === 'SELECT' || element.isContentEditable
+      ));
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e.target)) return;
+      e.preventDefault();
+      if (!e.repeat) pressToTalk();
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e.target)) return;
+      e.preventDefault();
+      releaseToTalk();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    // The key-up is lost when the window loses focus while the key is held
+    window.addEventListener('blur', releaseToTalk);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', releaseToTalk);
+      releaseToTalk();
+    };
+  }, [inputMode, modelLoaded, pressToTalk, releaseToTalk]);
+
+  // What the character remembers about the user across conversations
+  const { facts, updateFact, deleteFact, clearFacts } = useUserMemory(userMemory);
+
+  // Set up container and audio analysis callback
+  useEffect(() => {
+    if (!avatar || !speechService || !containerRef.current) return;
+    
+    // Mount the avatar to the container
+    avatar.mount(containerRef.current);
+    
+    // Set up audio analysis callback to animate the talking
+    speechService.onAudioAnalysis((intensity) => {
+      if (avatar) {
+        avatar.animateTalking(intensity);
+      }
+    });
+    
+    // Lip-sync the avatar to each sentence it speaks
+    speechService.onVisemeTrack((track) => avatar.playVisemes(track));
+    
+    // Cleanup on unmount
+    return () => {
+      avatar.unmount();
+    };
+  }, [avatar, speechService]);
+
+  // Toggle auto-rotation
+  const toggleAutoRotate = () => {
+    if (!avatar) return;
+    const newState = !autoRotate;
+    setAutoRotate(newState);
+    avatar.toggleAutoRotate(newState);
+  };
+
+  // Reset camera position
+  const resetCamera = () => {
+    if (!avatar) return;
+    avatar.resetCamera();
+  };
+
+  // After the speech service has switched language, whether from the selector or a voice command:
+  // cancel the current turn and clear the panel, so recognition starts again in the new language
+  const changeLanguage = (code: string) => {
+    setLanguage(code);
+    reset();
+  };
+
+  // Carry out a spoken command; see lib/commands/grammars.ts for what can be said
+  const runCommand = (command: VoiceCommand): boolean => {
+    if (!speechService) return false;
+
+    switch (command.name) {
+      case 'stop':
+        speechService.stopSpeaking();
+        return true;
+      case 'reset-conversation':
+        // A new session, so the old conversation stays saved (resets the model's conversation too)
+        startNewSession();
+        return true;
+      case 'set-language':
+        speechService.setLanguage(command.slots.language);
+        changeLanguage(speechService.getLanguage());
+        return true;
+      case 'speak-slower':
+      case 'speak-faster': {
+        const current = speechService.getProsody();
+        const step = command.name === 'speak-slower' ? -RATE_STEP : RATE_STEP;
+        const prosody = completeProsody({ ...current, rate: current.rate + step });
+        saveProsodyOverride(persona.id, prosody);
+        speechService.setProsody(prosody);
+        return true;
+      }
+      case 'reset-camera':
+        if (!avatar) return false;
+        resetCamera();
+        return true;
+      case 'start-rotating':
+      case 'stop-rotating':
+        if (!avatar) return false;
+        setAutoRotate(command.name === 'start-rotating');
+        avatar.toggleAutoRotate(command.name === 'start-rotating');
+        return true;
+      default:
+        return false;
+    }
+  };
+
+  // Handle rotation speed change
+  const handleSpeedChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!avatar) return;
+    const speed = parseFloat(e.target.value);
+    setRotateSpeed(speed);
+    avatar.setAutoRotateSpeed(speed);
+  };
+
+  return (
+    <div className="flex h-screen relative">
+      {/* 3D model container */}
+      <div 
+        ref={containerRef} 
+        className="flex-1 w-full relative"
+      >
+        {!modelLoaded && (
+          <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-50 text-white">
+            {modelFailed ? (
+              <div className="text-center text-xl" role="alert">
+                Couldn't load {persona.name}. Please reload the page to try again.
+              </div>
+            ) : (
+              <div className="text-center">
+                <div className="text-xl mb-2">Loading {persona.name}...</div>
+                <div className="w-24 h-1 bg-gray-700 rounded-full mx-auto">
+                  <div className={`h-full ${theme.accent} rounded-full animate-pulse`}></div>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Conversation history sidebar */}
+        <SessionSidebar
+          isOpen={showSessions}
+          sessions={sessions}
+          currentSessionId={currentSessionId}
+          colorClassName={theme.surface}
+          onClose={() => setShowSessions(false)}
+          onNewSession={startNewSession}
+          onSelectSession={resumeSession}
+          onRenameSession={renameSession}
+          onDeleteSession={deleteSession}
+        />
+
+        <button
+          onClick={() => setShowSessions(!showSessions)}
+          className={`absolute bottom-4 left-4 ${theme.control} bg-opacity-80 hover:bg-opacity-100 text-white text-sm py-2 px-3 rounded z-10`}
+          title={showSessions ? "Hide conversations" : "Show conversations"}
+        >
+          Conversations
+        </button>
+
+        {/* Camera Controls Panel */}
+        <div className={`absolute top-4 left-4 ${theme.control} bg-opacity-80 text-white p-2 rounded z-10`}>
+          <button
+            onClick={() => setShowControls(!showControls)}
+            className="flex items-center justify-between w-full text-left"
+            title={showControls ? "Hide camera controls" : "Show camera controls"}
+          >
+            <span>Camera Controls</span>
+            <svg xmlns="http://www.w3.org/2000/svg" className={`h-4 w-4 transform transition-transform ${showControls ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+            </svg>
+          </button>
+          
+          {showControls && (
+            <div className="mt-2 space-y-2">
+              <div className="text-xs text-gray-200 mb-1">
+                <p>• Drag to rotate</p>
+                <p>• Scroll to zoom</p>
+                <p>• Right-click drag to pan</p>
+              </div>
+              <div className="flex flex-col space-y-2">
+                <label className="flex items-center text-sm">
+                  <input 
+                    type="checkbox" 
+                    checked={autoRotate} 
+                    onChange={toggleAutoRotate}
+                    className="mr-2"
+                  />
+                  Auto-rotate
+                </label>
+                
+                {autoRotate && (
+                  <div className="flex items-center space-x-2">
+                    <span className="text-xs">Speed:</span>
+                    <input
+                      type="range"
+                      min="0.1"
+                      max="5"
+                      step="0.1"
+                      value={rotateSpeed}
+                      onChange={handleSpeedChange}
+                      className={`w-full h-1 ${theme.slider} rounded-lg appearance-none cursor-pointer`}
+                    />
+                    <span className="text-xs">{rotateSpeed.toFixed(1)}</span>
+                  </div>
+                )}
+                
+                <button
+                  onClick={resetCamera}
+                  className={`${theme.accent} ${theme.accentHover} text-white text-xs py-1 px-2 rounded`}
+                >
+                  Reset Camera
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Toggle chat panel button */}
+        <button 
+          onClick={() => setShowChatPanel(!showChatPanel)}
+          className={`absolute top-4 right-4 ${theme.control} text-white p-2 rounded-full z-10 ${theme.accentHover} transition-colors`}
+          title={showChatPanel ? "Hide chat panel" : "Show chat panel"}
+        >
+          {showChatPanel ? (
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          ) : (
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
+            </svg>
+          )}
+        </button>
+
+        {/* Voice controls */}
+        <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 flex space-x-4">
+          {inputMode === 'push-to-talk' ? (
+            <>
+              <button
+                onPointerDown={(e) => {
+                  e.preventDefault();
+                  pressToTalk();
+                }}
+                onPointerUp={releaseToTalk}
+                onPointerLeave={releaseToTalk}
+                onPointerCancel={releaseToTalk}
+                onContextMenu={(e) => e.preventDefault()}
+                disabled={!modelLoaded}
+                title="Hold the spacebar or this button while you talk"
+                className={`px-6 py-3 rounded-full font-bold select-none touch-none ${
+                  talkHeld ? 'bg-red-600' : 'bg-green-600 hover:bg-green-700'
+                } ${!modelLoaded ? 'opacity-50 cursor-not-allowed' : ''}`}
+              >
+                {talkHeld ? 'Release to Send' : answering ? 'Hold to Interrupt' : 'Hold to Talk'}
+              </button>
+              {answering && (
+                <button
+                  onClick={toggleListening}
+                  className="px-6 py-3 rounded-full font-bold bg-red-600 hover:bg-red-700"
+                >
+                  Stop Answering
+                </button>
+              )}
+            </>
+          ) : (
+            <button
+              onClick={toggleListening}
+              disabled={!modelLoaded}
+              className={`px-6 py-3 rounded-full font-bold ${
+                listening || answering
+                  ? 'bg-red-600 hover:bg-red-700' 
+                  : 'bg-green-600 hover:bg-green-700'
+              } ${!modelLoaded ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              {listening ? 'Stop Listening' : answering ? 'Stop Answering' : 'Start Listening'}
+            </button>
+          )}
+        </div>
+      </div>
+      
+      {/* Right side chat panel */}
+      <div 
+        className={`${theme.control} text-white w-80 overflow-y-auto transition-all duration-300 ease-in-out ${
+          showChatPanel ? 'translate-x-0' : 'translate-x-full'
+        } absolute right-0 top-0 bottom-0 z-10 shadow-lg`}
+      >
+        <div className="p-4">
+          <div className={`flex justify-between items-center mb-4 border-b ${theme.border} pb-2`}>
+            <h2 className="text-xl font-bold">Chat Interface</h2>
+            <button 
+              onClick={() => setShowChatPanel(false)}
+              className="text-white hover:text-gray-200 p-1"
+              title="Hide chat panel"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+              </svg>
+            </button>
+          </div>
+          
+          <div className="mb-4">
+            {/* Language Selector */}
+            <div className="mb-4">
+              <div className="font-bold mb-2">Language:</div>
+              <LanguageSelector 
+                speechService={speechService}
+                language={language}
+                onLanguageChange={changeLanguage}
+              />
+            </div>
+            
+            {/* Voice Selector */}
+            <div className="mb-4">
+              <div className="font-bold mb-2">Voice:</div>
+              <VoiceSelector speechService={speechService} />
+              <ProsodyControls
+                speechService={speechService}
+                personaId={persona.id}
+                defaults={persona.voice.prosody}
+                sliderClassName={theme.slider}
+              />
+            </div>
+            
+            {/* Microphone */}
+            <div className="mb-4">
+              <div className="font-bold mb-2">Microphone:</div>
+              <MicrophoneSelector
+                note={speechService?.usesBrowserRecognition()
+                  ? 'The browser\'s speech recognition always listens to the system default microphone.'
+                  : undefined}
+              />
+            </div>
+            
+            {/* Input mode */}
+            <div className="mb-4">
+              <div className="font-bold mb-2">Talk to {persona.name}:</div>
+              <InputModeSelector mode={inputMode} onModeChange={changeInputMode} />
+              {inputMode === 'push-to-talk' && (
+                <div className="text-xs mt-1">Hold the spacebar or the talk button while you speak.</div>
+              )}
+              {inputMode === 'wake-word' && (
+                <div className="text-xs mt-1">Start with &quot;Hey {wakeWords[wakeWords.length - 1]}&quot; so {persona.name} knows you mean it.</div>
+              )}
+            </div>
+            
+            {/* Barge-in; push-to-talk interrupts by pressing the talk button instead */}
+            {inputMode !== 'push-to-talk' && (
+              <div className="mb-4">
+                <label className="flex items-center text-sm">
+                  <input
+                    type="checkbox"
+                    checked={bargeIn}
+                    onChange={(e) => setBargeIn(e.target.checked)}
+                    className="mr-2"
+                  />
+                  {inputMode === 'wake-word'
+                    ? `Interrupt ${persona.name} by saying its name`
+                    : `Interrupt ${persona.name} by talking`}
+                </label>
+                {bargeIn && inputMode === 'always-on' && (
+                  <div className="flex items-center space-x-2 mt-2">
+                    <span className="text-xs">Sensitivity:</span>
+                    <input
+                      type="range"
+                      min="0"
+                      max="1"
+                      step="0.05"
+                      value={bargeInSensitivity}
+                      onChange={(e) => setBargeInSensitivity(parseFloat(e.target.value))}
+                      className={`w-full h-1 ${theme.slider} rounded-lg appearance-none cursor-pointer`}
+                      title="Higher sensitivity reacts to quieter speech, but may mistake noise or the character's own voice for you"
+                    />
+                    <span className="text-xs">{Math.round(bargeInSensitivity * 100)}%</span>
+                  </div>
+                )}
+              </div>
+            )}
+            
+            <div className="font-bold mb-2">You said:</div>
+            {conversation.status === 'confirming' ? (
+              <TranscriptConfirm
+                transcript={transcript}
+                alternatives={alternatives}
+                onConfirm={confirmTranscript}
+                onCancel={cancelTranscript}
+                colorClassName={theme.surface}
+              />
+            ) : (
+              <div className={`${theme.surface} p-2 rounded mb-4`}>
+                {conversation.status === 'transcribing' ? (
+                  // Still being recognized; the words may change
+                  <span className="italic text-gray-300">{transcript || "Listening..."}</span>
+                ) : transcript ? (
+                  <>
+                    {transcript}
+                    {transcriptConfidence !== undefined && (
+                      <span className="text-xs text-gray-300"> ({Math.round(transcriptConfidence * 100)}% sure)</span>
+                    )}
+                  </>
+                ) : listening ? (
+                  inputMode === 'wake-word' ? `Say "Hey ${wakeWords[wakeWords.length - 1]}"...` : "Listening..."
+                ) : (
+                  "Nothing yet..."
+                )}
+              </div>
+            )}
+            
+            <div className="font-bold mb-2">{persona.name} says:</div>
+            {/* Shown as written; only the spoken text has its Markdown stripped */}
+            <div className={`${theme.accent} p-2 rounded whitespace-pre-line`}>
+              {isWaitingForReply(conversation) ? (
+                <div className="flex items-center">
+                  <span className="mr-2">Thinking</span>
+                  <span className="animate-pulse">...</span>
+                </div>
+              ) : typingText ? (
+                <div>
+                  {typingText}
+                  <span className="inline-block w-1 h-4 ml-1 bg-white animate-blink"></span>
+                </div>
+              ) : (
+                response || persona.greeting
+              )}
+            </div>
+            
+            <SpeechControls
+              speechService={speechService}
+              onReplay={response ? () => replay(response) : undefined}
+              colorClassName={theme.surface}
+            />
+            
+            <SourceList sources={sources} colorClassName={theme.surface} />
+            
+            {speechInputUnavailable && (
+              <div className="bg-yellow-700 border border-yellow-500 p-2 rounded mt-2 text-sm" role="status">
+                Speech recognition isn&apos;t available in this browser, so {persona.name} can&apos;t hear you.
+                Try Chrome or Edge, or set STT_PROVIDER on the server.
+              </div>
+            )}
+            
+            {errorMessage && (
+              <div className="bg-red-600 border border-red-400 p-2 rounded mt-2 text-sm" role="alert">
+                {errorMessage}
+              </div>
+            )}
+            
+            <ReplyHistory
+              characterName={persona.name}
+              messages={history}
+              onReplay={replay}
+              colorClassName={theme.surface}
+            />
+            
+            <MemoryPanel
+              characterName={persona.name}
+              facts={facts}
+              colorClassName={theme.surface}
+              onUpdateFact={updateFact}
+              onDeleteFact={deleteFact}
+              onClearFacts={clearFacts}
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AgentShell; 
\ No newline at end of file
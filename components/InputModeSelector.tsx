@@ -0,0 +1,27 @@
+import React from 'react';
+import { INPUT_MODES, INPUT_MODE_LABELS, InputMode } from '@/lib/agent/inputModes';
+
+interface InputModeSelectorProps {
+  mode: InputMode;
+  onModeChange: (mode: InputMode) => void;
+}
+
+const InputModeSelector: React.FC<InputModeSelectorProps> = ({ mode, onModeChange }) => {
+  return (
+    <div className="input-mode-selector">
+      <select
+        value={mode}
+        onChange={(e) => onModeChange(e.target.value as InputMode)}
+        className="bg-gray-700 text-white px-3 py-2 rounded-md text-sm"
+      >
+        {INPUT_MODES.map((inputMode) => (
+          <option key={inputMode} value={inputMode}>
+            {INPUT_MODE_LABELS[inputMode]}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default InputModeSelector;
@@ -3,11 +3,14 @@ import { SpeechService } from '@/lib/SpeechService';
 
 interface LanguageSelectorProps {
   speechService: SpeechService | null;
+  // The speech language when it is changed some other way, e.g. by a voice command
+  language?: string;
   onLanguageChange?: (languageCode: string) => void;
 }
 
 const LanguageSelector: React.FC<LanguageSelectorProps> = ({ 
   speechService, 
+  language,
   onLanguageChange 
 }) => {
   const [selectedLanguage, setSelectedLanguage] = useState<string>('en-US');
@@ -17,6 +20,10 @@ const LanguageSelector: React.FC<LanguageSelectorProps> = ({
       setSelectedLanguage(speechService.getLanguage());
     }
   }, [speechService]);
+
+  useEffect(() => {
+    if (language) setSelectedLanguage(language);
+  }, [language]);
   
   if (!speechService) return null;
   
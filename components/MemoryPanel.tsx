@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { UserFact } from '@/lib/storage/MemoryStore';
+
+interface MemoryPanelProps {
+  // Name of the character the facts belong to, e.g. 'Machinarium'
+  characterName: string;
+  facts: UserFact[];
+  // Tailwind background class matching the agent's theme, e.g. 'bg-blue-800'
+  colorClassName?: string;
+  onUpdateFact: (id: string, text: string) => void;
+  onDeleteFact: (id: string) => void;
+  onClearFacts: () => void;
+}
+
+const CATEGORY_LABELS: Record<UserFact['category'], string> = {
+  identity: 'About you',
+  preference: 'Preference',
+  topic: 'Topic'
+};
+
+/**
+ * Shows what a character remembers about the user and lets them correct or delete it
+ */
+const MemoryPanel: React.FC<MemoryPanelProps> = ({
+  characterName,
+  facts,
+  colorClassName = 'bg-gray-800',
+  onUpdateFact,
+  onDeleteFact,
+  onClearFacts
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingText, setEditingText] = useState('');
+
+  const startEdit = (fact: UserFact) => {
+    setEditingId(fact.id);
+    setEditingText(fact.text);
+  };
+
+  const commitEdit = () => {
+    if (editingId) {
+      onUpdateFact(editingId, editingText);
+    }
+    setEditingId(null);
+  };
+
+  const handleClear = () => {
+    if (window.confirm(`Make ${characterName} forget everything about you?`)) {
+      onClearFacts();
+    }
+  };
+
+  return (
+    <details className="mt-4">
+      <summary className="font-bold cursor-pointer">
+        What {characterName} remembers ({facts.length})
+      </summary>
+
+      {facts.length === 0 ? (
+        <div className="text-sm text-gray-300 mt-2">
+          Nothing yet. Facts you share, like your name or what you enjoy, will show up here.
+        </div>
+      ) : (
+        <>
+          <ul className="space-y-1 mt-2">
+            {facts.map((fact) => (
+              <li key={fact.id} className={`${colorClassName} p-2 rounded text-sm`}>
+                {editingId === fact.id ? (
+                  <input
+                    autoFocus
+                    value={editingText}
+                    onChange={(e) => setEditingText(e.target.value)}
+                    onBlur={commitEdit}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitEdit();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="w-full bg-gray-700 text-white px-2 py-1 rounded text-sm"
+                  />
+                ) : (
+                  <div>{fact.text}</div>
+                )}
+                <div className="flex justify-between items-center mt-1 text-xs text-gray-300">
+                  <span>{CATEGORY_LABELS[fact.category]}</span>
+                  <span className="space-x-2">
+                    <button onClick={() => startEdit(fact)} className="hover:text-white">
+                      Edit
+                    </button>
+                    <button onClick={() => onDeleteFact(fact.id)} className="hover:text-white">
+                      Delete
+                    </button>
+                  </span>
+                </div>
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={handleClear}
+            className="w-full mt-2 bg-white bg-opacity-20 hover:bg-opacity-30 text-white text-sm py-1 px-3 rounded"
+          >
+            Forget everything
+          </button>
+        </>
+      )}
+    </details>
+  );
+};
+
+export default MemoryPanel;
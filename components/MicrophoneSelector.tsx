@@ -0,0 +1,75 @@
+import React, { useEffect, useState } from 'react';
+import { MicrophoneManager, getMicrophone } from '@/lib/audio/MicrophoneManager';
+
+interface MicrophoneSelectorProps {
+  // Shown under the list, e.g. when speech recognition can't use the chosen microphone
+  note?: string;
+}
+
+const DEFAULT_DEVICE = '';
+
+const MicrophoneSelector: React.FC<MicrophoneSelectorProps> = ({ note }) => {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [selectedDevice, setSelectedDevice] = useState<string>(DEFAULT_DEVICE);
+
+  useEffect(() => {
+    if (!MicrophoneManager.isSupported()) return;
+
+    const microphone = getMicrophone();
+    setSelectedDevice(microphone.getDeviceId() || DEFAULT_DEVICE);
+
+    let active = true;
+    const loadDevices = () => {
+      microphone.listDevices()
+        .then(found => {
+          if (active) setDevices(found);
+        })
+        .catch(error => console.error('Failed to list microphones:', error));
+    };
+
+    loadDevices();
+    const unsubscribe = microphone.onDevicesChange(loadDevices);
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  const handleChange = (deviceId: string) => {
+    setSelectedDevice(deviceId);
+    getMicrophone().setDeviceId(deviceId === DEFAULT_DEVICE ? null : deviceId);
+  };
+
+  if (!MicrophoneManager.isSupported()) {
+    return <div className="text-xs">Microphone access is not available in this browser.</div>;
+  }
+
+  // The remembered microphone may be unplugged right now; keep it in the list so the choice stays visible
+  const rememberedMissing = selectedDevice !== DEFAULT_DEVICE &&
+    devices.length > 0 && !devices.some(device => device.deviceId === selectedDevice);
+
+  return (
+    <div className="microphone-selector">
+      <select
+        value={selectedDevice}
+        onChange={(e) => handleChange(e.target.value)}
+        className="bg-gray-700 text-white px-3 py-2 rounded-md text-sm w-full"
+      >
+        <option value={DEFAULT_DEVICE}>System default</option>
+        {devices
+          .filter(device => device.deviceId && device.deviceId !== 'default')
+          .map((device, index) => (
+            <option key={device.deviceId} value={device.deviceId}>
+              {device.label || `Microphone ${index + 1}`}
+            </option>
+          ))}
+        {rememberedMissing && (
+          <option value={selectedDevice}>Unplugged microphone</option>
+        )}
+      </select>
+      {note && <div className="text-xs mt-1">{note}</div>}
+    </div>
+  );
+};
+
+export default MicrophoneSelector;
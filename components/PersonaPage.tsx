@@ -0,0 +1,58 @@
+import React from 'react';
+import Head from 'next/head';
+import dynamic from 'next/dynamic';
+import Link from 'next/link';
+import { PersonaLink, PersonaPageProps } from '@/lib/personas/pageProps';
+import { getTheme } from '@/lib/personas/themes';
+
+interface PersonaPageViewProps extends PersonaPageProps {
+  // The home page hides the links to the other characters for now
+  showLinks?: boolean;
+}
+
+// Import the agent dynamically with SSR disabled
+// This prevents hydration errors with Three.js and browser APIs
+const AgentShell = dynamic(() => import('./AgentShell'), { ssr: false });
+
+const linkClassName = (link: PersonaLink) => {
+  const theme = getTheme(link.theme);
+  return `px-4 py-2 ${theme.accent} ${theme.accentHover} text-white font-bold rounded-lg shadow-md transition-colors`;
+};
+
+/**
+ * A character's page: title, links to the other characters and the agent
+ */
+const PersonaPage: React.FC<PersonaPageViewProps> = ({ persona, home, others, showLinks = true }) => {
+  return (
+    <div>
+      <Head>
+        <title>{persona.title}</title>
+        <meta name="description" content={persona.description} />
+        <link rel="icon" href="/favicon.ico" />
+      </Head>
+
+      {/* Centered so the links stay clear of the camera controls and the chat panel button */}
+      {showLinks && (home || others.length > 0) && (
+        <div className="absolute top-4 left-1/2 transform -translate-x-1/2 z-10 flex gap-4">
+          {home && (
+            <Link href={home.route} className={linkClassName(home)}>
+              Back to {home.name}
+            </Link>
+          )}
+          {others.map(other => (
+            <Link key={other.route} href={other.route} className={linkClassName(other)}>
+              Try {other.name}!
+            </Link>
+          ))}
+        </div>
+      )}
+
+      <main>
+        {/* Keyed so switching characters starts a fresh agent */}
+        <AgentShell key={persona.id} persona={persona} />
+      </main>
+    </div>
+  );
+};
+
+export default PersonaPage;
@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from 'react';
+import { SpeechService } from '@/lib/SpeechService';
+import {
+  PROSODY_RANGES,
+  Prosody,
+  ProsodySetting,
+  completeProsody,
+  loadProsodyOverride,
+  saveProsodyOverride
+} from '@/lib/tts/prosody';
+
+interface ProsodyControlsProps {
+  speechService: SpeechService | null;
+  // The settings are remembered per character
+  personaId: string;
+  // How the character speaks unless the user has changed it
+  defaults?: Partial<Prosody>;
+  // Tailwind background class for the slider track, matching the agent's theme
+  sliderClassName?: string;
+}
+
+const SLIDERS: { setting: ProsodySetting; label: string }[] = [
+  { setting: 'rate', label: 'Speed' },
+  { setting: 'pitch', label: 'Pitch' },
+  { setting: 'volume', label: 'Volume' }
+];
+
+/**
+ * Speed, pitch and volume sliders for the character's voice. Emotions still colour the voice on top of these.
+ */
+const ProsodyControls: React.FC<ProsodyControlsProps> = ({
+  speechService,
+  personaId,
+  defaults,
+  sliderClassName = 'bg-gray-600'
+}) => {
+  const [prosody, setProsody] = useState<Prosody>(() => completeProsody(defaults));
+  const [customized, setCustomized] = useState(false);
+
+  // Stored settings are only available in the browser, so they are read after the first render
+  useEffect(() => {
+    const override = loadProsodyOverride(personaId);
+    setProsody(override || completeProsody(defaults));
+    setCustomized(override !== null);
+  }, [personaId, defaults]);
+
+  // Follow changes made elsewhere, like "speak slower" said out loud
+  useEffect(() => {
+    if (!speechService) return;
+    speechService.onProsodyChange((changed) => {
+      setProsody(changed);
+      setCustomized(loadProsodyOverride(personaId) !== null);
+    });
+    return () => speechService.onProsodyChange(null);
+  }, [speechService, personaId]);
+
+  const update = (next: Prosody | null) => {
+    const applied = next || completeProsody(defaults);
+    setProsody(applied);
+    setCustomized(next !== null);
+    saveProsodyOverride(personaId, next);
+    if (speechService) speechService.setProsody(applied);
+  };
+
+  return (
+    <div className="prosody-controls mt-2">
+      {SLIDERS.map(({ setting, label }) => (
+        <div key={setting} className="flex items-center space-x-2 mb-1">
+          <span className="text-xs w-14">{label}:</span>
+          <input
+            type="range"
+            min={PROSODY_RANGES[setting].min}
+            max={PROSODY_RANGES[setting].max}
+            step="0.05"
+            value={prosody[setting]}
+            onChange={(e) => update({ ...prosody, [setting]: parseFloat(e.target.value) })}
+            className={`w-full h-1 ${sliderClassName} rounded-lg appearance-none cursor-pointer`}
+          />
+          <span className="text-xs w-10 text-right">{Math.round(prosody[setting] * 100)}%</span>
+        </div>
+      ))}
+      {customized && (
+        <button
+          onClick={() => update(null)}
+          className="text-xs underline mt-1"
+        >
+          Use the character&apos;s voice
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ProsodyControls;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { ChatMessage } from '@/lib/types';
+
+interface ReplyHistoryProps {
+  // Name of the character that gave the replies, e.g. 'Machinarium'
+  characterName: string;
+  // The conversation so far, oldest first
+  messages: ChatMessage[];
+  onReplay: (text: string) => void;
+  // Tailwind background class matching the agent's theme, e.g. 'bg-blue-800'
+  colorClassName?: string;
+}
+
+/**
+ * The messages of the current conversation, each reply with a button to hear it again
+ */
+const ReplyHistory: React.FC<ReplyHistoryProps> = ({
+  characterName,
+  messages,
+  onReplay,
+  colorClassName = 'bg-gray-800'
+}) => {
+  // Tool calls and their results aren't part of what was said
+  const exchanges = messages.filter(message =>
+    (message.role === 'user' || message.role === 'assistant') && message.content.trim()
+  );
+
+  return (
+    <details className="mt-4">
+      <summary className="font-bold cursor-pointer">
+        Conversation so far ({exchanges.length})
+      </summary>
+
+      {exchanges.length === 0 ? (
+        <div className="text-sm text-gray-300 mt-2">Nothing yet.</div>
+      ) : (
+        <ul className="space-y-1 mt-2">
+          {exchanges.map((message, index) => (
+            <li key={index} className={`${colorClassName} p-2 rounded text-sm`}>
+              <div className="text-xs text-gray-300">{message.role === 'user' ? 'You' : characterName}</div>
+              <div>{message.content}</div>
+              {message.role === 'assistant' && (
+                <button
+                  onClick={() => onReplay(message.content)}
+                  className="text-xs text-gray-200 hover:text-white underline mt-1"
+                >
+                  Replay
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </details>
+  );
+};
+
+export default ReplyHistory;
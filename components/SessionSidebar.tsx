@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { ConversationSession } from '@/lib/storage/ConversationStore';
+
+interface SessionSidebarProps {
+  isOpen: boolean;
+  sessions: ConversationSession[];
+  currentSessionId: string | null;
+  // Tailwind background class matching the agent's theme, e.g. 'bg-blue-800'
+  colorClassName?: string;
+  onClose: () => void;
+  onNewSession: () => void;
+  onSelectSession: (id: string) => void;
+  onRenameSession: (id: string, title: string) => void;
+  onDeleteSession: (id: string) => void;
+}
+
+const SessionSidebar: React.FC<SessionSidebarProps> = ({
+  isOpen,
+  sessions,
+  currentSessionId,
+  colorClassName = 'bg-gray-800',
+  onClose,
+  onNewSession,
+  onSelectSession,
+  onRenameSession,
+  onDeleteSession
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+
+  const startRename = (session: ConversationSession) => {
+    setEditingId(session.id);
+    setEditingTitle(session.title);
+  };
+
+  const commitRename = () => {
+    if (editingId) {
+      onRenameSession(editingId, editingTitle);
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (session: ConversationSession) => {
+    if (window.confirm(`Delete "${session.title}"?`)) {
+      onDeleteSession(session.id);
+    }
+  };
+
+  return (
+    <div
+      className={`${colorClassName} text-white w-72 overflow-y-auto transition-all duration-300 ease-in-out ${
+        isOpen ? 'translate-x-0' : '-translate-x-full'
+      } absolute left-0 top-0 bottom-0 z-20 shadow-lg`}
+    >
+      <div className="p-4">
+        <div className="flex justify-between items-center mb-4 border-b border-white border-opacity-20 pb-2">
+          <h2 className="text-xl font-bold">Conversations</h2>
+          <button
+            onClick={onClose}
+            className="text-white hover:text-gray-200 p-1"
+            title="Hide conversations"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+            </svg>
+          </button>
+        </div>
+
+        <button
+          onClick={onNewSession}
+          className="w-full mb-4 bg-white bg-opacity-20 hover:bg-opacity-30 text-white text-sm py-2 px-3 rounded"
+        >
+          + New conversation
+        </button>
+
+        {sessions.length === 0 ? (
+          <div className="text-sm text-gray-300">No saved conversations yet.</div>
+        ) : (
+          <ul className="space-y-2">
+            {sessions.map((session) => (
+              <li
+                key={session.id}
+                className={`p-2 rounded ${
+                  session.id === currentSessionId ? 'bg-black bg-opacity-30' : 'hover:bg-black hover:bg-opacity-20'
+                }`}
+              >
+                {editingId === session.id ? (
+                  <input
+                    autoFocus
+                    value={editingTitle}
+                    onChange={(e) => setEditingTitle(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="w-full bg-gray-700 text-white px-2 py-1 rounded text-sm"
+                  />
+                ) : (
+                  <button
+                    onClick={() => onSelectSession(session.id)}
+                    className="w-full text-left text-sm truncate"
+                    title={session.title}
+                  >
+                    {session.title}
+                  </button>
+                )}
+                <div className="flex justify-between items-center mt-1 text-xs text-gray-300">
+                  <span>{new Date(session.updatedAt).toLocaleString()}</span>
+                  <span className="space-x-2">
+                    <button onClick={() => startRename(session)} className="hover:text-white">
+                      Rename
+                    </button>
+                    <button onClick={() => handleDelete(session)} className="hover:text-white">
+                      Delete
+                    </button>
+                  </span>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SessionSidebar;
@@ -0,0 +1,35 @@
+import React from 'react';
+import { KnowledgePassage } from '@/lib/types';
+
+interface SourceListProps {
+  sources: KnowledgePassage[];
+  // Tailwind background class matching the agent's theme, e.g. 'bg-blue-800'
+  colorClassName?: string;
+}
+
+/**
+ * Lists the knowledge base passages an answer was based on
+ */
+const SourceList: React.FC<SourceListProps> = ({ sources, colorClassName = 'bg-gray-800' }) => {
+  if (sources.length === 0) return null;
+
+  return (
+    <div className="mt-2">
+      <div className="text-sm font-bold mb-1">Sources:</div>
+      <ul className="space-y-1">
+        {sources.map((source, index) => (
+          <li key={source.id} className={`${colorClassName} p-2 rounded text-xs`}>
+            <details>
+              <summary className="cursor-pointer">
+                [{index + 1}] {source.title} <span className="text-gray-300">({source.source})</span>
+              </summary>
+              <p className="mt-1 whitespace-pre-line text-gray-200">{source.text}</p>
+            </details>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SourceList;
@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react';
+import { SpeechService } from '@/lib/SpeechService';
+import { SpeechProgress } from '@/lib/tts/SpeechQueue';
+
+interface SpeechControlsProps {
+  speechService: SpeechService | null;
+  // Replay when nothing is being spoken, e.g. the last reply; omitted when there is nothing to replay
+  onReplay?: () => void;
+  // Tailwind background class matching the agent's theme, e.g. 'bg-blue-800'
+  colorClassName?: string;
+}
+
+const IDLE_PROGRESS: SpeechProgress = { state: 'idle', index: 0, total: 0, sentence: '' };
+
+/**
+ * Pause, resume, skip and replay buttons for the reply being spoken, with the sentence it has reached
+ */
+const SpeechControls: React.FC<SpeechControlsProps> = ({
+  speechService,
+  onReplay,
+  colorClassName = 'bg-gray-800'
+}) => {
+  const [progress, setProgress] = useState<SpeechProgress>(IDLE_PROGRESS);
+
+  useEffect(() => {
+    if (!speechService) return;
+
+    setProgress(speechService.getSpeechProgress());
+    speechService.onSpeechProgress(setProgress);
+    return () => speechService.onSpeechProgress(null);
+  }, [speechService]);
+
+  const active = progress.state !== 'idle';
+  const buttonClassName = 'bg-gray-600 hover:bg-gray-500 text-white text-xs py-1 px-3 rounded disabled:opacity-50';
+
+  const handleReplay = () => {
+    if (!speechService) return;
+    if (active) {
+      speechService.replaySpeech();
+    } else if (onReplay) {
+      onReplay();
+    }
+  };
+
+  return (
+    <div className={`${colorClassName} p-2 rounded mt-2`}>
+      <div className="flex space-x-2">
+        {progress.state === 'paused' ? (
+          <button onClick={() => speechService?.resumeSpeaking()} className={buttonClassName}>
+            Resume
+          </button>
+        ) : (
+          <button onClick={() => speechService?.pauseSpeaking()} disabled={!active} className={buttonClassName}>
+            Pause
+          </button>
+        )}
+        <button
+          onClick={() => speechService?.skipSentence()}
+          disabled={!active}
+          title="Skip to the next sentence"
+          className={buttonClassName}
+        >
+          Skip
+        </button>
+        <button
+          onClick={handleReplay}
+          disabled={!active && !onReplay}
+          title="Hear the reply again from the start"
+          className={buttonClassName}
+        >
+          Replay
+        </button>
+      </div>
+      {active && progress.total > 0 && (
+        <div className="text-xs text-gray-300 mt-1">
+          {progress.state === 'paused' ? 'Paused at' : 'Speaking'} sentence {Math.min(progress.index + 1, progress.total)} of {progress.total}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SpeechControls;
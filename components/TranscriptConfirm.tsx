@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import { TranscriptAlternative } from '@/lib/types';
+
+// Time to look over the transcript before it is sent as it is
+const AUTO_SEND_SECONDS = 6;
+
+interface TranscriptConfirmProps {
+  transcript: string;
+  // What recognition heard, best first
+  alternatives: TranscriptAlternative[];
+  onConfirm: (text: string) => void;
+  onCancel: () => void;
+  // Tailwind background class matching the agent's theme, e.g. 'bg-blue-800'
+  colorClassName?: string;
+}
+
+/**
+ * Shows a transcript recognition wasn't sure about, so the user can pick another guess or correct it
+ * (names are the usual victims) before it is sent. It is sent as it is after a few seconds unless the user
+ * starts changing it.
+ */
+const TranscriptConfirm: React.FC<TranscriptConfirmProps> = ({
+  transcript,
+  alternatives,
+  onConfirm,
+  onCancel,
+  colorClassName = 'bg-gray-800'
+}) => {
+  const [text, setText] = useState(transcript);
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(AUTO_SEND_SECONDS);
+
+  useEffect(() => {
+    setText(transcript);
+    setSecondsLeft(AUTO_SEND_SECONDS);
+  }, [transcript]);
+
+  // Count down to sending; stops for good once the user takes over
+  useEffect(() => {
+    if (secondsLeft === null) return;
+    if (secondsLeft <= 0) {
+      onConfirm(text);
+      return;
+    }
+    const timer = setTimeout(() => setSecondsLeft(secondsLeft - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [secondsLeft]);
+
+  const takeOver = () => setSecondsLeft(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onConfirm(text);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className={`${colorClassName} p-2 rounded mb-4`}>
+      <div className="text-xs text-gray-200 mb-1">
+        Did you say this? Correct it if needed.
+        {secondsLeft !== null && ` Sending in ${secondsLeft}s...`}
+      </div>
+      <input
+        type="text"
+        value={text}
+        onChange={(e) => {
+          takeOver();
+          setText(e.target.value);
+        }}
+        onFocus={takeOver}
+        aria-label="Transcript"
+        className="w-full bg-gray-700 text-white px-2 py-1 rounded text-sm mb-2"
+      />
+      {alternatives.length > 1 && (
+        <div className="flex flex-wrap gap-1 mb-2">
+          {alternatives.map((alternative) => (
+            <button
+              key={alternative.text}
+              type="button"
+              onClick={() => {
+                takeOver();
+                setText(alternative.text);
+              }}
+              className={`text-xs px-2 py-1 rounded border border-gray-400 ${
+                alternative.text === text ? 'bg-gray-600' : 'hover:bg-gray-600'
+              }`}
+            >
+              {alternative.text}
+              {alternative.confidence !== undefined && (
+                <span className="text-gray-300"> ({Math.round(alternative.confidence * 100)}%)</span>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="flex space-x-2">
+        <button type="submit" className="bg-green-600 hover:bg-green-700 text-white text-xs py-1 px-3 rounded">
+          Send
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="bg-gray-600 hover:bg-gray-500 text-white text-xs py-1 px-3 rounded"
+        >
+          Say it again
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default TranscriptConfirm;
@@ -0,0 +1,408 @@
+import { useCallback, useEffect, useReducer, useRef, useState } from 'react';
+import { Avatar } from '@/models/Avatar';
+import { SpeechService } from '@/lib/SpeechService';
+import { QwenService } from '@/lib/QwenService';
+import { describeLLMError, isAbortError } from '@/lib/llm/errors';
+import { VoiceActivityDetector } from '@/lib/vad/VoiceActivityDetector';
+import { InputMode } from '@/lib/agent/inputModes';
+import { VoiceCommand, getConfirmation, recognizeCommand } from '@/lib/commands/voiceCommands';
+import { TranscriptAlternative } from '@/lib/types';
+import {
+  conversationReducer,
+  initialConversationState,
+  isBusy,
+  isListening
+} from '@/lib/agent/conversationMachine';
+
+interface UseAgentOptions {
+  avatar: Avatar | null;
+  speechService: SpeechService | null;
+  qwenService: QwenService | null;
+  // Called after each completed reply, e.g. to save the session
+  onReply?: () => void;
+  // Let the user interrupt the reply by talking over it
+  bargeIn?: boolean;
+  // How readily talking counts as an interruption, 0 to 1
+  bargeInSensitivity?: number;
+  // How the user starts talking; see lib/agent/inputModes.ts
+  inputMode?: InputMode;
+  // Names the agent answers to in wake-word mode; keep the array stable between renders
+  wakeWords?: string[];
+  // Carry out a spoken command (lib/commands) instead of asking the model; return false to ask the model after all.
+  // Without it, everything the user says goes to the model. Repeating the last reply is handled here.
+  onCommand?: (command: VoiceCommand) => boolean;
+}
+
+// Pause before recognition (re)starts, so the browser isn't switching from speaking to listening at once
+const LISTEN_DELAY_MS = 300;
+// Pause before listening again after a failed turn
+const ERROR_RETRY_DELAY_MS = 500;
+// In always-on mode, stop listening after this long without hearing anything
+const SILENCE_TIMEOUT_MS = 30000;
+// After push-to-talk is released, how long to wait for the recognizer's last words
+const RELEASE_TIMEOUT_MS = 3000;
+
+const NO_WAKE_WORDS: string[] = [];
+
+function joinTranscripts(first: string, second: string): string {
+  return first && second ? `${first} ${second}` : first || second;
+}
+
+// Add an utterance recognized while push-to-talk is held; several utterances together keep the lowest confidence
+function appendUtterance(held: TranscriptAlternative[], alternatives: TranscriptAlternative[]): TranscriptAlternative[] {
+  if (held.length === 0) return alternatives;
+  const text = joinTranscripts(held[0].text, alternatives[0].text);
+  const confidences = [held[0].confidence, alternatives[0].confidence]
+    .filter((confidence): confidence is number => confidence !== undefined);
+  return [confidences.length > 0 ? { text, confidence: Math.min(...confidences) } : { text }];
+}
+
+/**
+ * Runs voice conversation turns with the conversation state machine (lib/agent/conversationMachine.ts).
+ * The reducer decides which status comes next; the effects here start and stop recognition,
+ * requests and speech whenever the status changes.
+ */
+export function useAgent({
+  avatar,
+  speechService,
+  qwenService,
+  onReply,
+  bargeIn = false,
+  bargeInSensitivity = 0.5,
+  inputMode = 'always-on',
+  wakeWords = NO_WAKE_WORDS,
+  onCommand
+}: UseAgentOptions) {
+  const [state, dispatch] = useReducer(conversationReducer, initialConversationState);
+  // Whether the push-to-talk key or button is held down
+  const [talkHeld, setTalkHeld] = useState(false);
+  const onReplyRef = useRef(onReply);
+  onReplyRef.current = onReply;
+  const onCommandRef = useRef(onCommand);
+  onCommandRef.current = onCommand;
+  const bargeInRef = useRef(bargeIn);
+  bargeInRef.current = bargeIn;
+  const inputModeRef = useRef(inputMode);
+  inputModeRef.current = inputMode;
+  const vadRef = useRef<VoiceActivityDetector | null>(null);
+  const talkHeldRef = useRef(false);
+  // Push-to-talk: everything recognized while the key is held, sent as one utterance on release
+  const heldUtteranceRef = useRef<TranscriptAlternative[]>([]);
+  // Push-to-talk: whether the recognizer may still deliver words for what was said
+  const expectingFinalRef = useRef(false);
+  const releaseTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const pushToTalk = inputMode === 'push-to-talk';
+  // Push-to-talk opens the microphone only while held. Otherwise, with barge-in, recognition also keeps
+  // running while the agent answers, so the first words of an interruption aren't lost; the reducer
+  // ignores transcripts until the status is back to listening.
+  const micOpen = pushToTalk ? talkHeld : isListening(state) || (bargeIn && isBusy(state));
+
+  // Send what was said while push-to-talk was held
+  const finishPushToTalk = useCallback(() => {
+    if (releaseTimerRef.current) {
+      clearTimeout(releaseTimerRef.current);
+      releaseTimerRef.current = null;
+    }
+    const alternatives = heldUtteranceRef.current;
+    heldUtteranceRef.current = [];
+    expectingFinalRef.current = false;
+    dispatch(alternatives.length > 0
+      ? { type: 'FINAL_TRANSCRIPT', text: alternatives[0].text, alternatives }
+      : { type: 'STOP_LISTENING' });
+  }, []);
+
+  // (Re)start recognition, dropping anything heard so far
+  const listen = useCallback(() => {
+    if (!speechService) return;
+    heldUtteranceRef.current = [];
+    expectingFinalRef.current = false;
+
+    speechService.startListening(
+      (text, alternatives) => {
+        if (inputModeRef.current !== 'push-to-talk') {
+          dispatch({ type: 'FINAL_TRANSCRIPT', text, alternatives });
+          return;
+        }
+        heldUtteranceRef.current = appendUtterance(heldUtteranceRef.current, alternatives);
+        expectingFinalRef.current = false;
+        if (talkHeldRef.current) {
+          dispatch({ type: 'INTERIM_TRANSCRIPT', text: heldUtteranceRef.current[0].text });
+        } else {
+          finishPushToTalk();
+        }
+      },
+      (text) => {
+        if (inputModeRef.current === 'push-to-talk') {
+          expectingFinalRef.current = true;
+          text = joinTranscripts(heldUtteranceRef.current.length > 0 ? heldUtteranceRef.current[0].text : '', text);
+        }
+        dispatch({ type: 'INTERIM_TRANSCRIPT', text });
+      }
+    );
+  }, [speechService, finishPushToTalk]);
+
+  // A reply has been spoken: listen for the user's answer, unless they decide when to talk
+  const finishSpeaking = useCallback((turn: number) => {
+    const listenForAnswer = inputModeRef.current !== 'push-to-talk';
+    dispatch({ type: 'SPEECH_ENDED', turn, listen: listenForAnswer });
+    // Recognition heard the reply while it was spoken; start afresh so it isn't taken for the user
+    if (listenForAnswer && bargeInRef.current) listen();
+  }, [listen]);
+
+  // Keep recognition running exactly while the microphone should be open
+  useEffect(() => {
+    if (!speechService || !micOpen) return;
+
+    // Push-to-talk starts at once, so the first words aren't cut off
+    const timer = setTimeout(listen, pushToTalk ? 0 : LISTEN_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      speechService.stopListening();
+    };
+  }, [speechService, micOpen, listen]);
+
+  // Tell the speech service which utterances are meant for the agent
+  useEffect(() => {
+    if (!speechService) return;
+    speechService.setInputMode(inputMode, wakeWords);
+    // Saying the agent's name while it answers interrupts it
+    speechService.onWakeWord(() => {
+      if (bargeInRef.current) dispatch({ type: 'BARGE_IN' });
+    });
+  }, [speechService, inputMode, wakeWords]);
+
+  // Push-to-talk doesn't keep listening when the mode changes to it
+  useEffect(() => {
+    if (pushToTalk) dispatch({ type: 'STOP_LISTENING' });
+  }, [pushToTalk]);
+
+  // Always-on mode gives up after a long silence, so the microphone isn't left open by accident
+  useEffect(() => {
+    if (inputMode !== 'always-on' || state.status !== 'listening') return;
+
+    const timer = setTimeout(() => {
+      console.log('No speech heard for a while; stopped listening');
+      dispatch({ type: 'STOP_LISTENING' });
+    }, SILENCE_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [inputMode, state.status, state.turn]);
+
+  useEffect(() => () => {
+    if (releaseTimerRef.current) clearTimeout(releaseTimerRef.current);
+  }, []);
+
+  // Watch for the user talking over the reply; in wake-word mode, saying the name does this instead
+  useEffect(() => {
+    if (!bargeIn || !micOpen || inputMode !== 'always-on' || !VoiceActivityDetector.isSupported()) return;
+
+    const vad = new VoiceActivityDetector(bargeInSensitivity);
+    vadRef.current = vad;
+    vad.start({ onSpeechStart: () => dispatch({ type: 'BARGE_IN' }) });
+
+    return () => {
+      vad.stop();
+      vadRef.current = null;
+    };
+  }, [bargeIn, micOpen, inputMode]);
+
+  useEffect(() => {
+    if (vadRef.current) vadRef.current.setSensitivity(bargeInSensitivity);
+  }, [bargeInSensitivity]);
+
+  // The avatar's own voice must not count as the user talking
+  useEffect(() => {
+    if (vadRef.current) vadRef.current.setPlaybackActive(state.status === 'speaking');
+  }, [state.status, bargeIn, micOpen, inputMode]);
+
+  // Answer each new turn; a later turn, an interruption or a reset cancels it
+  useEffect(() => {
+    if (state.status !== 'thinking' || !qwenService || !speechService || !avatar) return;
+
+    const turn = state.turn;
+
+    // Commands like "stop" or "speak slower" are carried out here, without asking the model
+    const handleCommand = onCommandRef.current;
+    const command = handleCommand ? recognizeCommand(state.transcript, speechService.getLanguage()) : null;
+    if (command && command.name === 'repeat' && state.response) {
+      dispatch({ type: 'REPLAY', text: state.response });
+      return;
+    }
+    if (command && handleCommand && command.name !== 'repeat' && handleCommand(command)) {
+      // Confirm out loud, in the language now spoken. As an announcement it is still spoken
+      // when the command reset the conversation, as changing the language does.
+      const confirmation = getConfirmation(command, speechService.getLanguage());
+      if (confirmation) dispatch({ type: 'ANNOUNCE', text: confirmation });
+      finishSpeaking(turn);
+      return;
+    }
+
+    const controller = new AbortController();
+    let speaking = true;
+
+    // Start a speech stream so the first sentence is spoken while the rest is still arriving
+    speechService.startSpeechStream(
+      () => dispatch({ type: 'SPEECH_STARTED', turn }),
+      () => {
+        speaking = false;
+        if (!controller.signal.aborted) finishSpeaking(turn);
+      }
+    );
+
+    let receivedFirstToken = false;
+    qwenService.getStreamingReply(state.transcript, (token) => {
+      receivedFirstToken = true;
+      dispatch({ type: 'REPLY_TOKEN', turn, token });
+      speechService.appendToSpeechStream(token);
+    }, controller.signal, (emotion, intensity) => {
+      // The emotion arrives before the text, so the voice carries it from the first sentence
+      speechService.setEmotion(emotion, intensity);
+    })
+      .then((reply) => {
+        dispatch({ type: 'REPLY_DONE', turn, text: reply.text, sources: reply.sources || [] });
+        if (onReplyRef.current) onReplyRef.current();
+
+        // Express the emotion and gestures the model chose for its reply
+        avatar.setEmotion(reply.emotion, reply.intensity);
+        avatar.playGestures(reply.gestures);
+
+        // If the provider didn't stream, speak the whole response now
+        if (!receivedFirstToken) {
+          speechService.setEmotion(reply.emotion, reply.intensity);
+          speechService.appendToSpeechStream(reply.text);
+        }
+        speechService.endSpeechStream();
+      })
+      .catch((error) => {
+        // Cancelled by a later turn, an interruption or a reset
+        if (isAbortError(error)) return;
+
+        console.error('Error handling user speech:', error);
+        speaking = false;
+        speechService.stopSpeaking();
+        // Show the failure as an error instead of speaking it as the agent's reply
+        dispatch({ type: 'REPLY_FAILED', turn, error: describeLLMError(error) });
+      });
+
+    return () => {
+      controller.abort();
+      if (speaking) speechService.stopSpeaking();
+    };
+  }, [state.turn]);
+
+  // Speak an earlier reply again; a later turn, an interruption or a reset stops it
+  useEffect(() => {
+    if (state.status !== 'speaking' || state.replayText === null || !speechService) return;
+
+    const turn = state.turn;
+    let speaking = true;
+    speechService.speak(state.replayText, undefined, () => {
+      speaking = false;
+      finishSpeaking(turn);
+    });
+
+    return () => {
+      if (speaking) speechService.stopSpeaking();
+    };
+  }, [state.turn]);
+
+  // Show how the turn is going on the avatar's face
+  useEffect(() => {
+    if (!avatar) return;
+
+    if (state.status === 'thinking') {
+      avatar.setEmotion('thinking');
+    } else if (state.status === 'error') {
+      avatar.setEmotion('sad');
+    } else if (state.status !== 'speaking' && state.status !== 'transcribing') {
+      avatar.setEmotion('neutral');
+    }
+  }, [avatar, state.status]);
+
+  // Listen again shortly after a failed turn, unless the user decides when to talk
+  useEffect(() => {
+    if (state.status !== 'error' || pushToTalk) return;
+
+    const timer = setTimeout(() => dispatch({ type: 'RESUME_LISTENING' }), ERROR_RETRY_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [state.status, state.turn, pushToTalk]);
+
+  const startListening = useCallback(() => dispatch({ type: 'START_LISTENING' }), []);
+  const stopListening = useCallback(() => dispatch({ type: 'STOP_LISTENING' }), []);
+  const interrupt = useCallback(() => dispatch({ type: 'INTERRUPT' }), []);
+  const confirmTranscript = useCallback((text: string) => dispatch({ type: 'CONFIRM_TRANSCRIPT', text }), []);
+  const cancelTranscript = useCallback(() => {
+    dispatch({ type: 'CANCEL_TRANSCRIPT' });
+    // Push-to-talk listens again on the next press
+    if (inputModeRef.current === 'push-to-talk') dispatch({ type: 'STOP_LISTENING' });
+  }, []);
+  const replay = useCallback((text: string) => dispatch({ type: 'REPLAY', text }), []);
+  const reset = useCallback(() => dispatch({ type: 'RESET' }), []);
+
+  // The main voice button: stop the answer while answering, otherwise start or stop listening
+  const toggleListening = useCallback(() => {
+    if (isBusy(state)) {
+      dispatch({ type: 'INTERRUPT' });
+    } else if (isListening(state)) {
+      dispatch({ type: 'STOP_LISTENING' });
+    } else {
+      dispatch({ type: 'START_LISTENING' });
+    }
+  }, [state]);
+
+  // Push-to-talk pressed: interrupt any answer and listen
+  const pressToTalk = useCallback(() => {
+    if (talkHeldRef.current) return;
+    talkHeldRef.current = true;
+    setTalkHeld(true);
+    if (releaseTimerRef.current) {
+      clearTimeout(releaseTimerRef.current);
+      releaseTimerRef.current = null;
+    }
+    // Only the one that applies to the current status takes effect
+    dispatch({ type: 'BARGE_IN' });
+    dispatch({ type: 'START_LISTENING' });
+  }, []);
+
+  // Push-to-talk released: send the utterance once the recognizer has delivered its last words
+  const releaseToTalk = useCallback(() => {
+    if (!talkHeldRef.current) return;
+    talkHeldRef.current = false;
+    setTalkHeld(false);
+
+    // Server-side recognition only delivers after it stops; browser recognition may still be finishing a phrase
+    const waitForRecognizer = expectingFinalRef.current ||
+      Boolean(speechService && !speechService.hasInterimResults());
+    if (waitForRecognizer) {
+      releaseTimerRef.current = setTimeout(finishPushToTalk, RELEASE_TIMEOUT_MS);
+    } else {
+      finishPushToTalk();
+    }
+  }, [speechService, finishPushToTalk]);
+
+  const showExchange = useCallback((transcript: string, response: string) => {
+    dispatch({ type: 'SHOW_EXCHANGE', transcript, response });
+  }, []);
+
+  const announce = useCallback((text: string) => {
+    dispatch({ type: 'ANNOUNCE', text });
+  }, []);
+
+  return {
+    state,
+    talkHeld,
+    toggleListening,
+    pressToTalk,
+    releaseToTalk,
+    startListening,
+    stopListening,
+    interrupt,
+    confirmTranscript,
+    cancelTranscript,
+    replay,
+    reset,
+    showExchange,
+    announce
+  };
+}
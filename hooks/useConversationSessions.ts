@@ -0,0 +1,170 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { QwenService } from '@/lib/QwenService';
+import { ConversationSession, ConversationStore } from '@/lib/storage/ConversationStore';
+
+/**
+ * Keeps a QwenService in sync with the sessions stored in IndexedDB.
+ * On mount the most recent session for the persona is resumed, so history survives reloads.
+ * `onSessionLoaded` is called whenever a session is resumed or a new one is started.
+ */
+export function useConversationSessions(
+  persona: string,
+  qwenService: QwenService | null,
+  onSessionLoaded?: (session: ConversationSession | null) => void
+) {
+  const storeRef = useRef<ConversationStore>(new ConversationStore());
+  const currentSessionRef = useRef<ConversationSession | null>(null);
+  // Counts the conversations started or resumed; a save for an earlier one mustn't switch back to it
+  const conversationRef = useRef(0);
+  // Saves run one at a time, so the first exchanges of a new conversation create a single session
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+  // Where the last save went, so the next save of the same conversation updates that session
+  const lastSaveRef = useRef<{ conversation: number; session: ConversationSession } | null>(null);
+  const onSessionLoadedRef = useRef(onSessionLoaded);
+  const [sessions, setSessions] = useState<ConversationSession[]>([]);
+  const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+
+  onSessionLoadedRef.current = onSessionLoaded;
+
+  const refreshSessions = useCallback(async () => {
+    try {
+      setSessions(await storeRef.current.listSessions(persona));
+    } catch (error) {
+      console.error('Failed to list conversation sessions:', error);
+    }
+  }, [persona]);
+
+  const setCurrentSession = (session: ConversationSession | null) => {
+    currentSessionRef.current = session;
+    setCurrentSessionId(session ? session.id : null);
+  };
+
+  // Switch to another conversation (or none, for a new one)
+  const switchSession = (session: ConversationSession | null) => {
+    conversationRef.current++;
+    setCurrentSession(session);
+  };
+
+  // Resume the most recent session once the service is ready
+  useEffect(() => {
+    if (!qwenService) return;
+
+    let cancelled = false;
+    storeRef.current.listSessions(persona)
+      .then((stored) => {
+        if (cancelled) return;
+        setSessions(stored);
+
+        const latest = stored[0] || null;
+        if (latest) {
+          qwenService.loadConversation(latest.messages, latest.summary);
+        }
+        switchSession(latest);
+        if (onSessionLoadedRef.current) onSessionLoadedRef.current(latest);
+      })
+      .catch((error) => {
+        console.error('Failed to restore conversation sessions:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [persona, qwenService]);
+
+  /**
+   * Persist the service's current conversation, creating a session on the first exchange.
+   * The conversation is captured now and saved after any earlier saves have finished.
+   */
+  const saveCurrentSession = useCallback((): Promise<void> => {
+    if (!qwenService) return Promise.resolve();
+
+    const messages = qwenService.getConversationHistory().slice(1);
+    if (messages.length === 0) return Promise.resolve();
+    const summary = qwenService.getSummary();
+    const conversation = conversationRef.current;
+    const startingSession = currentSessionRef.current;
+
+    const save = async () => {
+      const store = storeRef.current;
+      // The current session is up to date with earlier saves and renames; once the user has moved on,
+      // the last save of this conversation is
+      const lastSave = lastSaveRef.current;
+      const existing = conversationRef.current === conversation
+        ? currentSessionRef.current
+        : lastSave && lastSave.conversation === conversation ? lastSave.session : startingSession;
+      try {
+        const session = await store.saveSession(existing || await store.createSession(persona), messages, summary);
+        lastSaveRef.current = { conversation, session };
+        // Still saved if the user moved on in the meantime, but the UI stays with the conversation they chose
+        if (conversationRef.current === conversation) setCurrentSession(session);
+        await refreshSessions();
+      } catch (error) {
+        console.error('Failed to save conversation session:', error);
+      }
+    };
+
+    const queued = saveQueueRef.current.then(save);
+    saveQueueRef.current = queued;
+    return queued;
+  }, [persona, qwenService, refreshSessions]);
+
+  /**
+   * Start a fresh conversation; it is stored once the first exchange is saved
+   */
+  const startNewSession = useCallback(() => {
+    if (!qwenService) return;
+
+    qwenService.resetConversation();
+    switchSession(null);
+    if (onSessionLoadedRef.current) onSessionLoadedRef.current(null);
+  }, [qwenService]);
+
+  const resumeSession = useCallback(async (id: string) => {
+    if (!qwenService) return;
+
+    try {
+      const session = await storeRef.current.getSession(id);
+      if (!session) return;
+
+      qwenService.loadConversation(session.messages, session.summary);
+      switchSession(session);
+      if (onSessionLoadedRef.current) onSessionLoadedRef.current(session);
+    } catch (error) {
+      console.error('Failed to resume conversation session:', error);
+    }
+  }, [qwenService]);
+
+  const renameSession = useCallback(async (id: string, title: string) => {
+    try {
+      const renamed = await storeRef.current.renameSession(id, title);
+      if (renamed && currentSessionRef.current && currentSessionRef.current.id === id) {
+        setCurrentSession(renamed);
+      }
+      await refreshSessions();
+    } catch (error) {
+      console.error('Failed to rename conversation session:', error);
+    }
+  }, [refreshSessions]);
+
+  const deleteSession = useCallback(async (id: string) => {
+    try {
+      await storeRef.current.deleteSession(id);
+      if (currentSessionRef.current && currentSessionRef.current.id === id) {
+        startNewSession();
+      }
+      await refreshSessions();
+    } catch (error) {
+      console.error('Failed to delete conversation session:', error);
+    }
+  }, [refreshSessions, startNewSession]);
+
+  return {
+    sessions,
+    currentSessionId,
+    saveCurrentSession,
+    startNewSession,
+    resumeSession,
+    renameSession,
+    deleteSession
+  };
+}
@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useState } from 'react';
+import { UserMemory } from '@/lib/memory/UserMemory';
+import { UserFact } from '@/lib/storage/MemoryStore';
+
+/**
+ * The facts a character remembers about the user, kept up to date as it learns new ones
+ */
+export function useUserMemory(memory: UserMemory | null) {
+  const [facts, setFacts] = useState<UserFact[]>([]);
+
+  const refreshFacts = useCallback(async () => {
+    if (!memory) return;
+
+    try {
+      setFacts(await memory.listFacts());
+    } catch (error) {
+      console.error('Failed to list remembered facts:', error);
+    }
+  }, [memory]);
+
+  useEffect(() => {
+    if (!memory) return;
+
+    refreshFacts();
+    return memory.subscribe(refreshFacts);
+  }, [memory, refreshFacts]);
+
+  const updateFact = useCallback(async (id: string, text: string) => {
+    if (!memory) return;
+
+    try {
+      await memory.updateFact(id, text);
+    } catch (error) {
+      console.error('Failed to update remembered fact:', error);
+    }
+  }, [memory]);
+
+  const deleteFact = useCallback(async (id: string) => {
+    if (!memory) return;
+
+    try {
+      await memory.deleteFact(id);
+    } catch (error) {
+      console.error('Failed to delete remembered fact:', error);
+    }
+  }, [memory]);
+
+  const clearFacts = useCallback(async () => {
+    if (!memory) return;
+
+    try {
+      await memory.clear();
+    } catch (error) {
+      console.error('Failed to clear remembered facts:', error);
+    }
+  }, [memory]);
+
+  return {
+    facts,
+    updateFact,
+    deleteFact,
+    clearFacts
+  };
+}
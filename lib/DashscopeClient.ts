@@ -1,53 +1,186 @@
-import { ChatRequest, ChatResponse, ChatMessage } from './types';
-
-export class DashscopeClient {
-  private apiKey: string;
-  private baseUrl = 'https://dashscope.aliyuncs.com/compatible-mode/v1/chat/completions';
-  private model = 'qwen-max';
-
-  constructor() {
-    // Get API key from environment variable
-    this.apiKey = process.env.NEXT_PUBLIC_DASHSCOPE_API_KEY || '';
-    
-    if (!this.apiKey) {
-      console.error('NEXT_PUBLIC_DASHSCOPE_API_KEY is not set');
+import { ChatMessage, ToolCall } from './types';
+import { readServerSentEvents } from './sse';
+import { LLMCompletion, LLMOptions, LLMProvider, ModelInfo } from './llm/LLMProvider';
+import { LLMError, throwIfAborted } from './llm/errors';
+import { withRetry } from './llm/retry';
+
+// Give up on a request that hasn't responded within this time
+const REQUEST_TIMEOUT_MS = 30000;
+
+/**
+ * Browser-side provider that sends the conversation to our /api/chat route.
+ * The route holds the API keys and forwards to the provider chosen in the server config.
+ * Failures are thrown as typed LLMErrors; transient ones are retried with jittered backoff.
+ * Pass `signal` in the options to cancel a request, including any retries still waiting.
+ */
+export class DashscopeClient implements LLMProvider {
+  public readonly name = 'chat-proxy';
+  // Requests go through our own API route so the API key stays on the server
+  private baseUrl = '/api/chat';
+
+  /**
+   * The model the server's provider uses by default, or null if the server couldn't say
+   */
+  public static async getServerModel(): Promise<ModelInfo | null> {
+    try {
+      const response = await fetch('/api/chat');
+      if (!response.ok) return null;
+      const data = await response.json();
+      if (typeof data.model !== 'string' || !data.model) return null;
+      return {
+        model: data.model,
+        contextWindow: typeof data.contextWindow === 'number' ? data.contextWindow : undefined
+      };
+    } catch (error) {
+      console.error('Failed to get the model configured on the server:', error);
+      return null;
     }
   }
 
   /**
-   * Generate a response from the Qwen model using Dashscope API (OpenAI-compatible endpoint)
+   * Generate a response via the server-side chat proxy
+   */
+  public async generateResponse(messages: ChatMessage[], options: LLMOptions = {}): Promise<LLMCompletion> {
+    const { signal, ...requestOptions } = options;
+
+    return withRetry(async () => {
+      const data = await this.post({ messages, options: requestOptions }, signal, response => response.json());
+      throwIfAborted(signal);
+
+      if (data.toolCalls && data.toolCalls.length > 0) {
+        return { content: data.content || '', toolCalls: data.toolCalls };
+      }
+      return { content: data.content || '' };
+    }, { signal });
+  }
+
+  /**
+   * Stream a response token by token via the server-side chat proxy.
+   * Each token is passed to `onToken` as it arrives; the full completion is returned at the end.
+   * A request is only retried if it failed before any token was delivered.
    */
-  public async generateResponse(messages: ChatMessage[]): Promise<string> {
-    if (!this.apiKey) {
-      return "Error: API key not configured. Please set the NEXT_PUBLIC_DASHSCOPE_API_KEY environment variable.";
+  public async streamResponse(
+    messages: ChatMessage[],
+    onToken: (token: string) => void,
+    options: LLMOptions = {}
+  ): Promise<LLMCompletion> {
+    const { signal, ...requestOptions } = options;
+    let deliveredTokens = false;
+
+    return withRetry(async () => {
+      let fullText = '';
+      let toolCalls: ToolCall[] | undefined;
+      let streamError: LLMError | null = null;
+
+      await this.post({ messages, options: requestOptions, stream: true }, signal, response => {
+        if (!response.body) {
+          throw new LLMError('server', 'The chat API returned an empty stream');
+        }
+        return readServerSentEvents(response.body, (data) => {
+          // Tokens that were already buffered when the request was cancelled are dropped
+          if (data === '[DONE]' || (signal && signal.aborted)) return;
+
+          let event: any;
+          try {
+            event = JSON.parse(data);
+          } catch (error) {
+            console.error('Failed to parse chat stream event:', data);
+            return;
+          }
+
+          if (event.error) {
+            streamError = LLMError.fromPayload(event.error);
+            return;
+          }
+          if (event.content) {
+            fullText += event.content;
+            deliveredTokens = true;
+            onToken(event.content);
+          }
+          if (event.toolCalls) {
+            toolCalls = event.toolCalls;
+          }
+        });
+      });
+
+      throwIfAborted(signal);
+      if (streamError) {
+        throw streamError;
+      }
+
+      return toolCalls ? { content: fullText, toolCalls } : { content: fullText };
+    }, {
+      shouldRetry: () => !deliveredTokens,
+      signal
+    });
+  }
+
+  /**
+   * POST to the chat route, turning HTTP and network failures into LLMErrors, and read the response with `read`.
+   * The caller's signal stays linked to the request until the body has been read, so it also cancels reading
+   * a streamed body; the link is removed afterwards so a long-lived signal doesn't collect listeners.
+   */
+  private async post<T>(
+    body: Record<string, unknown>,
+    signal: AbortSignal | undefined,
+    read: (response: Response) => Promise<T>
+  ): Promise<T> {
+    throwIfAborted(signal);
+
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    if (signal) {
+      signal.addEventListener('abort', abort, { once: true });
+    }
+    try {
+      return await read(await this.send(body, signal, controller));
+    } finally {
+      if (signal) signal.removeEventListener('abort', abort);
     }
+  }
+
+  // Make the request on `controller`, which also enforces the timeout
+  private async send(
+    body: Record<string, unknown>,
+    signal: AbortSignal | undefined,
+    controller: AbortController
+  ): Promise<Response> {
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
 
+    let response: Response;
     try {
-      const response = await fetch(this.baseUrl, {
+      response = await fetch(this.baseUrl, {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`
+          'Content-Type': 'application/json'
         },
-        body: JSON.stringify({
-          model: this.model,
-          messages: messages,
-          temperature: 0.7,
-          max_tokens: 800
-        })
+        body: JSON.stringify(body),
+        signal: controller.signal
       });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Dashscope API error:', errorText);
-        return `Error: Failed to generate response (HTTP ${response.status})`;
+    } catch (error) {
+      throwIfAborted(signal);
+      if (controller.signal.aborted) {
+        throw new LLMError('timeout', `The chat API did not respond within ${REQUEST_TIMEOUT_MS / 1000} seconds`);
       }
+      throw new LLMError('network', `Failed to communicate with the chat API: ${(error as Error).message}`);
+    } finally {
+      clearTimeout(timeout);
+    }
 
-      const data = await response.json();
-      return data.choices[0].message.content || "Sorry, I couldn't generate a response.";
-    } catch (error) {
-      console.error('Error calling Dashscope API:', error);
-      return "Error: Failed to communicate with the Dashscope API. Please try again later.";
+    if (!response.ok) {
+      let payload: any = null;
+      try {
+        payload = await response.json();
+      } catch (error) {
+        // Not a JSON error from our route (e.g. a proxy error page)
+      }
+      const error = payload && payload.error
+        ? LLMError.fromPayload(payload.error, response.status)
+        : LLMError.fromResponse(response.status, '', response.headers.get('Retry-After'));
+      console.error('Chat API error:', error.kind, error.message);
+      throw error;
     }
+
+    return response;
   }
-} 
\ No newline at end of file
+}
@@ -1,13 +1,80 @@
 import { DashscopeClient } from './DashscopeClient';
-import { ChatMessage } from './types';
+import { LLMCompletion, LLMOptions, LLMProvider, ModelInfo } from './llm/LLMProvider';
+import { LLMError, isAbortError, throwIfAborted, toLLMError } from './llm/errors';
+import { ToolRegistry } from './tools/ToolRegistry';
+import { ContextWindow } from './context/ContextWindow';
+import { summarizeMessages } from './context/summarizer';
+import { REPLY_FORMAT_PROMPT, parseAgentReply, readStreamedEmotion } from './replies/agentReply';
+import { StreamingReplyParser } from './replies/StreamingReplyParser';
+import { KnowledgeRetriever } from './knowledge/KnowledgeRetriever';
+import { formatKnowledgePrompt, resolveSources } from './knowledge/citations';
+import { UserMemory } from './memory/UserMemory';
+import { formatMemoryPrompt } from './memory/recall';
+import { UserFact } from './storage/MemoryStore';
+import { AgentReply, ChatMessage, EmotionType, KnowledgePassage } from './types';
+
+// Maximum number of tool call rounds before the model is asked for a plain answer
+const MAX_TOOL_ROUNDS = 5;
+// Exchanges collected before facts about the user are extracted from them
+const MEMORY_EXCHANGE_INTERVAL = 2;
+
+export interface QwenServiceOptions {
+  // Defaults to the /api/chat proxy, which uses the provider from the server config
+  provider?: LLMProvider;
+  // Per-character overrides for model, temperature and max tokens
+  llmOptions?: LLMOptions;
+  // Tools the model may call; their results are fed back until it gives a final answer
+  tools?: ToolRegistry;
+  // Token budget for the prompt; defaults to what the model's context window allows
+  maxPromptTokens?: number;
+  // The character's knowledge base; relevant passages are added to each request
+  knowledge?: KnowledgeRetriever;
+  // What the character remembers about the user; relevant facts are added to each request
+  memory?: UserMemory;
+}
+
+interface TurnOptions {
+  signal?: AbortSignal;
+  // Extra system instructions for every request in the turn
+  instructions?: string;
+  // What to keep in the history for the raw reply
+  toHistoryText?: (content: string) => string;
+}
+
+interface TurnResult {
+  // The raw reply from the model
+  content: string;
+  // Knowledge passages that were added to the prompt
+  passages: KnowledgePassage[];
+}
 
 export class QwenService {
-  private dashscopeClient: DashscopeClient;
+  private provider: LLMProvider;
+  private llmOptions: LLMOptions;
+  private tools: ToolRegistry | null;
+  private knowledge: KnowledgeRetriever | null;
+  private memory: UserMemory | null;
+  // Exchanges that facts about the user haven't been extracted from yet
+  private unlearnedMessages: ChatMessage[] = [];
   private conversationHistory: ChatMessage[] = [];
+  private contextWindow: ContextWindow;
+  private maxPromptTokens?: number;
+  // Running summary of the turns that were compacted out of the history
+  private summary: string | null = null;
+  private compaction: Promise<void> | null = null;
+  // Settles when the previous turn has finished, so turns never interleave in the history
+  private previousTurn: Promise<void> = Promise.resolve();
   private systemPrompt: string = 'You are a helpful, friendly AI assistant. Answer user questions concisely and accurately.';
 
-  constructor(systemPrompt?: string) {
-    this.dashscopeClient = new DashscopeClient();
+  constructor(systemPrompt?: string, options: QwenServiceOptions = {}) {
+    this.provider = options.provider || new DashscopeClient();
+    this.llmOptions = options.llmOptions || {};
+    this.tools = options.tools || null;
+    this.knowledge = options.knowledge || null;
+    this.memory = options.memory || null;
+    this.maxPromptTokens = options.maxPromptTokens;
+    // Until the server says which model it uses (see setServerModel), budget for an unknown one
+    this.contextWindow = this.createContextWindow({ model: this.llmOptions.model || '' });
     
     // Set custom system prompt if provided
     if (systemPrompt) {
@@ -18,48 +85,368 @@ export class QwenService {
     this.resetConversation();
   }
 
+  /**
+   * Budget prompts for the model the server uses, unless the character asks for a model of its own
+   */
+  public setServerModel(info: ModelInfo): void {
+    if (this.llmOptions.model) return;
+    this.contextWindow = this.createContextWindow(info);
+  }
+
+  private createContextWindow(info: ModelInfo): ContextWindow {
+    return new ContextWindow({
+      model: info.model,
+      contextWindow: info.contextWindow,
+      maxPromptTokens: this.maxPromptTokens,
+      reservedForReply: this.llmOptions.maxTokens
+    });
+  }
+
   /**
    * Reset conversation history to just the system prompt
    */
   public resetConversation(): void {
+    this.learnFromRecentMessages();
+    this.summary = null;
+    this.compaction = null;
     this.conversationHistory = [
       { role: 'system', content: this.systemPrompt }
     ];
   }
 
   /**
-   * Get customized response from Qwen model for different characters
+   * Replace the conversation with previously saved turns, keeping the current system prompt
+   */
+  public loadConversation(messages: ChatMessage[], summary: string | null = null): void {
+    this.learnFromRecentMessages();
+    this.compaction = null;
+    this.summary = summary;
+    this.conversationHistory = [
+      { role: 'system', content: this.systemPrompt },
+      ...messages.filter(message => message.role !== 'system')
+    ];
+  }
+
+  /**
+   * Get customized response from Qwen model for different characters.
+   * Throws an LLMError if the request fails or `signal` is aborted; the failed turn is not kept in the history.
+   */
+  public async getResponse(userMessage: string, signal?: AbortSignal): Promise<string> {
+    const { content } = await this.runTurn(userMessage, { signal }, (messages, options) =>
+      this.provider.generateResponse(messages, options)
+    );
+    return content;
+  }
+
+  /**
+   * Get a streamed response from Qwen, passing each token to `onToken` as it arrives.
+   * Throws an LLMError if the request fails or `signal` is aborted; the failed turn is not kept in the history.
    */
-  public async getResponse(userMessage: string): Promise<string> {
+  public async getStreamingResponse(
+    userMessage: string,
+    onToken: (token: string) => void,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const { content } = await this.runTurn(userMessage, { signal }, (messages, options) =>
+      this.provider.streamResponse(messages, onToken, options)
+    );
+    return content;
+  }
+
+  /**
+   * Get a reply annotated with the emotion, intensity and gestures the avatar should use,
+   * and the knowledge passages it was based on. Only the spoken text is kept in the history.
+   */
+  public async getReply(userMessage: string, signal?: AbortSignal): Promise<AgentReply> {
+    const turn = await this.runTurn(
+      userMessage,
+      { signal, instructions: REPLY_FORMAT_PROMPT, toHistoryText: getSpokenText },
+      (messages, options) => this.provider.generateResponse(messages, options)
+    );
+    return toAgentReply(turn);
+  }
+
+  /**
+   * Get an annotated reply, passing the spoken text to `onText` as it streams in.
+   * The JSON around the text is never passed on, so it can go straight to the chat panel and speech.
+   * `onEmotion` is called with the reply's emotion as soon as it is known, just before its first text.
+   */
+  public async getStreamingReply(
+    userMessage: string,
+    onText: (text: string) => void,
+    signal?: AbortSignal,
+    onEmotion?: (emotion: EmotionType, intensity: number) => void
+  ): Promise<AgentReply> {
+    const turn = await this.runTurn(
+      userMessage,
+      { signal, instructions: REPLY_FORMAT_PROMPT, toHistoryText: getSpokenText },
+      (messages, options) => {
+        // Each completion (including those after tool calls) is a separate JSON object
+        const parser = new StreamingReplyParser();
+        let emotionReported = false;
+        return this.provider.streamResponse(messages, (token) => {
+          const text = parser.push(token);
+          if (onEmotion && !emotionReported) {
+            const declared = readStreamedEmotion(parser);
+            if (declared) {
+              emotionReported = true;
+              onEmotion(declared.emotion, declared.intensity);
+            }
+          }
+          if (text) onText(text);
+        }, options);
+      }
+    );
+    return toAgentReply(turn);
+  }
+
+  /**
+   * Queue a turn behind the previous one, so a cancelled turn is rolled back before the next one starts
+   */
+  private runTurn(
+    userMessage: string,
+    options: TurnOptions,
+    complete: (messages: ChatMessage[], options: LLMOptions) => Promise<LLMCompletion>
+  ): Promise<TurnResult> {
+    const turn = this.previousTurn.then(() => this.executeTurn(userMessage, options, complete));
+    this.previousTurn = turn.then(() => undefined, () => undefined);
+    return turn;
+  }
+
+  /**
+   * Look up knowledge and memories for the message, add it to the history, complete the turn and record the reply.
+   * On failure or cancellation the history is rolled back to where it was before the turn.
+   */
+  private async executeTurn(
+    userMessage: string,
+    options: TurnOptions,
+    complete: (messages: ChatMessage[], options: LLMOptions) => Promise<LLMCompletion>
+  ): Promise<TurnResult> {
+    const { signal, toHistoryText = (content: string) => content } = options;
+    
+    await this.waitForCompaction();
+    const [passages, facts] = await Promise.all([
+      this.retrieveKnowledge(userMessage, signal),
+      this.recallFacts(userMessage)
+    ]);
+    throwIfAborted(signal);
+    
+    // Memories, knowledge and format instructions are sent with every request of the turn but never stored
+    const instructions: string[] = [];
+    if (facts.length > 0) instructions.push(formatMemoryPrompt(facts));
+    if (passages.length > 0) instructions.push(formatKnowledgePrompt(passages));
+    if (options.instructions) instructions.push(options.instructions);
+    
+    const history = this.conversationHistory;
+    const turnStart = history.length;
+    
+    // Add user message to conversation
+    history.push({
+      role: 'user',
+      content: userMessage
+    });
+    
     try {
-      // Add user message to conversation
-      this.conversationHistory.push({
-        role: 'user',
-        content: userMessage
-      });
+      // Send the conversation, trimmed to the token budget, to the LLM provider
+      const content = await this.completeWithTools(history, (llmOptions) =>
+        complete(this.buildRequestMessages(instructions), { ...llmOptions, signal })
+      );
+      // The request may have finished just as it was cancelled
+      throwIfAborted(signal);
+      if (this.conversationHistory !== history) {
+        throw new LLMError('aborted', 'The conversation was reset during the request');
+      }
+      const historyText = toHistoryText(content);
+      if (!historyText.trim()) {
+        throw new LLMError('server', 'The model returned an empty response');
+      }
       
-      // Send the full conversation history to Dashscope
-      const response = await this.dashscopeClient.generateResponse(this.conversationHistory);
+      this.recordAssistantResponse(historyText);
+      this.rememberExchange(userMessage, historyText);
+      return { content, passages };
+    } catch (caught) {
+      const error = toLLMError(caught);
+      if (error.kind !== 'aborted') {
+        console.error('Error getting response from Qwen:', error);
+      }
+      // Drop the user message and any tool calls so a retry starts from a consistent history
+      history.splice(turnStart);
+      throw error;
+    }
+  }
+
+  /**
+   * Find knowledge passages for the message; a failed lookup doesn't stop the reply
+   */
+  private async retrieveKnowledge(query: string, signal?: AbortSignal): Promise<KnowledgePassage[]> {
+    if (!this.knowledge) return [];
+    
+    try {
+      return await this.knowledge.search(query, { signal });
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error('Knowledge lookup failed, answering without it:', error);
+      }
+      return [];
+    }
+  }
+
+  /**
+   * Find what the character remembers about the user that matters for the message
+   */
+  private async recallFacts(query: string): Promise<UserFact[]> {
+    if (!this.memory) return [];
+    
+    try {
+      return await this.memory.recall(query);
+    } catch (error) {
+      console.error('Failed to recall user memory, answering without it:', error);
+      return [];
+    }
+  }
+  
+  /**
+   * Collect a finished exchange and learn from the collected ones every few exchanges
+   */
+  private rememberExchange(userMessage: string, reply: string): void {
+    if (!this.memory) return;
+    
+    this.unlearnedMessages.push(
+      { role: 'user', content: userMessage },
+      { role: 'assistant', content: reply }
+    );
+    if (this.unlearnedMessages.length >= MEMORY_EXCHANGE_INTERVAL * 2) {
+      this.learnFromRecentMessages();
+    }
+  }
+  
+  /**
+   * Extract facts about the user from the collected exchanges in the background
+   */
+  private learnFromRecentMessages(): void {
+    if (!this.memory || this.unlearnedMessages.length === 0) return;
+    
+    const messages = this.unlearnedMessages;
+    this.unlearnedMessages = [];
+    this.memory.learn(this.provider, messages, this.llmOptions).catch((error) => {
+      console.error('Failed to update user memory:', error);
+    });
+  }
+  
+  /**
+   * Request completions until the model stops calling tools.
+   * Each tool call and its result are added to the history so the model can use them.
+   */
+  private async completeWithTools(
+    history: ChatMessage[],
+    complete: (options: LLMOptions) => Promise<LLMCompletion>
+  ): Promise<string> {
+    if (!this.tools || this.tools.size === 0) {
+      return (await complete(this.llmOptions)).content;
+    }
+    
+    const toolOptions = { ...this.llmOptions, tools: this.tools.getDefinitions() };
+    
+    for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+      const completion = await complete(toolOptions);
+      if (!completion.toolCalls || completion.toolCalls.length === 0) {
+        return completion.content;
+      }
       
-      // Add assistant response to conversation history
-      this.conversationHistory.push({
+      history.push({
         role: 'assistant',
-        content: response
+        content: completion.content,
+        tool_calls: completion.toolCalls
       });
       
-      // Keep conversation history at a reasonable size
-      // Remove oldest messages (but keep system prompt)
-      if (this.conversationHistory.length > 10) {
-        this.conversationHistory = [
-          this.conversationHistory[0],
-          ...this.conversationHistory.slice(-9)
-        ];
+      for (const call of completion.toolCalls) {
+        const result = await this.tools.execute(call);
+        history.push({
+          role: 'tool',
+          tool_call_id: call.id,
+          name: call.function.name,
+          content: result
+        });
       }
+    }
+    
+    // Too many rounds: ask for an answer based on what the tools returned so far
+    return (await complete(this.llmOptions)).content;
+  }
+
+  /**
+   * Add the assistant response to the history and compact older turns if the prompt is getting large
+   */
+  private recordAssistantResponse(response: string): void {
+    this.conversationHistory.push({
+      role: 'assistant',
+      content: response
+    });
+    
+    // Summarize in the background so the reply isn't delayed; the next request waits for it
+    this.compaction = this.compactHistory();
+  }
+
+  /**
+   * Messages that always lead the prompt: the system prompt and the running summary
+   */
+  private getFixedMessages(): ChatMessage[] {
+    const fixed: ChatMessage[] = [this.conversationHistory[0]];
+    if (this.summary) {
+      fixed.push({
+        role: 'system',
+        content: `Summary of the earlier conversation:\n${this.summary}`
+      });
+    }
+    return fixed;
+  }
+
+  /**
+   * Build the prompt for the next request, dropping the oldest turns if they still don't fit.
+   * `instructions` are added as system messages after the system prompt and summary.
+   */
+  private buildRequestMessages(instructions: string[] = []): ChatMessage[] {
+    const fixed = this.getFixedMessages();
+    for (const content of instructions) {
+      fixed.push({ role: 'system', content });
+    }
+    const turns = this.contextWindow.splitTurns(this.conversationHistory.slice(1));
+    return this.contextWindow.fit(fixed, turns);
+  }
+
+  /**
+   * Fold the oldest turns into the running summary once the prompt nears the token budget
+   */
+  private async compactHistory(): Promise<void> {
+    const history = this.conversationHistory;
+    const turns = this.contextWindow.splitTurns(history.slice(1));
+    if (!this.contextWindow.needsCompaction(this.getFixedMessages(), turns)) return;
+    
+    const { compact, keep } = this.contextWindow.selectTurnsToCompact(this.getFixedMessages(), turns);
+    if (compact.length === 0) return;
+    
+    try {
+      const compacted = compact.reduce<ChatMessage[]>((messages, turn) => messages.concat(turn), []);
+      const summary = await summarizeMessages(this.provider, this.summary, compacted, this.llmOptions);
       
-      return response;
+      // Ignore the result if the conversation was reset while summarizing
+      if (this.conversationHistory !== history || !summary) return;
+      
+      this.summary = summary;
+      this.conversationHistory = [
+        history[0],
+        ...keep.reduce<ChatMessage[]>((messages, turn) => messages.concat(turn), [])
+      ];
     } catch (error) {
-      console.error('Error getting response from Qwen:', error);
-      return "I'm having trouble connecting to my brain right now. Please try again in a moment.";
+      // The turns stay in the history; buildRequestMessages will trim them if needed
+      console.error('Failed to summarize conversation history:', error);
+    }
+  }
+
+  private async waitForCompaction(): Promise<void> {
+    if (this.compaction) {
+      await this.compaction;
+      this.compaction = null;
     }
   }
   
@@ -77,4 +464,21 @@ export class QwenService {
   public getConversationHistory(): ChatMessage[] {
     return [...this.conversationHistory];
   }
-} 
\ No newline at end of file
+  
+  /**
+   * Get the running summary of turns that no longer fit in the context window
+   */
+  public getSummary(): string | null {
+    return this.summary;
+  }
+} 
+
+// Only the spoken part of an annotated reply goes into the history
+function getSpokenText(content: string): string {
+  return parseAgentReply(content).text;
+}
+
+function toAgentReply({ content, passages }: TurnResult): AgentReply {
+  const reply = parseAgentReply(content);
+  return { ...reply, sources: resolveSources(passages, reply.citations) };
+}
@@ -1,19 +1,75 @@
 /// <reference path="./global.d.ts" />
+import { VisemeTrack } from './lipsync/VisemeTrack';
+import { TTSProvider, TTSRequest, TTSUtteranceEvents } from './tts/TTSProvider';
+import { WebSpeechTTSProvider } from './tts/WebSpeechTTSProvider';
+import { SpeechProgress, SpeechQueue } from './tts/SpeechQueue';
+import { TextNormalizer, createTextNormalizer } from './normalization/TextNormalizer';
+import { Lexicon, createLexiconStep } from './normalization/lexicon';
+import { AudioOutput } from './tts/AudioTTSProvider';
+import { DEFAULT_PROSODY, Prosody, applyEmotion, completeProsody } from './tts/prosody';
+import { RecordingRecognizer } from './stt/RecordingRecognizer';
+import { InputMode, matchWakeWord } from './agent/inputModes';
+import { EmotionType, TranscriptAlternative } from './types';
+import { MicrophoneLease, getMicrophone } from './audio/MicrophoneManager';
+
+// How many guesses recognition returns for each utterance, best first
+const MAX_ALTERNATIVES = 3;
+
+// After the wake word alone ("Hey Buzzy"), the next utterance within this time is taken as addressed to the agent
+const WAKE_WORD_WINDOW_MS = 8000;
 
 export class SpeechService {
   private recognition: SpeechRecognition | null = null;
+  // Server-side recognition, used when the browser has no SpeechRecognition
+  private recordingRecognizer: RecordingRecognizer | null = null;
+  // Listening asked for before the server-side recognizer was set
+  private pendingListener: ((text: string, alternatives: TranscriptAlternative[]) => void) | null = null;
   private synthesis: SpeechSynthesis;
   private audioContext: AudioContext | null = null;
   private analyser: AnalyserNode | null = null;
   private dataArray: Uint8Array | null = null;
   private isListening: boolean = false;
   private isSpeaking: boolean = false;
-  private onSpeechDetectedCallback: ((text: string) => void) | null = null;
+  private onSpeechDetectedCallback: ((text: string, alternatives: TranscriptAlternative[]) => void) | null = null;
+  private onInterimTranscriptCallback: ((text: string) => void) | null = null;
   private onAudioAnalysisCallback: ((intensity: number) => void) | null = null;
+  private onVisemeTrackCallback: ((track: VisemeTrack | null) => void) | null = null;
+  // Track of the utterance being spoken, for lip-sync
+  private currentVisemeTrack: VisemeTrack | null = null;
   private currentLanguage: string = 'en-US';
   private currentVoice: SpeechSynthesisVoice | null = null;
+  // Voice to pick whenever it can speak the current language, e.g. a character's default voice
+  private preferredVoiceName: string | null = null;
   private availableVoices: SpeechSynthesisVoice[] = [];
   private _skipFrame = false; // Used for reducing CPU load in audio analysis
+  // Turns replies as written (Markdown, numbers, units) into what the voice should say
+  private textNormalizer: TextNormalizer = createTextNormalizer();
+  // The reply being spoken, sentence by sentence
+  private speechQueue: SpeechQueue = new SpeechQueue(
+    (text, events) => this.speakText(text, events),
+    () => this.cancelSpeech(),
+    (text) => this.textNormalizer.normalize(text, this.currentLanguage)
+  );
+  private ttsProvider: TTSProvider = new WebSpeechTTSProvider();
+  // Ends a reply that can't be spoken once all of it has arrived, so the turn still finishes
+  private unspokenReplyEnd: (() => void) | null = null;
+  private prosody: Prosody = DEFAULT_PROSODY;
+  private onProsodyChangeCallback: ((prosody: Prosody) => void) | null = null;
+  // The emotion of the reply being spoken, which colours the character's prosody
+  private emotion: EmotionType = 'neutral';
+  private emotionIntensity: number = 1;
+  // Whether the audio analysis loop is running
+  private analysisLoopRunning = false;
+  // The microphone, connected to the analyser while listening
+  private micLease: MicrophoneLease | null = null;
+  private micSource: MediaStreamAudioSourceNode | null = null;
+  private acquiringMic = false;
+  private inputMode: InputMode = 'always-on';
+  // Names that address the agent in wake-word mode
+  private wakeWords: string[] = [];
+  // When the wake word was last said on its own
+  private wakeWordHeardAt: number | null = null;
+  private onWakeWordCallback: (() => void) | null = null;
 
   // Supported languages mapping
   private supportedLanguages = {
@@ -40,19 +96,18 @@ export class SpeechService {
     this.synthesis = window.speechSynthesis;
     
     // Check for browser support
-    if (!('SpeechRecognition' in window || 'webkitSpeechRecognition' in window)) {
-      console.error('Speech recognition not supported in this browser');
-      return;
+    if ('SpeechRecognition' in window || 'webkitSpeechRecognition' in window) {
+      // Initialize speech recognition
+      const SpeechRecognitionAPI = 
+        (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+      this.recognition = new SpeechRecognitionAPI();
     }
-    
-    // Initialize speech recognition
-    const SpeechRecognitionAPI = 
-      (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
-    this.recognition = new SpeechRecognitionAPI();
+    // Otherwise only the server's speech engine can listen, once it is known to exist (see setRecordingRecognizer)
     
     if (this.recognition) {
       this.recognition.continuous = true;
       this.recognition.interimResults = true;
+      this.recognition.maxAlternatives = MAX_ALTERNATIVES;
       this.recognition.lang = this.currentLanguage;
       
       // Set up speech recognition event handlers
@@ -102,8 +157,19 @@ export class SpeechService {
     
     console.log(`Selecting voice for language: ${languageCode}`);
     
+    // Prefer the configured voice if it speaks the language
+    const preferredName = this.preferredVoiceName;
+    let voice = preferredName
+      ? this.availableVoices.find(v =>
+        v.name === preferredName &&
+        v.lang.toLowerCase().startsWith(languageCode.split('-')[0].toLowerCase())
+      )
+      : undefined;
+    
     // First try: exact match for language code
-    let voice = this.availableVoices.find(v => v.lang.toLowerCase() === languageCode.toLowerCase());
+    if (!voice) {
+      voice = this.availableVoices.find(v => v.lang.toLowerCase() === languageCode.toLowerCase());
+    }
     
     // Second try: match language prefix (e.g., 'en' for 'en-US')
     if (!voice) {
@@ -165,14 +231,13 @@ export class SpeechService {
     if (this.recognition) {
       this.recognition.lang = languageCode;
     }
+    this.recordingRecognizer?.setLanguage(languageCode);
     
     // Select appropriate voice
     this.selectVoiceForLanguage(languageCode);
     
-    // Force speech synthesis to refresh voices
-    if (this.synthesis) {
-      this.synthesis.cancel();
-    }
+    // Stop anything still being spoken in the old language
+    this.stopSpeaking();
     
     console.log(`Language set to ${languageCode}`);
   }
@@ -207,6 +272,12 @@ export class SpeechService {
     return this.currentVoice;
   }
 
+  // Prefer a voice by name whenever it matches the current language
+  public setPreferredVoice(voiceName: string | null): void {
+    this.preferredVoiceName = voiceName;
+    this.selectVoiceForLanguage(this.currentLanguage);
+  }
+
   // Set specific voice by URI
   public setVoice(voiceURI: string): void {
     const voice = this.availableVoices.find(v => v.voiceURI === voiceURI);
@@ -234,22 +305,131 @@ export class SpeechService {
 
   private handleSpeechResult = (event: Event): void => {
     const recognitionEvent = event as SpeechRecognitionEvent;
-    const transcript = this.getLatestTranscript(recognitionEvent);
-    
-    // Only process meaningful transcripts
-    if (transcript && transcript.trim().length > 0) {
-      const isFinal = this.isFinalResult(recognitionEvent);
+    if (!recognitionEvent.results) return;
+    
+    // Results before resultIndex were delivered by earlier events. What follows is usually one
+    // phrase that has just become final and/or the hypothesis for the phrase still being spoken.
+    let interim = '';
+    for (let i = recognitionEvent.resultIndex; i < recognitionEvent.results.length; i++) {
+      const result = recognitionEvent.results[i];
+      if (!result || result.length === 0) continue;
       
-      if (isFinal && this.onSpeechDetectedCallback) {
-        console.log('Final transcript:', transcript);
-        this.onSpeechDetectedCallback(transcript);
+      if (result.isFinal) {
+        const alternatives = this.getAlternatives(result);
+        if (alternatives.length > 0) this.deliverTranscript(alternatives[0].text, true, alternatives);
+      } else {
+        interim += result[0].transcript;
       }
     }
+    
+    // Only process meaningful transcripts
+    if (interim.trim().length > 0) {
+      this.deliverTranscript(interim.trim(), false);
+    }
   };
+  
+  // The recognizer's guesses for a final result, best first; a confidence of 0 means it wasn't reported
+  private getAlternatives(result: SpeechRecognitionResult): TranscriptAlternative[] {
+    const alternatives: TranscriptAlternative[] = [];
+    for (let i = 0; i < result.length; i++) {
+      const text = result[i].transcript.trim();
+      if (!text || alternatives.some(alternative => alternative.text === text)) continue;
+      alternatives.push(result[i].confidence > 0 ? { text, confidence: result[i].confidence } : { text });
+    }
+    return alternatives;
+  }
+
+  // Hand a transcript to the listener, keeping only what is addressed to the agent in wake-word mode
+  private deliverTranscript(
+    transcript: string,
+    isFinal: boolean,
+    alternatives: TranscriptAlternative[] = [{ text: transcript }]
+  ): void {
+    let text: string | null = transcript;
+    if (this.inputMode === 'wake-word') {
+      text = this.addressedText(transcript, isFinal);
+      if (text === null) return;
+      // The other guesses probably heard the name too
+      alternatives = alternatives.map(alternative => ({
+        ...alternative,
+        text: matchWakeWord(alternative.text, this.wakeWords) || alternative.text
+      }));
+    }
+    
+    if (isFinal && this.onSpeechDetectedCallback) {
+      console.log('Final transcript:', text, alternatives);
+      this.onSpeechDetectedCallback(text, alternatives);
+    } else if (!isFinal && this.onInterimTranscriptCallback) {
+      this.onInterimTranscriptCallback(text);
+    }
+  }
+
+  // The part of a transcript meant for the agent, or null if it wasn't addressed
+  private addressedText(transcript: string, isFinal: boolean): string | null {
+    const rest = matchWakeWord(transcript, this.wakeWords);
+    if (rest !== null) {
+      if (this.onWakeWordCallback) this.onWakeWordCallback();
+      if (rest === '') {
+        // Only the name so far; the question may follow as the next utterance
+        if (isFinal) this.wakeWordHeardAt = Date.now();
+        return null;
+      }
+      if (isFinal) this.wakeWordHeardAt = null;
+      return rest;
+    }
+    
+    const expectingQuestion = this.wakeWordHeardAt !== null && Date.now() - this.wakeWordHeardAt < WAKE_WORD_WINDOW_MS;
+    if (!expectingQuestion) return null;
+    if (isFinal) this.wakeWordHeardAt = null;
+    return transcript;
+  }
+
+  /**
+   * Choose how the user addresses the agent. In wake-word mode, only utterances starting with one of
+   * `wakeWords` are delivered to startListening()'s callbacks, without the wake word.
+   */
+  public setInputMode(mode: InputMode, wakeWords: string[] = []): void {
+    this.inputMode = mode;
+    this.wakeWords = wakeWords;
+    this.wakeWordHeardAt = null;
+  }
+
+  public getInputMode(): InputMode {
+    return this.inputMode;
+  }
+
+  // Whether partial transcripts arrive while the user is talking; server-side recognition only has final ones
+  public hasInterimResults(): boolean {
+    return this.recognition !== null;
+  }
+
+  // Whether the browser's own recognition is used; it always hears the system default microphone,
+  // whichever one is picked for the rest of the page
+  public usesBrowserRecognition(): boolean {
+    return this.recognition !== null;
+  }
+
+  // Called whenever the wake word is heard, before the rest of the utterance is recognized
+  public onWakeWord(callback: () => void): void {
+    this.onWakeWordCallback = callback;
+  }
 
-  public startListening(onSpeechDetected: (text: string) => void): void {
+  /**
+   * Start speech recognition. `onSpeechDetected` receives each final transcript and the recognizer's
+   * alternatives for it, best first (the first is the transcript itself);
+   * `onInterimTranscript` receives the partial text while the user is still talking.
+   */
+  public startListening(
+    onSpeechDetected: (text: string, alternatives: TranscriptAlternative[]) => void,
+    onInterimTranscript?: (text: string) => void
+  ): void {
+    if (!this.recognition && this.recordingRecognizer) {
+      this.startRecordingRecognizer(onSpeechDetected);
+      return;
+    }
     if (!this.recognition) {
       console.error('Speech recognition not available');
+      this.pendingListener = onSpeechDetected;
       return;
     }
     
@@ -262,6 +442,7 @@ export class SpeechService {
     
     // Reset state
     this.onSpeechDetectedCallback = onSpeechDetected;
+    this.onInterimTranscriptCallback = onInterimTranscript || null;
     this.isListening = true;
     
     // Use a small delay to prevent browser from freezing during recognition start
@@ -278,22 +459,55 @@ export class SpeechService {
         console.error('Failed to start speech recognition:', error);
         // Try to recover
         this.isListening = false;
-        setTimeout(() => this.startListening(onSpeechDetected), 1000);
+        setTimeout(() => this.startListening(onSpeechDetected, onInterimTranscript), 1000);
       }
     }, 50);
   }
 
+  // Record utterances and transcribe them on the server; there are no interim results on this path
+  private startRecordingRecognizer(onSpeechDetected: (text: string, alternatives: TranscriptAlternative[]) => void): void {
+    this.onSpeechDetectedCallback = onSpeechDetected;
+    this.onInterimTranscriptCallback = null;
+    this.isListening = true;
+    
+    this.recordingRecognizer?.start(this.currentLanguage, (text) => this.deliverTranscript(text, true));
+    this.startAudioAnalysis();
+  }
+
+  /**
+   * Listen through the server's speech engine, for browsers without their own recognition.
+   * Listening that was asked for before this starts now.
+   */
+  public setRecordingRecognizer(recognizer: RecordingRecognizer): void {
+    if (this.recognition) return;
+    this.recordingRecognizer = recognizer;
+    recognizer.setLanguage(this.currentLanguage);
+    console.log('Using server-side speech recognition');
+    
+    const listener = this.pendingListener;
+    this.pendingListener = null;
+    if (listener) this.startRecordingRecognizer(listener);
+  }
+
   public stopListening(): void {
-    if (!this.recognition || !this.isListening) return;
+    this.pendingListener = null;
+    if (!this.isListening) return;
     
     this.isListening = false;
     
-    try {
-      // Use stop instead of abort to process any pending recognition
-      this.recognition.stop();
-      console.log('Speech recognition stopped');
-    } catch (error) {
-      console.error('Failed to stop speech recognition:', error);
+    if (this.recordingRecognizer) {
+      this.recordingRecognizer.stop();
+      console.log('Server-side speech recognition stopped');
+    }
+    
+    if (this.recognition) {
+      try {
+        // Use stop instead of abort to process any pending recognition
+        this.recognition.stop();
+        console.log('Speech recognition stopped');
+      } catch (error) {
+        console.error('Failed to stop speech recognition:', error);
+      }
     }
     
     // Stop audio analysis with a delay to ensure clean shutdown
@@ -302,100 +516,269 @@ export class SpeechService {
     }, 100);
   }
 
+  /**
+   * Speak text, stopping whatever was being spoken. It is spoken sentence by sentence and can be paused,
+   * skipped through and replayed like a streamed reply.
+   */
   public speak(text: string, onStart?: () => void, onEnd?: () => void): void {
-    if (!this.synthesis) {
+    this.startSpeechStream(onStart, onEnd);
+    this.appendToSpeechStream(text);
+    this.endSpeechStream();
+  }
+
+  /**
+   * Begin speaking a response that is still being generated.
+   * Text is added with appendToSpeechStream and each complete sentence is spoken as soon as it arrives.
+   * onEnd fires once endSpeechStream has been called and the last sentence has been spoken.
+   * Without speech synthesis nothing is spoken and onEnd fires as soon as endSpeechStream is called.
+   */
+  public startSpeechStream(onStart?: () => void, onEnd?: () => void): void {
+    this.unspokenReplyEnd = null;
+    if (!this.ttsProvider.isAvailable()) {
       console.error('Speech synthesis not available');
+      this.unspokenReplyEnd = onEnd || null;
       return;
     }
-    
-    // Cancel any ongoing speech
-    if (this.synthesis.speaking) {
-      this.synthesis.cancel();
-    }
-    
-    const utterance = new SpeechSynthesisUtterance(text);
-    utterance.rate = 1.0;
-    utterance.pitch = 1.0;
-    
-    // Set the language and voice if available
-    utterance.lang = this.currentLanguage;
-    if (this.currentVoice) {
-      utterance.voice = this.currentVoice;
+
+    this.setEmotion('neutral');
+    this.speechQueue.start({
+      onStart: () => {
+        console.log('Speech started');
+        this.isSpeaking = true;
+        if (onStart) onStart();
+      },
+      onEnd: () => {
+        console.log('Speech ended');
+        this.isSpeaking = false;
+        if (onEnd) onEnd();
+      }
+    });
+  }
+
+  // Add generated text to the current speech stream
+  public appendToSpeechStream(text: string): void {
+    this.speechQueue.append(text);
+  }
+
+  // Mark the speech stream as complete and speak whatever text is left over
+  public endSpeechStream(): void {
+    const unspokenReplyEnd = this.unspokenReplyEnd;
+    if (unspokenReplyEnd) {
+      this.unspokenReplyEnd = null;
+      unspokenReplyEnd();
+      return;
     }
-    
-    utterance.onstart = () => {
-      console.log('Speech started');
-      this.isSpeaking = true;
-      if (onStart) onStart();
-      
-      // Start audio analysis for animation during speech
-      this.startSpeechAnalysis(utterance);
+    this.speechQueue.end();
+  }
+
+  // Pause the reply; resumeSpeaking starts the interrupted sentence again
+  public pauseSpeaking(): void {
+    this.speechQueue.pause();
+  }
+
+  public resumeSpeaking(): void {
+    this.speechQueue.resume();
+  }
+
+  // Skip to the next sentence of the reply
+  public skipSentence(): void {
+    this.speechQueue.skip();
+  }
+
+  // Start the reply being spoken over from its first sentence
+  public replaySpeech(): void {
+    this.speechQueue.replay();
+  }
+
+  /**
+   * Say these words the way they are spelled here, e.g. a character's name the voices get wrong
+   */
+  public setLexicon(lexicon: Lexicon): void {
+    this.textNormalizer.setStep(createLexiconStep(lexicon));
+  }
+
+  // The pipeline spoken text goes through; steps can be added, replaced or removed
+  public getTextNormalizer(): TextNormalizer {
+    return this.textNormalizer;
+  }
+
+  /**
+   * Set the rate, pitch and volume the character speaks with; missing settings use the defaults
+   */
+  public setProsody(prosody: Partial<Prosody>): void {
+    this.prosody = completeProsody(prosody);
+    if (this.onProsodyChangeCallback) this.onProsodyChangeCallback(this.prosody);
+  }
+
+  public getProsody(): Prosody {
+    return this.prosody;
+  }
+
+  // Called when the prosody changes, e.g. from a voice command, so sliders can follow
+  public onProsodyChange(callback: ((prosody: Prosody) => void) | null): void {
+    this.onProsodyChangeCallback = callback;
+  }
+
+  /**
+   * Speak the current reply with this emotion, e.g. slower and lower when sad. It applies to sentences
+   * queued from now on and is reset to neutral when the next reply starts.
+   */
+  public setEmotion(emotion: EmotionType, intensity: number = 1): void {
+    this.emotion = emotion;
+    this.emotionIntensity = intensity;
+  }
+
+  public getSpeechProgress(): SpeechProgress {
+    return this.speechQueue.getProgress();
+  }
+
+  // Called when speech starts, pauses or ends, and at the start of each sentence
+  public onSpeechProgress(callback: ((progress: SpeechProgress) => void) | null): void {
+    this.speechQueue.onProgress(callback);
+  }
+
+  /**
+   * Queue text with the TTS provider in the current language and voice.
+   * Browser voices report word boundaries, which keep a viseme track aligned for lip-sync;
+   * audio played through the analyser drives the mouth with its amplitude instead.
+   */
+  private speakText(text: string, events: TTSUtteranceEvents): void {
+    const provider = this.ttsProvider;
+    const { rate, pitch, volume } = applyEmotion(this.prosody, this.emotion, this.emotionIntensity);
+    const request: TTSRequest = {
+      text,
+      language: this.currentLanguage,
+      rate,
+      pitch,
+      volume,
+      voiceURI: this.currentVoice ? this.currentVoice.voiceURI : undefined
     };
-    
-    utterance.onend = () => {
-      console.log('Speech ended');
-      this.isSpeaking = false;
-      if (onEnd) onEnd();
+    const track = provider.playsThroughAnalyser ? null : new VisemeTrack(text, request.language, request.rate);
+    const handleDone = () => {
+      if (track && this.currentVisemeTrack === track) this.setVisemeTrack(null);
     };
     
-    this.synthesis.speak(utterance);
+    provider.speak(request, {
+      onStart: () => {
+        if (events.onStart) events.onStart();
+        if (track) {
+          track.start(performance.now());
+          this.setVisemeTrack(track);
+        } else {
+          this.startAnalysisLoop();
+        }
+      },
+      onBoundary: (charIndex) => {
+        if (track) track.alignWord(charIndex, performance.now());
+      },
+      onEnd: () => {
+        handleDone();
+        if (events.onEnd) events.onEnd();
+      },
+      onError: (error) => {
+        console.error('Speech synthesis error:', error);
+        handleDone();
+        if (events.onError) events.onError(error);
+      }
+    });
+  }
+
+  private setVisemeTrack(track: VisemeTrack | null): void {
+    this.currentVisemeTrack = track;
+    if (this.onVisemeTrackCallback) this.onVisemeTrackCallback(track);
   }
 
   public stopSpeaking(): void {
-    if (this.synthesis && this.synthesis.speaking) {
-      this.synthesis.cancel();
+    // Drop the queued reply so its pending callbacks are ignored
+    this.unspokenReplyEnd = null;
+    this.speechQueue.stop();
+    this.cancelSpeech();
+    if (this.isSpeaking) {
       this.isSpeaking = false;
       console.log('Speech stopped');
     }
   }
 
+  // Silence the provider and the mouth; the speech queue decides what is spoken next
+  private cancelSpeech(): void {
+    if (this.currentVisemeTrack) this.setVisemeTrack(null);
+    this.ttsProvider.cancel();
+  }
+
+  /**
+   * Speak with a different TTS provider from now on, e.g. AudioTTSProvider when the server has a speech engine
+   */
+  public setTTSProvider(provider: TTSProvider): void {
+    this.stopSpeaking();
+    this.ttsProvider = provider;
+    console.log(`Using ${provider.name} speech synthesis`);
+  }
+
+  public getTTSProvider(): TTSProvider {
+    return this.ttsProvider;
+  }
+
+  /**
+   * The audio context and analyser that providers can play audio through, if Web Audio is available
+   */
+  public getAudioOutput(): AudioOutput | null {
+    return this.audioContext && this.analyser
+      ? { context: this.audioContext, analyser: this.analyser }
+      : null;
+  }
+
   private startAudioAnalysis(): void {
     if (!this.audioContext || !this.analyser) return;
-    
-    try {
-      // Create a media stream source from mic input
-      navigator.mediaDevices.getUserMedia({ audio: true, video: false })
-        .then(stream => {
-          const context = this.audioContext;
-          const analyser = this.analyser;
-          
-          if (context && analyser) {
-            // Create source from microphone stream
-            const source = context.createMediaStreamSource(stream);
-            // Connect to analyzer
-            source.connect(analyser);
-            
-            // Start analyzing audio
-            this.analyseAudio();
-            console.log('Audio analysis started');
-          }
-        })
-        .catch(err => {
-          console.error('Failed to get microphone access:', err);
-        });
-    } catch (error) {
-      console.error('Error starting audio analysis:', error);
+    // Already connected (or connecting) to the microphone
+    if (this.micLease || this.acquiringMic) {
+      this.startAnalysisLoop();
+      return;
     }
+    
+    this.acquiringMic = true;
+    getMicrophone().acquire()
+      .then(lease => {
+        this.acquiringMic = false;
+        // Listening stopped while waiting for the microphone
+        if (!this.isListening) {
+          lease.release();
+          return;
+        }
+        
+        this.micLease = lease;
+        this.connectMicrophone(lease.stream);
+        lease.onStreamChange(stream => this.connectMicrophone(stream));
+        
+        // Start analyzing audio
+        this.startAnalysisLoop();
+        console.log('Audio analysis started');
+      })
+      .catch(err => {
+        this.acquiringMic = false;
+        console.error('Failed to get microphone access:', err);
+      });
   }
 
-  private startSpeechAnalysis(utterance: SpeechSynthesisUtterance): void {
-    // For speech synthesis, we'll use a simulated analysis since
-    // we can't directly analyze the audio output from the synthesis
-    const analysisFn = () => {
-      if (this.synthesis.speaking && this.onAudioAnalysisCallback) {
-        // Simulate intensity based on a sine wave - reduced frequency of updates
-        const intensity = 0.3 + Math.sin(Date.now() * 0.005) * 0.3; // Changed from 0.01 to 0.005
-        this.onAudioAnalysisCallback(intensity);
-        // Use setTimeout instead of requestAnimationFrame to reduce frame rate
-        setTimeout(analysisFn, 50); // 20fps instead of 60fps
-      }
-    };
+  // Feed the microphone into the analyser, replacing any earlier stream
+  private connectMicrophone(stream: MediaStream): void {
+    if (!this.audioContext || !this.analyser) return;
     
-    analysisFn();
+    if (this.micSource) this.micSource.disconnect();
+    this.micSource = this.audioContext.createMediaStreamSource(stream);
+    this.micSource.connect(this.analyser);
+  }
+
+  private startAnalysisLoop(): void {
+    if (this.analysisLoopRunning) return;
+    this.analysisLoopRunning = true;
+    this.analyseAudio();
   }
 
   private analyseAudio = (): void => {
-    if (!this.analyser || !this.dataArray) return;
+    if (!this.analyser || !this.dataArray) {
+      this.analysisLoopRunning = false;
+      return;
+    }
     
     // Skip more frames to reduce CPU load - analyze every 3rd frame instead of every other
     if (this._skipFrame) {
@@ -423,34 +806,34 @@ export class SpeechService {
     // Continue the analysis loop only if we're listening or speaking
     if (this.isListening || this.isSpeaking) {
       setTimeout(() => this.analyseAudio(), 50); // Lower framerate for performance
+    } else {
+      this.analysisLoopRunning = false;
     }
   };
 
   private stopAudioAnalysis(): void {
-    // Nothing to do here, animation frame will stop looping
-    // when isListening is false
+    // Listening was restarted in the meantime
+    if (this.isListening) return;
+    
+    // The analysis loop stops by itself once nothing is listening or speaking
+    if (this.micSource) {
+      this.micSource.disconnect();
+      this.micSource = null;
+    }
+    if (this.micLease) {
+      this.micLease.release();
+      this.micLease = null;
+    }
   }
 
   public onAudioAnalysis(callback: (intensity: number) => void): void {
     this.onAudioAnalysisCallback = callback;
   }
 
-  // Helper to extract the latest transcript
-  private getLatestTranscript(event: SpeechRecognitionEvent): string {
-    if (!event.results || event.results.length === 0) return '';
-    
-    // Get the last result which is the most recent speech
-    const lastResult = event.results[event.results.length - 1];
-    if (!lastResult || lastResult.length === 0) return '';
-    
-    return lastResult[0].transcript;
-  }
-  
-  // Helper to check if a result is final
-  private isFinalResult(event: SpeechRecognitionEvent): boolean {
-    if (!event.results || event.results.length === 0) return false;
-    
-    const lastResult = event.results[event.results.length - 1];
-    return lastResult.isFinal;
+  /**
+   * Receive the viseme track of each utterance as it starts playing, and null when speech stops
+   */
+  public onVisemeTrack(callback: (track: VisemeTrack | null) => void): void {
+    this.onVisemeTrackCallback = callback;
   }
 } 
\ No newline at end of file
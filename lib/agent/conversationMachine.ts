@@ -0,0 +1,271 @@
+import { KnowledgePassage, TranscriptAlternative } from '../types';
+
+/**
+ * Where the agent is in a conversation turn:
+ * idle → listening → transcribing → thinking → speaking → listening ...
+ * Talking over the reply (barge-in) goes straight from thinking or speaking back to listening.
+ * Replaying an earlier reply goes straight to speaking, as a turn of its own.
+ * Announcements (e.g. a finished timer) are spoken the same way, but wait until the agent isn't busy or being spoken to.
+ * A transcript recognized with low confidence waits in `confirming` for the user to check or correct it.
+ * `error` and `interrupted` are resting states like `idle`, from which the user can start listening again.
+ */
+export type ConversationStatus =
+  | 'idle'
+  | 'listening'
+  | 'transcribing'
+  | 'confirming'
+  | 'thinking'
+  | 'speaking'
+  | 'error'
+  | 'interrupted';
+
+export interface ConversationState {
+  status: ConversationStatus;
+  // What the user said, or is still saying while transcribing
+  transcript: string;
+  // What recognition heard for the last utterance, best first, for the user to choose from while confirming
+  alternatives: TranscriptAlternative[];
+  // The last complete reply (or announcement)
+  response: string;
+  // The reply streamed so far, while it is being generated
+  typingText: string;
+  // Whether the reply for the current turn has finished generating
+  replied: boolean;
+  // Knowledge base passages behind the response
+  sources: KnowledgePassage[];
+  // An earlier reply or an announcement being spoken, instead of a new reply being generated
+  replayText: string | null;
+  // Announcements waiting for the current turn to finish, oldest first
+  announcements: string[];
+  // Message describing why the last turn failed
+  error: string | null;
+  // Counts turns; events carrying an older turn number belong to a cancelled turn and are ignored
+  turn: number;
+}
+
+export type ConversationEvent =
+  | { type: 'START_LISTENING' }
+  | { type: 'STOP_LISTENING' }
+  // Recognition restarted on its own after a reply or an error, keeping the last transcript
+  | { type: 'RESUME_LISTENING' }
+  | { type: 'INTERIM_TRANSCRIPT'; text: string }
+  | { type: 'FINAL_TRANSCRIPT'; text: string; alternatives?: TranscriptAlternative[] }
+  // The user sent the (possibly corrected) transcript while confirming
+  | { type: 'CONFIRM_TRANSCRIPT'; text: string }
+  // The user threw the transcript away while confirming, to say it again
+  | { type: 'CANCEL_TRANSCRIPT' }
+  | { type: 'REPLY_TOKEN'; turn: number; token: string }
+  | { type: 'REPLY_DONE'; turn: number; text: string; sources: KnowledgePassage[] }
+  | { type: 'REPLY_FAILED'; turn: number; error: string }
+  | { type: 'SPEECH_STARTED'; turn: number }
+  // `listen`: whether to listen for the user's answer (false in push-to-talk mode)
+  | { type: 'SPEECH_ENDED'; turn: number; listen: boolean }
+  | { type: 'INTERRUPT' }
+  // The user started talking over the reply: drop it and listen to them instead
+  | { type: 'BARGE_IN' }
+  // Speak an earlier reply again, stopping whatever is going on
+  | { type: 'REPLAY'; text: string }
+  | { type: 'RESET' }
+  // Show the last exchange of a resumed conversation
+  | { type: 'SHOW_EXCHANGE'; transcript: string; response: string }
+  // Say something outside a turn, like a timer announcement, once nothing else is going on
+  | { type: 'ANNOUNCE'; text: string };
+
+// Transcripts shorter than this are treated as recognition noise
+const MIN_TRANSCRIPT_LENGTH = 2;
+
+// Transcripts recognized with less confidence than this are shown for confirmation before they are sent
+export const CONFIRM_BELOW_CONFIDENCE = 0.6;
+
+export const initialConversationState: ConversationState = {
+  status: 'idle',
+  transcript: '',
+  alternatives: [],
+  response: '',
+  typingText: '',
+  replied: false,
+  sources: [],
+  replayText: null,
+  announcements: [],
+  error: null,
+  turn: 0
+};
+
+/**
+ * Apply an event to the conversation state. Events that don't apply in the current status are ignored.
+ * A waiting announcement is spoken as soon as the event leaves the agent free for it.
+ */
+export function conversationReducer(state: ConversationState, event: ConversationEvent): ConversationState {
+  const next = applyEvent(state, event);
+  if (next.announcements.length === 0 || !canAnnounce(next)) return next;
+  const [announcement, ...rest] = next.announcements;
+  return speakText({ ...next, announcements: rest }, announcement);
+}
+
+function applyEvent(state: ConversationState, event: ConversationEvent): ConversationState {
+  switch (event.type) {
+    case 'START_LISTENING':
+      if (!canStartListening(state)) return state;
+      return { ...state, status: 'listening', transcript: '', alternatives: [] };
+
+    case 'RESUME_LISTENING':
+      if (state.status !== 'error') return state;
+      return { ...state, status: 'listening' };
+
+    case 'STOP_LISTENING':
+      if (!isListening(state)) return state;
+      return { ...state, status: 'idle', transcript: state.status === 'transcribing' ? '' : state.transcript };
+
+    case 'INTERIM_TRANSCRIPT':
+      if (!isListening(state)) return state;
+      return { ...state, status: 'transcribing', transcript: event.text };
+
+    case 'FINAL_TRANSCRIPT': {
+      if (!isListening(state)) return state;
+      const text = event.text.trim();
+      if (text.length < MIN_TRANSCRIPT_LENGTH) {
+        // Likely a false positive; keep listening
+        return { ...state, status: 'listening', transcript: '' };
+      }
+      const alternatives = event.alternatives && event.alternatives.length > 0 ? event.alternatives : [{ text }];
+      if (needsConfirmation(alternatives)) {
+        return { ...state, status: 'confirming', transcript: text, alternatives };
+      }
+      return startTurn({ ...state, alternatives }, text);
+    }
+
+    case 'CONFIRM_TRANSCRIPT': {
+      if (state.status !== 'confirming') return state;
+      const text = event.text.trim();
+      if (text.length < MIN_TRANSCRIPT_LENGTH) {
+        return { ...state, status: 'listening', transcript: '', alternatives: [] };
+      }
+      return startTurn(state, text);
+    }
+
+    case 'CANCEL_TRANSCRIPT':
+      if (state.status !== 'confirming') return state;
+      return { ...state, status: 'listening', transcript: '', alternatives: [] };
+
+    case 'REPLY_TOKEN':
+      if (!isCurrentTurn(state, event.turn)) return state;
+      return { ...state, typingText: state.typingText + event.token };
+
+    case 'REPLY_DONE':
+      if (!isCurrentTurn(state, event.turn)) return state;
+      return { ...state, response: event.text, typingText: '', replied: true, sources: event.sources };
+
+    case 'REPLY_FAILED':
+      if (!isCurrentTurn(state, event.turn)) return state;
+      return { ...state, status: 'error', typingText: '', error: event.error };
+
+    case 'SPEECH_STARTED':
+      if (!isCurrentTurn(state, event.turn) || state.status !== 'thinking') return state;
+      return { ...state, status: 'speaking' };
+
+    case 'SPEECH_ENDED':
+      if (!isCurrentTurn(state, event.turn)) return state;
+      // The reply has been spoken; listen for the user's answer, or wait for them to start talking
+      return { ...state, status: event.listen ? 'listening' : 'idle' };
+
+    case 'INTERRUPT':
+      if (!isBusy(state)) return state;
+      return { ...state, status: 'interrupted', typingText: '', turn: state.turn + 1 };
+
+    case 'BARGE_IN':
+      if (!isBusy(state)) return state;
+      return { ...state, status: 'listening', transcript: '', alternatives: [], typingText: '', turn: state.turn + 1 };
+
+    case 'REPLAY': {
+      const text = event.text.trim();
+      // A transcript waiting for confirmation would be lost
+      if (!text || state.status === 'confirming') return state;
+      return speakText(state, text);
+    }
+
+    case 'ANNOUNCE': {
+      const text = event.text.trim();
+      if (!text) return state;
+      // Spoken by conversationReducer once the agent is free
+      return { ...state, announcements: [...state.announcements, text] };
+    }
+
+    case 'RESET':
+      // Announcements are still due in the new conversation
+      return { ...initialConversationState, announcements: state.announcements, turn: state.turn + 1 };
+
+    case 'SHOW_EXCHANGE':
+      return { ...state, transcript: event.transcript, alternatives: [], response: event.response, sources: [] };
+
+    default:
+      return state;
+  }
+}
+
+// Speak an earlier reply or an announcement, as a turn of its own
+function speakText(state: ConversationState, text: string): ConversationState {
+  return {
+    ...state,
+    status: 'speaking',
+    transcript: state.status === 'transcribing' ? '' : state.transcript,
+    response: text,
+    typingText: '',
+    replied: true,
+    sources: [],
+    replayText: text,
+    error: null,
+    turn: state.turn + 1
+  };
+}
+
+// Send the user's words and start answering them
+function startTurn(state: ConversationState, text: string): ConversationState {
+  return {
+    ...state,
+    status: 'thinking',
+    transcript: text,
+    typingText: '',
+    replied: false,
+    sources: [],
+    replayText: null,
+    error: null,
+    turn: state.turn + 1
+  };
+}
+
+// Whether recognition reported low confidence in its best guess; unknown confidence is trusted
+export function needsConfirmation(alternatives: TranscriptAlternative[]): boolean {
+  const confidence = alternatives.length > 0 ? alternatives[0].confidence : undefined;
+  return confidence !== undefined && confidence < CONFIRM_BELOW_CONFIDENCE;
+}
+
+function isCurrentTurn(state: ConversationState, turn: number): boolean {
+  return turn === state.turn && isBusy(state);
+}
+
+// Starting to listen while confirming discards the transcript
+export function canStartListening(state: ConversationState): boolean {
+  return state.status === 'idle' || state.status === 'error' || state.status === 'interrupted' ||
+    state.status === 'confirming';
+}
+
+// Announcements don't cut off a reply, or the user while they are talking or checking a transcript
+function canAnnounce(state: ConversationState): boolean {
+  return state.status === 'idle' || state.status === 'listening' || state.status === 'error' ||
+    state.status === 'interrupted';
+}
+
+// Whether speech recognition should be running
+export function isListening(state: ConversationState): boolean {
+  return state.status === 'listening' || state.status === 'transcribing';
+}
+
+// Whether a reply is being generated or spoken
+export function isBusy(state: ConversationState): boolean {
+  return state.status === 'thinking' || state.status === 'speaking';
+}
+
+// Whether the agent is waiting for the first token of its reply
+export function isWaitingForReply(state: ConversationState): boolean {
+  return state.status === 'thinking' && !state.replied && state.typingText === '';
+}
@@ -0,0 +1,78 @@
+import { loadPreference, savePreference } from '../storage/preferences';
+
+/**
+ * How the user starts talking to the agent:
+ * - `always-on`: the button starts listening, and the agent keeps listening after each reply until the user is quiet for a while
+ * - `push-to-talk`: the agent only listens while the spacebar or the talk button is held
+ * - `wake-word`: the agent keeps listening, but only answers utterances that start with its name, like "Hey Buzzy"
+ */
+export const INPUT_MODES = ['always-on', 'push-to-talk', 'wake-word'] as const;
+
+export type InputMode = typeof INPUT_MODES[number];
+
+export const INPUT_MODE_LABELS: Record<InputMode, string> = {
+  'always-on': 'Always on',
+  'push-to-talk': 'Push to talk',
+  'wake-word': 'Wake word'
+};
+
+const INPUT_MODE_KEY = 'inputMode';
+
+// Words people put before a name to get attention, in the supported languages
+const GREETINGS = [
+  'hey', 'hi', 'hello', 'ok', 'okay', 'yo',
+  'hallo', 'hola', 'oye', 'salut', 'ciao', 'ehi', 'hoi', 'hej', 'cześć', 'olá', 'ola', 'oi', 'halo', 'привет'
+];
+
+function isInputMode(value: unknown): value is InputMode {
+  return INPUT_MODES.indexOf(value as InputMode) >= 0;
+}
+
+export function loadInputMode(): InputMode {
+  return loadPreference(INPUT_MODE_KEY, isInputMode, 'always-on');
+}
+
+export function saveInputMode(mode: InputMode): void {
+  savePreference(INPUT_MODE_KEY, mode);
+}
+
+/**
+ * Names a character answers to: its full name and, for names like "Explorer Buzzy", the last word
+ */
+export function defaultWakeWords(name: string): string[] {
+  const words = name.trim().split(/\s+/);
+  return words.length > 1 ? [name.trim(), words[words.length - 1]] : [name.trim()];
+}
+
+// Lowercase a word and strip the punctuation recognizers put around it
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/^[\s.,!?;:"'¡¿()-]+|[\s.,!?;:"'¡¿()-]+$/g, '');
+}
+
+/**
+ * If `text` starts with one of the wake words (optionally after a greeting, like "Hey Buzzy, ..."),
+ * return what follows it; this may be empty when only the name was said. Otherwise return null.
+ */
+export function matchWakeWord(text: string, wakeWords: string[]): string | null {
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  const normalized = words.map(normalizeWord);
+
+  let start = 0;
+  while (start < normalized.length && GREETINGS.indexOf(normalized[start]) >= 0) {
+    start++;
+  }
+
+  // Try longer names first, so "Explorer Buzzy" wins over "Buzzy"
+  const candidates = wakeWords
+    .map(wakeWord => wakeWord.trim().split(/\s+/).map(normalizeWord).filter(Boolean))
+    .filter(parts => parts.length > 0)
+    .sort((a, b) => b.length - a.length);
+
+  for (const parts of candidates) {
+    const matches = parts.every((part, i) => normalized[start + i] === part);
+    if (matches) {
+      return words.slice(start + parts.length).join(' ').replace(/^[\s.,!?;:-]+/, '');
+    }
+  }
+  return null;
+}
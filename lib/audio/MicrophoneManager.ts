@@ -0,0 +1,219 @@
+import { loadPreference, savePreference } from '../storage/preferences';
+
+const DEVICE_KEY = 'microphoneDeviceId';
+
+/**
+ * A consumer's hold on the shared microphone stream. The stream stays open while any lease is held.
+ */
+export interface MicrophoneLease {
+  // The current stream; replaced when the user picks another microphone
+  readonly stream: MediaStream;
+  // Called with the new stream after the microphone changes, so the consumer can reconnect
+  onStreamChange(callback: (stream: MediaStream) => void): void;
+  // Give the stream back; safe to call more than once
+  release(): void;
+}
+
+class Lease implements MicrophoneLease {
+  // Set by the manager once the stream is open
+  public stream!: MediaStream;
+  public streamChangeCallback: ((stream: MediaStream) => void) | null = null;
+  private released = false;
+
+  constructor(private manager: MicrophoneManager) {}
+
+  public onStreamChange(callback: (stream: MediaStream) => void): void {
+    this.streamChangeCallback = callback;
+  }
+
+  public release(): void {
+    if (this.released) return;
+    this.released = true;
+    this.manager.release(this);
+  }
+}
+
+function isDeviceId(value: unknown): value is string | null {
+  return value === null || typeof value === 'string';
+}
+
+function stopTracks(stream: MediaStream): void {
+  stream.getTracks().forEach(track => track.stop());
+}
+
+/**
+ * Owns the one microphone stream the page uses. Consumers (the level meter, voice activity detection,
+ * server-side recognition) acquire a lease instead of calling getUserMedia themselves; the stream is opened
+ * for the first lease and its tracks are stopped when the last one is released, which turns off the
+ * browser's microphone indicator. The chosen input device is remembered between visits.
+ */
+export class MicrophoneManager {
+  private stream: MediaStream | null = null;
+  private opening: Promise<MediaStream> | null = null;
+  private leases: Lease[] = [];
+  private deviceId: string | null = loadPreference(DEVICE_KEY, isDeviceId, null);
+  private devicesChangeCallbacks: Array<() => void> = [];
+
+  constructor() {
+    if (typeof navigator !== 'undefined' && navigator.mediaDevices) {
+      navigator.mediaDevices.addEventListener('devicechange', this.notifyDevicesChange);
+    }
+  }
+
+  public static isSupported(): boolean {
+    return typeof navigator !== 'undefined' &&
+      Boolean(navigator.mediaDevices && navigator.mediaDevices.getUserMedia);
+  }
+
+  /**
+   * Get the shared stream, opening it if needed. Rejects if microphone access is denied.
+   */
+  public async acquire(): Promise<MicrophoneLease> {
+    // Count the lease while the stream opens, so another consumer releasing meanwhile doesn't close it
+    const lease = new Lease(this);
+    this.leases.push(lease);
+    try {
+      lease.stream = await this.open();
+    } catch (error) {
+      lease.release();
+      throw error;
+    }
+    return lease;
+  }
+
+  public release(lease: MicrophoneLease): void {
+    this.leases = this.leases.filter(held => held !== lease);
+    if (this.leases.length === 0 && this.stream) {
+      stopTracks(this.stream);
+      this.stream = null;
+      console.log('Microphone released');
+    }
+  }
+
+  // Number of consumers holding the microphone
+  public getLeaseCount(): number {
+    return this.leases.length;
+  }
+
+  // The chosen input device, or null for the system default
+  public getDeviceId(): string | null {
+    return this.deviceId;
+  }
+
+  /**
+   * Switch to another input device (null for the system default) and remember it.
+   * If the microphone is open, consumers are moved to the new stream.
+   */
+  public async setDeviceId(deviceId: string | null): Promise<void> {
+    if (deviceId === this.deviceId) return;
+    this.deviceId = deviceId;
+    savePreference(DEVICE_KEY, deviceId);
+
+    if (!this.stream) return;
+    const oldStream = this.stream;
+    try {
+      await this.reopen();
+    } catch (error) {
+      console.error('Failed to switch microphone:', error);
+    } finally {
+      stopTracks(oldStream);
+    }
+  }
+
+  /**
+   * Audio inputs the browser knows about. Labels are empty until the user has allowed microphone access.
+   */
+  public async listDevices(): Promise<MediaDeviceInfo[]> {
+    if (typeof navigator === 'undefined' || !navigator.mediaDevices || !navigator.mediaDevices.enumerateDevices) {
+      return [];
+    }
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices.filter(device => device.kind === 'audioinput');
+  }
+
+  /**
+   * Called when microphones are plugged in or out, or their names become available; returns an unsubscribe function
+   */
+  public onDevicesChange(callback: () => void): () => void {
+    this.devicesChangeCallbacks.push(callback);
+    return () => {
+      this.devicesChangeCallbacks = this.devicesChangeCallbacks.filter(registered => registered !== callback);
+    };
+  }
+
+  private notifyDevicesChange = (): void => {
+    this.devicesChangeCallbacks.forEach(callback => callback());
+  };
+
+  private open(): Promise<MediaStream> {
+    if (this.stream) return Promise.resolve(this.stream);
+    if (this.opening) return this.opening;
+
+    this.opening = this.getUserMedia()
+      .then((stream) => {
+        this.opening = null;
+        // Everyone let go while it was opening
+        if (this.leases.length === 0) {
+          stopTracks(stream);
+          return stream;
+        }
+        this.stream = stream;
+        // If the device goes away (unplugged), fall back to another one for the consumers still listening
+        stream.getAudioTracks().forEach(track => {
+          track.addEventListener('ended', () => this.handleTrackEnded(stream));
+        });
+        // Device names are only available once access has been granted
+        this.notifyDevicesChange();
+        return stream;
+      }, (error) => {
+        this.opening = null;
+        throw error;
+      });
+    return this.opening;
+  }
+
+  private async getUserMedia(): Promise<MediaStream> {
+    const audio: MediaTrackConstraints = { echoCancellation: true, noiseSuppression: true, autoGainControl: true };
+    if (this.deviceId) {
+      try {
+        return await navigator.mediaDevices.getUserMedia({ audio: { ...audio, deviceId: { exact: this.deviceId } } });
+      } catch (error) {
+        // The remembered device may be unplugged; keep it remembered and use the default for now
+        console.warn('Chosen microphone unavailable, using the default:', error);
+      }
+    }
+    return navigator.mediaDevices.getUserMedia({ audio });
+  }
+
+  private async handleTrackEnded(stream: MediaStream): Promise<void> {
+    if (stream !== this.stream || this.leases.length === 0) return;
+
+    try {
+      await this.reopen();
+    } catch (error) {
+      console.error('Lost the microphone:', error);
+    }
+  }
+
+  // Open a fresh stream and move every consumer to it
+  private async reopen(): Promise<void> {
+    this.stream = null;
+    const stream = await this.open();
+    this.leases.forEach(lease => {
+      lease.stream = stream;
+      if (lease.streamChangeCallback) lease.streamChangeCallback(stream);
+    });
+  }
+}
+
+let sharedMicrophone: MicrophoneManager | null = null;
+
+/**
+ * The page's microphone manager (browser only)
+ */
+export function getMicrophone(): MicrophoneManager {
+  if (!sharedMicrophone) {
+    sharedMicrophone = new MicrophoneManager();
+  }
+  return sharedMicrophone;
+}
@@ -0,0 +1,244 @@
+// What the voice command grammar understands, by language.
+// Patterns are matched against the whole utterance, ignoring case, accents and punctuation:
+// `{slot}` captures a value (see SLOT_VALUES), `[a|b]` is optional and `(a|b)` is a choice.
+
+export type CommandName =
+  | 'stop'
+  | 'repeat'
+  | 'reset-conversation'
+  | 'set-language'
+  | 'speak-slower'
+  | 'speak-faster'
+  | 'reset-camera'
+  | 'start-rotating'
+  | 'stop-rotating';
+
+export interface CommandGrammar {
+  // Words that may come before or after any command, like "please"
+  polite: string[];
+  patterns: Partial<Record<CommandName, string[]>>;
+  // What the agent says once a command is carried out; {language} is the name of the language switched to.
+  // Repeating needs no confirmation, since the reply itself is heard again.
+  confirmations: Partial<Record<CommandName, string>>;
+}
+
+// Keyed by the first part of the speech language, e.g. 'es' for 'es-ES'; English is also tried in every language
+export const COMMAND_GRAMMARS: Record<string, CommandGrammar> = {
+  en: {
+    polite: ['please', 'can you', 'could you', 'okay', 'ok'],
+    patterns: {
+      'stop': ['stop', 'stop (talking|it)', 'be quiet', 'quiet', 'shut up', 'silence', '[that is|thats] enough'],
+      'repeat': ['repeat [that]', 'say (that|it) again', 'come again', 'what did you say'],
+      'reset-conversation': [
+        '(reset|clear|forget) [the|this] conversation',
+        'start over',
+        'start [a] new conversation',
+        'new conversation'
+      ],
+      'set-language': [
+        'switch to {language}',
+        '(switch|change) [the] language to {language}',
+        '[lets] (speak|talk|answer|reply) [in] {language}'
+      ],
+      'speak-slower': ['(speak|talk) (slower|more slowly)', 'slow down', 'slower'],
+      'speak-faster': ['(speak|talk) faster', 'speed up', 'faster'],
+      'reset-camera': ['(reset|center) [the] (camera|view)'],
+      'start-rotating': ['(rotate|spin|turn around)', 'start (rotating|spinning|turning)', 'rotate [the] camera'],
+      'stop-rotating': ['stop (rotating|spinning|turning)', '(hold|stand|keep) still']
+    },
+    confirmations: {
+      'stop': 'Okay.',
+      'reset-conversation': 'Okay, let\'s start over.',
+      'set-language': 'Okay, I\'ll speak {language}.',
+      'speak-slower': 'Okay, I\'ll speak more slowly.',
+      'speak-faster': 'Okay, I\'ll speak faster.',
+      'reset-camera': 'Okay, back to the start.',
+      'start-rotating': 'Okay, I\'ll turn around.',
+      'stop-rotating': 'Okay, I\'ll hold still.'
+    }
+  },
+  es: {
+    polite: ['por favor', 'puedes', 'podrías'],
+    patterns: {
+      'stop': ['para', 'detente', '[ya] basta', 'silencio', 'cállate', 'deja de hablar'],
+      'repeat': ['repite [eso]', 'repítelo', '(dilo|repítelo) otra vez', 'qué dijiste'],
+      'reset-conversation': [
+        '(reinicia|borra) la conversación',
+        '(empieza|empecemos) de nuevo',
+        '(nueva|otra) conversación'
+      ],
+      'set-language': [
+        'cambia [el idioma] (a|al) {language}',
+        '(habla|hablemos|responde) [en] {language}'
+      ],
+      'speak-slower': ['[habla] más (despacio|lento)'],
+      'speak-faster': ['[habla] más rápido'],
+      'reset-camera': ['(restablece|reinicia|centra) la (cámara|vista)'],
+      'start-rotating': ['gira', 'date la vuelta', 'empieza a girar'],
+      'stop-rotating': ['(deja|para) de girar', 'quédate quieto']
+    },
+    confirmations: {
+      'stop': 'Vale.',
+      'reset-conversation': 'Vale, empecemos de nuevo.',
+      'set-language': 'Vale, hablaré {language}.',
+      'speak-slower': 'Vale, hablaré más despacio.',
+      'speak-faster': 'Vale, hablaré más rápido.',
+      'reset-camera': 'Vale, vuelvo a la vista inicial.',
+      'start-rotating': 'Vale, me doy la vuelta.',
+      'stop-rotating': 'Vale, me quedo quieto.'
+    }
+  },
+  de: {
+    polite: ['bitte', 'kannst du', 'könntest du'],
+    patterns: {
+      'stop': ['(stopp|stop|halt)', 'hör auf', 'sei still', 'ruhe', 'genug', 'das reicht'],
+      'repeat': ['wiederhole das', 'sag das noch (einmal|mal)', 'noch (einmal|mal)', 'wie bitte'],
+      'reset-conversation': [
+        '(starte|beginne) (neu|von vorne)',
+        'fang von vorne an',
+        'neues gespräch',
+        '[setze] das gespräch zurück',
+        'gespräch zurücksetzen'
+      ],
+      'set-language': [
+        'wechsle (zu|auf) {language}',
+        '(sprich|antworte) [auf] {language}',
+        'lass uns {language} sprechen',
+        'stelle die sprache auf {language} um'
+      ],
+      'speak-slower': ['[sprich] [etwas] langsamer'],
+      'speak-faster': ['[sprich] [etwas] schneller'],
+      'reset-camera': ['(kamera|ansicht) zurücksetzen', 'setze die (kamera|ansicht) zurück'],
+      'start-rotating': ['dreh dich [um]', 'drehen'],
+      'stop-rotating': ['hör auf dich zu drehen', 'halt still', 'nicht mehr drehen']
+    },
+    confirmations: {
+      'stop': 'Okay.',
+      'reset-conversation': 'Okay, fangen wir von vorne an.',
+      'set-language': 'Okay, ich spreche jetzt {language}.',
+      'speak-slower': 'Okay, ich spreche langsamer.',
+      'speak-faster': 'Okay, ich spreche schneller.',
+      'reset-camera': 'Okay, zurück zur Ausgangsansicht.',
+      'start-rotating': 'Okay, ich drehe mich.',
+      'stop-rotating': 'Okay, ich halte still.'
+    }
+  },
+  fr: {
+    polite: ['s\'il te plaît', 's\'il vous plaît', 'peux-tu', 'pouvez-vous'],
+    patterns: {
+      'stop': ['arrête[-toi]', 'stop', 'tais-toi', 'silence', 'ça suffit', 'assez'],
+      'repeat': ['(répète|répéter) [ça]', 'redis-le', 'tu peux répéter'],
+      'reset-conversation': [
+        '(recommence|efface) la conversation',
+        '(recommençons|on recommence)',
+        'nouvelle conversation'
+      ],
+      'set-language': [
+        'passe (en|au|à l\'|à la) {language}',
+        '(parle|parlons|réponds) [en] {language}',
+        'change de langue pour [le|l\'] {language}'
+      ],
+      'speak-slower': ['[parle] (plus lentement|moins vite)', 'ralentis'],
+      'speak-faster': ['[parle] plus vite', 'accélère'],
+      'reset-camera': ['(réinitialise|recentre) la (caméra|vue)'],
+      'start-rotating': ['tourne[-toi]', 'fais un tour'],
+      'stop-rotating': ['arrête de tourner', 'ne bouge plus', 'reste immobile']
+    },
+    confirmations: {
+      'stop': 'D\'accord.',
+      'reset-conversation': 'D\'accord, on recommence.',
+      'set-language': 'D\'accord, je parle {language}.',
+      'speak-slower': 'D\'accord, je parle plus lentement.',
+      'speak-faster': 'D\'accord, je parle plus vite.',
+      'reset-camera': 'D\'accord, je reviens à la vue de départ.',
+      'start-rotating': 'D\'accord, je tourne.',
+      'stop-rotating': 'D\'accord, je ne bouge plus.'
+    }
+  },
+  zh: {
+    polite: ['请', '麻烦你', '吧'],
+    patterns: {
+      'stop': ['(停|停下|停止)', '别说了', '安静', '闭嘴', '够了'],
+      'repeat': ['(再说|重复)一遍', '重复', '你说什么'],
+      'reset-conversation': ['重新开始', '(开始)新[的]对话', '(重置|清除)对话'],
+      'set-language': ['(切换到|换成|改成){language}', '(说|用){language}[说|回答]'],
+      'speak-slower': ['[说得|说]慢[一]点'],
+      'speak-faster': ['[说得|说]快[一]点'],
+      'reset-camera': ['重置(镜头|视角|相机)'],
+      'start-rotating': ['转(一圈|个圈|起来)', '旋转'],
+      'stop-rotating': ['停止旋转', '(别|不要)转了']
+    },
+    confirmations: {
+      'stop': '好的。',
+      'reset-conversation': '好的，我们重新开始。',
+      'set-language': '好的，我会说{language}。',
+      'speak-slower': '好的，我会说慢一点。',
+      'speak-faster': '好的，我会说快一点。',
+      'reset-camera': '好的，回到初始视角。',
+      'start-rotating': '好的，我转一圈。',
+      'stop-rotating': '好的，我不转了。'
+    }
+  },
+  ja: {
+    polite: ['ください', 'お願いします'],
+    patterns: {
+      'stop': ['(止まって|止めて|やめて|ストップ)', '静かに', 'もういい'],
+      'repeat': ['(もう一度|もう一回)言って', '繰り返して'],
+      'reset-conversation': ['[最初から]やり直して', '新しい会話', '会話をリセットして'],
+      'set-language': ['{language}に(切り替えて|変えて|して)', '{language}で(話して|答えて)'],
+      'speak-slower': ['[もっと]ゆっくり[話して]'],
+      'speak-faster': ['[もっと]早く話して'],
+      'reset-camera': ['(カメラ|視点)をリセットして'],
+      'start-rotating': ['(回って|回転して)'],
+      'stop-rotating': ['回転を止めて', '回らないで']
+    },
+    confirmations: {
+      'stop': 'はい。',
+      'reset-conversation': 'はい、最初からやり直しましょう。',
+      'set-language': 'はい、{language}で話します。',
+      'speak-slower': 'はい、ゆっくり話します。',
+      'speak-faster': 'はい、早く話します。',
+      'reset-camera': 'はい、最初の視点に戻ります。',
+      'start-rotating': 'はい、回ります。',
+      'stop-rotating': 'はい、止まります。'
+    }
+  }
+};
+
+// Spoken values a slot accepts, by the value they stand for. Any language's name for a language works in every grammar.
+export const SLOT_VALUES: Record<string, Record<string, string[]>> = {
+  language: {
+    'en-US': ['english', 'inglés', 'englisch', 'anglais', 'inglese', 'inglês', '英语', '英文', '英語', '영어', 'английский'],
+    'es-ES': ['spanish', 'español', 'castellano', 'spanisch', 'espagnol', 'spagnolo', 'espanhol', '西班牙语', 'スペイン語', '스페인어', 'испанский'],
+    'de-DE': ['german', 'alemán', 'deutsch', 'allemand', 'tedesco', 'alemão', '德语', 'ドイツ語', '독일어', 'немецкий'],
+    'fr-FR': ['french', 'francés', 'französisch', 'français', 'francese', 'francês', '法语', 'フランス語', '프랑스어', 'французский'],
+    'it-IT': ['italian', 'italiano', 'italienisch', 'italien', '意大利语', 'イタリア語', '이탈리아어', 'итальянский'],
+    'ja-JP': ['japanese', 'japonés', 'japanisch', 'japonais', 'giapponese', 'japonês', '日语', '日文', '日本語', '일본어', 'японский'],
+    'zh-CN': ['chinese', 'mandarin', 'chino', 'mandarín', 'chinesisch', 'chinois', 'cinese', 'chinês', '中文', '汉语', '普通话', '中国語', '중국어', 'китайский'],
+    'ko-KR': ['korean', 'coreano', 'koreanisch', 'coréen', '韩语', '韓国語', '한국어', 'корейский'],
+    'pt-BR': ['portuguese', 'portugués', 'portugiesisch', 'portugais', 'portoghese', 'português', '葡萄牙语', 'ポルトガル語', '포르투갈어', 'португальский'],
+    'ru-RU': ['russian', 'ruso', 'russisch', 'russe', 'russo', '俄语', 'ロシア語', '러시아어', 'русский'],
+    'nl-NL': ['dutch', 'holandés', 'niederländisch', 'néerlandais', 'olandese', 'holandês', '荷兰语', 'オランダ語', 'nederlands'],
+    'pl-PL': ['polish', 'polaco', 'polnisch', 'polonais', 'polacco', 'polonês', '波兰语', 'ポーランド語', 'polski'],
+    'hi-IN': ['hindi', '印地语', 'ヒンディー語', 'हिन्दी', 'हिंदी'],
+    'id-ID': ['indonesian', 'indonesio', 'indonesisch', 'indonésien', 'indonesiano', '印尼语', 'インドネシア語', 'bahasa indonesia']
+  }
+};
+
+// Each language's own name for itself, used in confirmations
+export const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  es: 'español',
+  de: 'Deutsch',
+  fr: 'français',
+  it: 'italiano',
+  ja: '日本語',
+  zh: '中文',
+  ko: '한국어',
+  pt: 'português',
+  ru: 'русский',
+  nl: 'Nederlands',
+  pl: 'polski',
+  hi: 'हिन्दी',
+  id: 'Bahasa Indonesia'
+};
@@ -0,0 +1,156 @@
+import { COMMAND_GRAMMARS, CommandGrammar, CommandName, LANGUAGE_NAMES, SLOT_VALUES } from './grammars';
+
+/**
+ * Something the user asked for that is carried out locally instead of being sent to the model,
+ * like "stop" or "switch to Spanish"
+ */
+export interface VoiceCommand {
+  name: CommandName;
+  // Resolved slot values, e.g. { language: 'es-ES' }
+  slots: Record<string, string>;
+}
+
+interface CompiledPattern {
+  name: CommandName;
+  regex: RegExp;
+  // Slot names in the order of the regex's groups
+  slots: string[];
+}
+
+const FALLBACK_LANGUAGE = 'en';
+
+// Compiled on first use, by grammar language
+const compiledGrammars: Record<string, CompiledPattern[]> = {};
+let slotLookup: Record<string, Record<string, string>> | null = null;
+
+function baseLanguage(language: string): string {
+  return language.split('-')[0].toLowerCase();
+}
+
+/**
+ * Lower case without accents or punctuation, so "¡Habla más despacio!" matches "habla mas despacio"
+ */
+export function normalizeSpoken(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[.,!?;:¡¿"“”«»…\-–—。、，！？；：「」]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Alternatives separated by |, longest first so 'al' is tried before 'a'.
+// Spaces may be left out, as they are between Chinese or Japanese words.
+function alternatives(text: string): string {
+  return text
+    .split('|')
+    .map(choice => choice.trim())
+    .sort((a, b) => b.length - a.length)
+    .map(choice => choice.split(/\s+/).map(escapeRegExp).join('\\s*'))
+    .join('|');
+}
+
+function compilePattern(name: CommandName, pattern: string, polite: string[]): CompiledPattern {
+  const slots: string[] = [];
+  const source = normalizeSpoken(pattern).replace(
+    /\{(\w+)\}|\[([^\]]*)\]|\(([^)]*)\)|([^\s{[(]+)|\s+/g,
+    (match, slot: string, optional: string, choice: string, literal: string) => {
+      if (slot) {
+        slots.push(slot);
+        return '(.+?)';
+      }
+      if (optional !== undefined) return `(?:\\s*(?:${alternatives(optional)}))?`;
+      if (choice !== undefined) return `(?:${alternatives(choice)})`;
+      if (literal) return escapeRegExp(literal);
+      return '\\s*';
+    }
+  );
+  // "Please" and the like may come before or after the command
+  const courtesy = polite.length > 0 ? alternatives(polite.map(normalizeSpoken).join('|')) : '';
+  const regex = courtesy
+    ? new RegExp(`^(?:(?:${courtesy})\\s*)?${source}(?:\\s*(?:${courtesy}))?$`)
+    : new RegExp(`^${source}$`);
+  return { name, regex, slots };
+}
+
+function compileGrammar(language: string): CompiledPattern[] {
+  if (!compiledGrammars[language]) {
+    const grammar: CommandGrammar | undefined = COMMAND_GRAMMARS[language];
+    const compiled: CompiledPattern[] = [];
+    if (grammar) {
+      (Object.keys(grammar.patterns) as CommandName[]).forEach(name => {
+        (grammar.patterns[name] || []).forEach(pattern => compiled.push(compilePattern(name, pattern, grammar.polite)));
+      });
+    }
+    compiledGrammars[language] = compiled;
+  }
+  return compiledGrammars[language];
+}
+
+// The value a spoken slot stands for, e.g. 'Spanish' or 'español' for 'es-ES'
+function resolveSlot(slot: string, spoken: string): string | null {
+  if (!slotLookup) {
+    const lookup: Record<string, Record<string, string>> = {};
+    Object.keys(SLOT_VALUES).forEach(name => {
+      lookup[name] = {};
+      Object.keys(SLOT_VALUES[name]).forEach(value => {
+        SLOT_VALUES[name][value].forEach(word => {
+          lookup[name][normalizeSpoken(word)] = value;
+        });
+      });
+    });
+    slotLookup = lookup;
+  }
+  const values = slotLookup[slot];
+  return values ? values[spoken.trim()] || null : null;
+}
+
+function match(patterns: CompiledPattern[], text: string): VoiceCommand | null {
+  for (const pattern of patterns) {
+    const groups = pattern.regex.exec(text);
+    if (!groups) continue;
+
+    const slots: Record<string, string> = {};
+    const resolved = pattern.slots.every((slot, index) => {
+      const value = resolveSlot(slot, groups[index + 1]);
+      if (value) slots[slot] = value;
+      return value !== null;
+    });
+    // "Speak about dams" isn't a language; keep looking, and failing that leave it to the model
+    if (resolved) return { name: pattern.name, slots };
+  }
+  return null;
+}
+
+/**
+ * Find a command in a final transcript, in the grammar of the speech language and then in English.
+ * Only whole utterances count: "stop" is a command, "why did the dam stop the river" is not.
+ */
+export function recognizeCommand(transcript: string, language: string): VoiceCommand | null {
+  const text = normalizeSpoken(transcript);
+  if (!text) return null;
+
+  const base = baseLanguage(language);
+  const command = match(compileGrammar(base), text);
+  if (command || base === FALLBACK_LANGUAGE) return command;
+  return match(compileGrammar(FALLBACK_LANGUAGE), text);
+}
+
+/**
+ * What the agent says to confirm a command it has carried out, in `language` (the language it now speaks),
+ * or null when the command needs no confirmation
+ */
+export function getConfirmation(command: VoiceCommand, language: string): string | null {
+  const grammar = COMMAND_GRAMMARS[baseLanguage(language)] || COMMAND_GRAMMARS[FALLBACK_LANGUAGE];
+  const template = grammar.confirmations[command.name] || COMMAND_GRAMMARS[FALLBACK_LANGUAGE].confirmations[command.name];
+  if (!template) return null;
+
+  const switchedTo = command.slots.language ? LANGUAGE_NAMES[baseLanguage(command.slots.language)] : undefined;
+  return template.replace('{language}', switchedTo || command.slots.language || '');
+}
@@ -0,0 +1,119 @@
+import { ChatMessage } from '../types';
+import { MAX_REQUEST_MESSAGES } from '../llm/messages';
+import { getTokenEstimator, TokenEstimator } from './TokenEstimator';
+
+export interface ContextWindowOptions {
+  // Model name used to pick the token estimator
+  model: string;
+  // Context window in tokens, when it is known better than the estimator's guess from the model name
+  contextWindow?: number;
+  // Upper limit for the prompt (system prompt, summary and history). Defaults to what the model can take.
+  maxPromptTokens?: number;
+  // Tokens kept free for the reply
+  reservedForReply?: number;
+  // Most messages in one prompt, counting the system messages and tool results. Defaults to what /api/chat accepts.
+  maxMessages?: number;
+}
+
+// Compact once the prompt passes this share of the budget (or of the message limit)...
+const COMPACTION_THRESHOLD = 0.8;
+// ...down to this share, leaving room for the next few turns
+const COMPACTION_TARGET = 0.5;
+
+/**
+ * Splits the history into turns and decides which of them fit into the model's token budget
+ * and the number of messages a request may carry
+ */
+export class ContextWindow {
+  private estimator: TokenEstimator;
+  public readonly budget: number;
+  public readonly maxMessages: number;
+
+  constructor(options: ContextWindowOptions) {
+    this.estimator = getTokenEstimator(options.model);
+
+    const contextWindow = options.contextWindow ?? this.estimator.contextWindow;
+    const available = contextWindow - (options.reservedForReply ?? 800);
+    this.budget = Math.max(256, Math.min(available, options.maxPromptTokens ?? available));
+    this.maxMessages = options.maxMessages ?? MAX_REQUEST_MESSAGES;
+  }
+
+  public estimate(messages: ChatMessage[]): number {
+    return this.estimator.estimateMessages(messages);
+  }
+
+  /**
+   * Group messages into turns, each starting with a user message followed by
+   * the assistant reply and any tool calls and results in between
+   */
+  public splitTurns(messages: ChatMessage[]): ChatMessage[][] {
+    const turns: ChatMessage[][] = [];
+    messages.forEach(message => {
+      if (message.role === 'user' || turns.length === 0) {
+        turns.push([message]);
+      } else {
+        turns[turns.length - 1].push(message);
+      }
+    });
+    return turns;
+  }
+
+  /**
+   * Whether the prompt is large enough that older turns should be summarized
+   */
+  public needsCompaction(fixed: ChatMessage[], turns: ChatMessage[][]): boolean {
+    const messages = [...fixed, ...flatten(turns)];
+    return this.estimate(messages) > this.budget * COMPACTION_THRESHOLD ||
+      messages.length > this.maxMessages * COMPACTION_THRESHOLD;
+  }
+
+  /**
+   * Split the turns into the oldest ones to summarize and the recent ones to keep verbatim.
+   * The latest turn is always kept.
+   */
+  public selectTurnsToCompact(
+    fixed: ChatMessage[],
+    turns: ChatMessage[][]
+  ): { compact: ChatMessage[][]; keep: ChatMessage[][] } {
+    return this.splitAtBudget(
+      fixed,
+      turns,
+      this.budget * COMPACTION_TARGET,
+      Math.floor(this.maxMessages * COMPACTION_TARGET)
+    );
+  }
+
+  /**
+   * Keep as many recent turns as fit into the budget and the message limit, for when a summary isn't available
+   */
+  public fit(fixed: ChatMessage[], turns: ChatMessage[][]): ChatMessage[] {
+    const { keep } = this.splitAtBudget(fixed, turns, this.budget, this.maxMessages);
+    return [...fixed, ...flatten(keep)];
+  }
+
+  private splitAtBudget(
+    fixed: ChatMessage[],
+    turns: ChatMessage[][],
+    tokenLimit: number,
+    messageLimit: number
+  ): { compact: ChatMessage[][]; keep: ChatMessage[][] } {
+    let total = this.estimate(fixed);
+    let count = fixed.length;
+    let firstKept = turns.length;
+
+    // Walk backwards from the newest turn until the next one would overflow
+    for (let i = turns.length - 1; i >= 0; i--) {
+      const turnTokens = this.estimate(turns[i]);
+      if (i < turns.length - 1 && (total + turnTokens > tokenLimit || count + turns[i].length > messageLimit)) break;
+      total += turnTokens;
+      count += turns[i].length;
+      firstKept = i;
+    }
+
+    return { compact: turns.slice(0, firstKept), keep: turns.slice(firstKept) };
+  }
+}
+
+function flatten(turns: ChatMessage[][]): ChatMessage[] {
+  return turns.reduce<ChatMessage[]>((messages, turn) => messages.concat(turn), []);
+}
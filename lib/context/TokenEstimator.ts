@@ -0,0 +1,65 @@
+import { ChatMessage } from '../types';
+
+/**
+ * Approximate token counts for a model family.
+ * Exact tokenizers are too heavy to ship to the browser; these ratios are close enough for budgeting.
+ */
+export interface TokenEstimator {
+  // Context window of the model, in tokens
+  contextWindow: number;
+  estimateText(text: string): number;
+  estimateMessages(messages: ChatMessage[]): number;
+}
+
+interface TokenProfile {
+  contextWindow: number;
+  // Average characters per token for Latin-script text
+  charsPerToken: number;
+  // Tokens per CJK character
+  tokensPerCjkChar: number;
+}
+
+// Matched against the model name in order; the first pattern that matches wins
+const PROFILES: Array<{ pattern: RegExp; profile: TokenProfile }> = [
+  { pattern: /^qwen-max/i, profile: { contextWindow: 32768, charsPerToken: 4, tokensPerCjkChar: 0.7 } },
+  { pattern: /^qwen/i, profile: { contextWindow: 131072, charsPerToken: 4, tokensPerCjkChar: 0.7 } },
+  { pattern: /^(gpt-4o|gpt-4\.1|o\d)/i, profile: { contextWindow: 128000, charsPerToken: 4, tokensPerCjkChar: 0.8 } },
+  { pattern: /^gpt-3\.5/i, profile: { contextWindow: 16385, charsPerToken: 4, tokensPerCjkChar: 1 } },
+  { pattern: /llama|mistral|gemma|phi/i, profile: { contextWindow: 8192, charsPerToken: 3.5, tokensPerCjkChar: 1.5 } },
+  { pattern: /^mock$/i, profile: { contextWindow: 4096, charsPerToken: 4, tokensPerCjkChar: 1 } }
+];
+
+// Conservative fallback for unknown models
+const DEFAULT_PROFILE: TokenProfile = { contextWindow: 8192, charsPerToken: 3.5, tokensPerCjkChar: 1.5 };
+
+// Role markers and separators the chat templates add around every message
+const TOKENS_PER_MESSAGE = 4;
+
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]/g;
+
+/**
+ * Get the token estimator for a model name
+ */
+export function getTokenEstimator(model: string): TokenEstimator {
+  const match = PROFILES.find(({ pattern }) => pattern.test(model));
+  const profile = match ? match.profile : DEFAULT_PROFILE;
+
+  const estimateText = (text: string): number => {
+    if (!text) return 0;
+    const cjkCount = (text.match(CJK_PATTERN) || []).length;
+    const otherCount = text.length - cjkCount;
+    return Math.ceil(cjkCount * profile.tokensPerCjkChar + otherCount / profile.charsPerToken);
+  };
+
+  return {
+    contextWindow: profile.contextWindow,
+    estimateText,
+    estimateMessages: (messages: ChatMessage[]): number =>
+      messages.reduce((total, message) => {
+        const toolCallText = (message.tool_calls || [])
+          .map(call => call.function.name + call.function.arguments)
+          .join('');
+        return total + TOKENS_PER_MESSAGE + estimateText(message.content) + estimateText(toolCallText);
+      }, 0)
+  };
+}
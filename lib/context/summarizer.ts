@@ -0,0 +1,57 @@
+import { LLMOptions, LLMProvider } from '../llm/LLMProvider';
+import { ChatMessage } from '../types';
+
+const SUMMARY_PROMPT =
+  'You maintain a running summary of a conversation between a user and an AI character. ' +
+  'Update the current summary with the new messages. ' +
+  'Keep every durable fact: the user\'s name, preferences, decisions, numbers, and open questions. ' +
+  'Drop small talk. Write at most 150 words of plain prose in the language of the conversation.';
+
+function describeMessage(message: ChatMessage): string {
+  switch (message.role) {
+    case 'user':
+      return `User: ${message.content}`;
+    case 'tool':
+      return `Tool ${message.name || ''} returned: ${message.content}`;
+    case 'assistant':
+      if (message.tool_calls && message.tool_calls.length > 0) {
+        const calls = message.tool_calls.map(call => `${call.function.name}(${call.function.arguments})`).join(', ');
+        return `Assistant called tools: ${calls}`;
+      }
+      return `Assistant: ${message.content}`;
+    default:
+      return message.content;
+  }
+}
+
+/**
+ * Render messages as a plain transcript for the model to read
+ */
+export function formatTranscript(messages: ChatMessage[]): string {
+  return messages.map(describeMessage).join('\n');
+}
+
+/**
+ * Ask the model to fold older messages into the running conversation summary
+ */
+export async function summarizeMessages(
+  provider: LLMProvider,
+  previousSummary: string | null,
+  messages: ChatMessage[],
+  options: LLMOptions = {}
+): Promise<string> {
+  const transcript = formatTranscript(messages);
+
+  const completion = await provider.generateResponse(
+    [
+      { role: 'system', content: SUMMARY_PROMPT },
+      {
+        role: 'user',
+        content: `Current summary:\n${previousSummary || '(none)'}\n\nNew messages:\n${transcript}`
+      }
+    ],
+    { model: options.model, temperature: 0.2, maxTokens: 300 }
+  );
+
+  return completion.content.trim();
+}
@@ -0,0 +1,102 @@
+// Standard BM25 parameters: term frequency saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'do', 'does', 'for', 'from', 'has', 'have', 'how',
+  'i', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'so', 'that', 'the', 'their', 'them',
+  'there', 'this', 'to', 'was', 'we', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with',
+  'you', 'your'
+]);
+
+const CJK_CHAR = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]/;
+const WORD = /[a-z0-9\u00c0-\u024f\u0400-\u04ff]+|[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]/g;
+
+/**
+ * Split text into lowercase search terms.
+ * CJK characters are indexed one by one; a trailing plural "s" is dropped from longer words.
+ */
+export function tokenize(text: string): string[] {
+  const words = text.toLowerCase().match(WORD) || [];
+  const terms: string[] = [];
+
+  for (const word of words) {
+    if (STOP_WORDS.has(word)) continue;
+    if (!CJK_CHAR.test(word) && word.length > 3 && /[^s]s$/.test(word)) {
+      terms.push(word.slice(0, -1));
+    } else {
+      terms.push(word);
+    }
+  }
+  return terms;
+}
+
+export interface ScoredDocument<T> {
+  document: T;
+  score: number;
+}
+
+/**
+ * In-memory BM25 keyword index
+ */
+export class BM25Index<T> {
+  private documents: T[] = [];
+  private termFrequencies: Array<Map<string, number>> = [];
+  private lengths: number[] = [];
+  // Number of documents each term appears in
+  private documentFrequencies = new Map<string, number>();
+  private totalLength = 0;
+
+  public add(document: T, text: string): void {
+    const terms = tokenize(text);
+    const frequencies = new Map<string, number>();
+    for (const term of terms) {
+      frequencies.set(term, (frequencies.get(term) || 0) + 1);
+    }
+    frequencies.forEach((_, term) => {
+      this.documentFrequencies.set(term, (this.documentFrequencies.get(term) || 0) + 1);
+    });
+
+    this.documents.push(document);
+    this.termFrequencies.push(frequencies);
+    this.lengths.push(terms.length);
+    this.totalLength += terms.length;
+  }
+
+  public get size(): number {
+    return this.documents.length;
+  }
+
+  /**
+   * Documents matching at least one query term, best first
+   */
+  public search(query: string, limit: number): ScoredDocument<T>[] {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0 || this.documents.length === 0) return [];
+
+    const averageLength = this.totalLength / this.documents.length;
+    const results: ScoredDocument<T>[] = [];
+
+    this.documents.forEach((document, index) => {
+      const frequencies = this.termFrequencies[index];
+      const lengthRatio = this.lengths[index] / (averageLength || 1);
+      let score = 0;
+
+      for (const term of queryTerms) {
+        const frequency = frequencies.get(term);
+        if (!frequency) continue;
+        score += this.inverseDocumentFrequency(term) *
+          (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * lengthRatio));
+      }
+
+      if (score > 0) results.push({ document, score });
+    });
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  private inverseDocumentFrequency(term: string): number {
+    const count = this.documentFrequencies.get(term) || 0;
+    return Math.log(1 + (this.documents.length - count + 0.5) / (count + 0.5));
+  }
+}
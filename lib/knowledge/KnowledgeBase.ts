@@ -0,0 +1,140 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { KnowledgePassage } from '../types';
+import { BM25Index } from './BM25Index';
+import { ChunkOptions, KnowledgeChunk, chunkDocument } from './chunker';
+import { KnowledgeRetriever, KnowledgeSearchOptions } from './KnowledgeRetriever';
+import { OllamaEmbedder, cosineSimilarity } from './OllamaEmbedder';
+
+const DEFAULT_LIMIT = 3;
+// Candidates taken from each ranking before they are fused
+const CANDIDATES = 20;
+// Semantic matches below this similarity are ignored
+const MIN_SIMILARITY = 0.3;
+// Keyword matches scoring below this fraction of the best match are ignored
+const MIN_RELATIVE_SCORE = 0.3;
+// Reciprocal rank fusion constant; larger values flatten the difference between ranks
+const RRF_K = 60;
+
+const KNOWLEDGE_FILE = /\.(md|markdown|txt)$/i;
+
+export interface KnowledgeBaseOptions extends ChunkOptions {
+  // Adds semantic search next to BM25 when set
+  embedder?: OllamaEmbedder;
+}
+
+/**
+ * Searchable index of a character's knowledge files, built in memory on the server.
+ * Keyword search (BM25) always works offline; with an embedder the results are fused with
+ * semantic search through reciprocal rank fusion.
+ */
+export class KnowledgeBase implements KnowledgeRetriever {
+  private index = new BM25Index<KnowledgeChunk>();
+  private chunks: KnowledgeChunk[];
+  private embedder: OllamaEmbedder | null;
+  private vectors: number[][] | null = null;
+
+  constructor(chunks: KnowledgeChunk[], embedder: OllamaEmbedder | null = null) {
+    this.chunks = chunks;
+    this.embedder = embedder;
+    for (const chunk of chunks) {
+      this.index.add(chunk, `${chunk.title}\n${chunk.text}`);
+    }
+  }
+
+  /**
+   * Load and index every Markdown and text file under a directory
+   */
+  public static async fromDirectory(directory: string, options: KnowledgeBaseOptions = {}): Promise<KnowledgeBase> {
+    const files = await listKnowledgeFiles(directory);
+    const chunks: KnowledgeChunk[] = [];
+
+    for (const file of files) {
+      const content = await fs.readFile(path.join(directory, file), 'utf8');
+      chunks.push(...chunkDocument(file, content, options));
+    }
+
+    const knowledgeBase = new KnowledgeBase(chunks, options.embedder);
+    await knowledgeBase.buildEmbeddings();
+    console.log(`Indexed ${chunks.length} knowledge chunks from ${files.length} files in ${directory}`);
+    return knowledgeBase;
+  }
+
+  public get size(): number {
+    return this.chunks.length;
+  }
+
+  public async search(query: string, options: KnowledgeSearchOptions = {}): Promise<KnowledgePassage[]> {
+    const limit = options.limit || DEFAULT_LIMIT;
+    const matches = this.index.search(query, CANDIDATES);
+    // Drop chunks that only share a common word (like the character's name) with the query
+    const keywordResults = matches.filter(result => result.score >= matches[0].score * MIN_RELATIVE_SCORE);
+
+    const semanticResults = await this.semanticSearch(query);
+    if (!semanticResults) {
+      return keywordResults.slice(0, limit).map(({ document, score }) => toPassage(document, score));
+    }
+
+    // Reciprocal rank fusion: chunks ranked high by either method come first
+    const fused = new Map<KnowledgeChunk, number>();
+    [keywordResults, semanticResults].forEach((results) => {
+      results.forEach(({ document }, rank) => {
+        fused.set(document, (fused.get(document) || 0) + 1 / (RRF_K + rank + 1));
+      });
+    });
+
+    return Array.from(fused.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([chunk, score]) => toPassage(chunk, score));
+  }
+
+  private async buildEmbeddings(): Promise<void> {
+    if (!this.embedder || this.chunks.length === 0) return;
+
+    try {
+      this.vectors = await this.embedder.embed(this.chunks.map(chunk => `${chunk.title}\n${chunk.text}`));
+    } catch (error) {
+      // Keyword search still works without the embedding server
+      console.error('Failed to embed knowledge chunks, using keyword search only:', error);
+      this.vectors = null;
+    }
+  }
+
+  private async semanticSearch(query: string): Promise<Array<{ document: KnowledgeChunk; score: number }> | null> {
+    const vectors = this.vectors;
+    if (!this.embedder || !vectors) return null;
+
+    try {
+      const [queryVector] = await this.embedder.embed([query]);
+      return this.chunks
+        .map((document, index) => ({ document, score: cosineSimilarity(queryVector, vectors[index]) }))
+        .filter(result => result.score >= MIN_SIMILARITY)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, CANDIDATES);
+    } catch (error) {
+      console.error('Failed to embed knowledge query, using keyword search only:', error);
+      return null;
+    }
+  }
+}
+
+function toPassage(chunk: KnowledgeChunk, score: number): KnowledgePassage {
+  return { ...chunk, score };
+}
+
+// Knowledge files under the directory, as paths relative to it
+async function listKnowledgeFiles(directory: string, prefix: string = ''): Promise<string[]> {
+  const entries = await fs.readdir(path.join(directory, prefix), { withFileTypes: true });
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...await listKnowledgeFiles(directory, relative));
+    } else if (KNOWLEDGE_FILE.test(entry.name)) {
+      files.push(relative);
+    }
+  }
+  return files.sort();
+}
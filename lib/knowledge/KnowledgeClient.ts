@@ -0,0 +1,33 @@
+import { KnowledgePassage } from '../types';
+import { KnowledgeRetriever, KnowledgeSearchOptions } from './KnowledgeRetriever';
+
+/**
+ * Browser-side retriever that searches a character's knowledge base through the /api/knowledge route.
+ * The index and any embedding server stay on the server.
+ */
+export class KnowledgeClient implements KnowledgeRetriever {
+  private baseUrl = '/api/knowledge';
+  private persona: string;
+
+  constructor(persona: string) {
+    this.persona = persona;
+  }
+
+  public async search(query: string, options: KnowledgeSearchOptions = {}): Promise<KnowledgePassage[]> {
+    const response = await fetch(this.baseUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ persona: this.persona, query, limit: options.limit }),
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`Knowledge search failed (HTTP ${response.status})`);
+    }
+
+    const data = await response.json();
+    return Array.isArray(data.passages) ? data.passages : [];
+  }
+}
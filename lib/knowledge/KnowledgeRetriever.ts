@@ -0,0 +1,15 @@
+import { KnowledgePassage } from '../types';
+
+export interface KnowledgeSearchOptions {
+  // Maximum number of passages to return
+  limit?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Finds the passages of a character's knowledge base that are relevant to a message.
+ * The server searches the local index directly; the browser uses KnowledgeClient, which goes through /api/knowledge.
+ */
+export interface KnowledgeRetriever {
+  search(query: string, options?: KnowledgeSearchOptions): Promise<KnowledgePassage[]>;
+}
@@ -0,0 +1,52 @@
+import { OLLAMA_BASE_URL } from '../llm/OllamaProvider';
+
+// Texts sent per embeddings request
+const BATCH_SIZE = 32;
+
+/**
+ * Computes embeddings with a local Ollama server through its OpenAI-compatible endpoint,
+ * so semantic search works without sending the knowledge base anywhere.
+ */
+export class OllamaEmbedder {
+  private baseUrl: string;
+  private model: string;
+
+  constructor(config: { model: string; baseUrl?: string }) {
+    this.model = config.model;
+    this.baseUrl = config.baseUrl || OLLAMA_BASE_URL;
+  }
+
+  public async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+
+    for (let start = 0; start < texts.length; start += BATCH_SIZE) {
+      const response = await fetch(`${this.baseUrl}/embeddings`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model: this.model, input: texts.slice(start, start + BATCH_SIZE) })
+      });
+      if (!response.ok) {
+        throw new Error(`Ollama embeddings request failed (HTTP ${response.status}): ${await response.text()}`);
+      }
+
+      const data = await response.json();
+      for (const item of data.data) {
+        vectors.push(item.embedding);
+      }
+    }
+
+    return vectors;
+  }
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length && i < b.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
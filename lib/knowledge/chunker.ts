@@ -0,0 +1,103 @@
+// A piece of a knowledge file, small enough to put into the prompt
+export interface KnowledgeChunk {
+  id: string;
+  source: string;
+  title: string;
+  text: string;
+}
+
+export interface ChunkOptions {
+  // Upper bound for the length of a chunk, in characters
+  maxChars?: number;
+}
+
+const DEFAULT_MAX_CHARS = 800;
+
+const HEADING = /^#{1,6}\s+(.*)$/;
+
+/**
+ * Split a Markdown or plain text document into chunks.
+ * Chunks never cross a heading, and paragraphs are kept whole unless they are longer than `maxChars`.
+ */
+export function chunkDocument(source: string, content: string, options: ChunkOptions = {}): KnowledgeChunk[] {
+  const maxChars = options.maxChars || DEFAULT_MAX_CHARS;
+  const chunks: KnowledgeChunk[] = [];
+  const fallbackTitle = source.replace(/\.[^.]+$/, '');
+
+  let title = fallbackTitle;
+  let paragraphs: string[] = [];
+  let paragraph: string[] = [];
+
+  const endParagraph = () => {
+    const text = paragraph.join(' ').trim();
+    if (text) paragraphs.push(text);
+    paragraph = [];
+  };
+
+  const endSection = () => {
+    endParagraph();
+    for (const text of packParagraphs(paragraphs, maxChars)) {
+      chunks.push({ id: `${source}#${chunks.length + 1}`, source, title, text });
+    }
+    paragraphs = [];
+  };
+
+  for (const line of content.replace(/\r\n?/g, '\n').split('\n')) {
+    const heading = HEADING.exec(line.trim());
+    if (heading) {
+      endSection();
+      title = heading[1].trim() || fallbackTitle;
+    } else if (line.trim() === '') {
+      endParagraph();
+    } else {
+      paragraph.push(line.trim());
+    }
+  }
+  endSection();
+
+  return chunks;
+}
+
+// Join paragraphs into chunks of up to maxChars, splitting long paragraphs at sentence boundaries
+function packParagraphs(paragraphs: string[], maxChars: number): string[] {
+  const pieces = paragraphs.reduce<string[]>(
+    (all, text) => all.concat(text.length > maxChars ? splitLongText(text, maxChars) : [text]),
+    []
+  );
+
+  const packed: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    if (current && current.length + piece.length + 2 > maxChars) {
+      packed.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${piece}` : piece;
+  }
+  if (current) packed.push(current);
+
+  return packed;
+}
+
+function splitLongText(text: string, maxChars: number): string[] {
+  const sentences = text.match(/[^.!?。！？]+[.!?。！？]*\s*/g) || [text];
+  const parts: string[] = [];
+  let current = '';
+
+  for (const sentence of sentences) {
+    if (current && current.length + sentence.length > maxChars) {
+      parts.push(current.trim());
+      current = '';
+    }
+    // A single sentence longer than the limit is cut hard
+    let rest = sentence;
+    while (rest.length > maxChars) {
+      parts.push(rest.slice(0, maxChars).trim());
+      rest = rest.slice(maxChars);
+    }
+    current += rest;
+  }
+  if (current.trim()) parts.push(current.trim());
+
+  return parts;
+}
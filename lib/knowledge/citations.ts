@@ -0,0 +1,25 @@
+import { KnowledgePassage } from '../types';
+
+/**
+ * System message presenting the retrieved passages, numbered so the model can say which ones it used
+ */
+export function formatKnowledgePrompt(passages: KnowledgePassage[]): string {
+  const numbered = passages
+    .map((passage, index) => `[${index + 1}] ${passage.title} (${passage.source})\n${passage.text}`)
+    .join('\n\n');
+
+  return 'Here are passages from your knowledge base that may help with the next answer. ' +
+    'Prefer them over what you remember, and say so if they don\'t cover the question. ' +
+    'Never read the passage numbers or file names out loud.\n\n' + numbered;
+}
+
+/**
+ * The passages a reply cites by number, or all of them if the reply didn't say
+ */
+export function resolveSources(passages: KnowledgePassage[], citations?: number[]): KnowledgePassage[] {
+  if (!citations) return passages;
+  return citations
+    .filter((number, index) => citations.indexOf(number) === index)
+    .map(number => passages[number - 1])
+    .filter((passage): passage is KnowledgePassage => Boolean(passage));
+}
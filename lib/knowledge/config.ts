@@ -0,0 +1,27 @@
+import path from 'path';
+import { OllamaEmbedder } from './OllamaEmbedder';
+
+export interface KnowledgeConfig {
+  // Folder holding one sub-folder of Markdown/text files per character
+  directory: string;
+  // Ollama embedding model; semantic search is off when unset
+  embeddingModel?: string;
+  embeddingBaseUrl?: string;
+}
+
+/**
+ * Read the knowledge base configuration from environment variables (server-side only):
+ * KNOWLEDGE_DIR, KNOWLEDGE_EMBEDDING_MODEL and KNOWLEDGE_EMBEDDING_URL.
+ */
+export function loadKnowledgeConfig(env: Record<string, string | undefined> = process.env): KnowledgeConfig {
+  return {
+    directory: path.resolve(env.KNOWLEDGE_DIR || path.join(process.cwd(), 'knowledge')),
+    embeddingModel: env.KNOWLEDGE_EMBEDDING_MODEL || undefined,
+    embeddingBaseUrl: env.KNOWLEDGE_EMBEDDING_URL || undefined
+  };
+}
+
+export function createEmbedder(config: KnowledgeConfig): OllamaEmbedder | undefined {
+  if (!config.embeddingModel) return undefined;
+  return new OllamaEmbedder({ model: config.embeddingModel, baseUrl: config.embeddingBaseUrl });
+}
@@ -0,0 +1,115 @@
+import { textToVisemes } from './graphemeToViseme';
+import { blendShapes, isVowelViseme, MouthShape, Viseme, VISEME_SHAPES } from './visemes';
+
+// How long visemes last at speaking rate 1
+const VOWEL_MS = 110;
+const CONSONANT_MS = 65;
+// Silence between words, and after punctuation
+const WORD_GAP_MS = 40;
+const PAUSE_MS = 250;
+// Share of each viseme spent moving towards the next one
+const TRANSITION = 0.35;
+
+const PAUSE_CHARACTERS = /[.,!?;:…。、！？，：；]/;
+
+// A viseme scheduled on the track, in milliseconds from the start of the utterance
+export interface VisemeCue {
+  viseme: Viseme;
+  // Position in the utterance text of the letter the viseme was made from
+  index: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * The visemes of one spoken utterance, with estimated timing.
+ * Word boundary events from the speech synthesizer re-align the estimate while the utterance plays,
+ * so the mouth stays on the words even when the voice is faster or slower than expected.
+ * Times are passed in (e.g. performance.now()) so tracks can be built and sampled without a browser.
+ */
+export class VisemeTrack {
+  private cues: VisemeCue[];
+  private startedAt: number | null = null;
+
+  constructor(text: string, language: string, rate: number = 1) {
+    let time = 0;
+    this.cues = textToVisemes(text, language).map(({ viseme, index }) => {
+      let duration = CONSONANT_MS;
+      if (viseme === 'sil') {
+        duration = PAUSE_CHARACTERS.test(text[index]) ? PAUSE_MS : WORD_GAP_MS;
+      } else if (isVowelViseme(viseme)) {
+        duration = VOWEL_MS;
+      }
+
+      const cue = { viseme, index, start: time, end: time + duration / rate };
+      time = cue.end;
+      return cue;
+    });
+  }
+
+  public getCues(): VisemeCue[] {
+    return this.cues.slice();
+  }
+
+  // Estimated length of the utterance in milliseconds
+  public getDuration(): number {
+    return this.cues.length > 0 ? this.cues[this.cues.length - 1].end : 0;
+  }
+
+  /**
+   * Mark the moment the utterance started playing
+   */
+  public start(now: number): void {
+    this.startedAt = now;
+  }
+
+  /**
+   * Re-align the track to a word boundary: the word at `charIndex` starts `now`,
+   * and everything after it moves by the same amount
+   */
+  public alignWord(charIndex: number, now: number): void {
+    if (this.startedAt === null) return;
+
+    const first = this.cues.findIndex(cue => cue.index >= charIndex && cue.viseme !== 'sil');
+    if (first < 0) return;
+
+    const shift = (now - this.startedAt) - this.cues[first].start;
+    for (let i = first; i < this.cues.length; i++) {
+      this.cues[i].start += shift;
+      this.cues[i].end += shift;
+    }
+    // Whatever came before lasts until the word starts
+    if (first > 0) {
+      this.cues[first - 1].end = this.cues[first].start;
+    }
+  }
+
+  public isFinished(now: number): boolean {
+    return this.startedAt !== null && now - this.startedAt >= this.getDuration();
+  }
+
+  /**
+   * The mouth shape at `now`, moving smoothly from one viseme into the next
+   */
+  public sample(now: number): MouthShape {
+    if (this.startedAt === null) return VISEME_SHAPES.sil;
+
+    const elapsed = now - this.startedAt;
+    let current = -1;
+    // The latest cue that has started; after a re-alignment cues may overlap, and the later one wins
+    for (let i = 0; i < this.cues.length; i++) {
+      if (this.cues[i].start <= elapsed) current = i;
+    }
+    if (current < 0 || elapsed >= this.getDuration()) return VISEME_SHAPES.sil;
+
+    const cue = this.cues[current];
+    const next = this.cues[current + 1];
+    const nextStart = next ? next.start : cue.end;
+    const progress = (elapsed - cue.start) / Math.max(1, nextStart - cue.start);
+    const shape = VISEME_SHAPES[cue.viseme];
+
+    if (progress <= 1 - TRANSITION) return shape;
+    const nextShape = next ? VISEME_SHAPES[next.viseme] : VISEME_SHAPES.sil;
+    return blendShapes(shape, nextShape, (progress - (1 - TRANSITION)) / TRANSITION);
+  }
+}
@@ -0,0 +1,247 @@
+import { Viseme } from './visemes';
+
+// A viseme and the position in the text of the letter it was made from
+export interface VisemeMark {
+  viseme: Viseme;
+  index: number;
+}
+
+// Letters or letter groups and the visemes they are spoken with
+type GraphemeRules = Record<string, Viseme[]>;
+
+// Single letters shared by the languages written in Latin and Cyrillic script
+const BASE_RULES: GraphemeRules = {
+  a: ['aa'], b: ['PP'], c: ['kk'], d: ['DD'], e: ['E'], f: ['FF'], g: ['kk'], h: [], i: ['I'],
+  j: ['CH'], k: ['kk'], l: ['nn'], m: ['PP'], n: ['nn'], o: ['O'], p: ['PP'], q: ['kk'], r: ['RR'],
+  s: ['SS'], t: ['DD'], u: ['U'], v: ['FF'], w: ['U'], x: ['kk', 'SS'], y: ['I'], z: ['SS'],
+  'ñ': ['nn'], 'ç': ['SS'], 'ß': ['SS'], 'ø': ['O'], 'æ': ['E'], 'œ': ['E'], 'ł': ['U'],
+  // Russian
+  'а': ['aa'], 'б': ['PP'], 'в': ['FF'], 'г': ['kk'], 'д': ['DD'], 'е': ['E'], 'ё': ['O'], 'ж': ['CH'],
+  'з': ['SS'], 'и': ['I'], 'й': ['I'], 'к': ['kk'], 'л': ['nn'], 'м': ['PP'], 'н': ['nn'], 'о': ['O'],
+  'п': ['PP'], 'р': ['RR'], 'с': ['SS'], 'т': ['DD'], 'у': ['U'], 'ф': ['FF'], 'х': ['kk'], 'ц': ['SS'],
+  'ч': ['CH'], 'ш': ['CH'], 'щ': ['CH'], 'ъ': [], 'ы': ['I'], 'ь': [], 'э': ['E'], 'ю': ['U'], 'я': ['aa']
+};
+
+const SPANISH_RULES: GraphemeRules = {
+  ll: ['CH'], rr: ['RR'], qu: ['kk'], ch: ['CH'], j: ['kk'], v: ['PP'], z: ['TH'], ce: ['TH', 'E'], ci: ['TH', 'I']
+};
+
+// Spelling rules for each language, on top of BASE_RULES; looked up by full tag first, then by language
+const LANGUAGE_RULES: Record<string, GraphemeRules> = {
+  en: {
+    th: ['TH'], sh: ['CH'], ch: ['CH'], ph: ['FF'], ng: ['nn'], ck: ['kk'], qu: ['kk', 'U'], wh: ['U'],
+    ee: ['I'], ea: ['I'], oo: ['U'], ou: ['aa', 'U'], ow: ['aa', 'U'], oa: ['O'], ai: ['E'], ay: ['E']
+  },
+  de: {
+    sch: ['CH'], ch: ['kk'], ei: ['aa', 'I'], ie: ['I'], au: ['aa', 'U'], eu: ['O', 'I'], 'äu': ['O', 'I'],
+    'ä': ['E'], 'ö': ['O'], 'ü': ['U'], w: ['FF'], z: ['DD', 'SS'], tz: ['DD', 'SS'], j: ['I'], qu: ['kk', 'FF'], ng: ['nn']
+  },
+  es: SPANISH_RULES,
+  'es-US': { ...SPANISH_RULES, z: ['SS'], ce: ['SS', 'E'], ci: ['SS', 'I'] },
+  fr: {
+    eau: ['O'], au: ['O'], ou: ['U'], oi: ['U', 'aa'], ai: ['E'], ei: ['E'], eu: ['O'],
+    ch: ['CH'], qu: ['kk'], gn: ['nn'], ph: ['FF'], j: ['CH']
+  },
+  it: {
+    ch: ['kk'], gh: ['kk'], gli: ['I'], gn: ['nn'], sce: ['CH', 'E'], sci: ['CH', 'I'],
+    ce: ['CH', 'E'], ci: ['CH', 'I'], ge: ['CH', 'E'], gi: ['CH', 'I'], z: ['DD', 'SS'], zz: ['DD', 'SS'], qu: ['kk', 'U']
+  },
+  nl: {
+    oe: ['U'], ij: ['E', 'I'], ei: ['E', 'I'], ui: ['O', 'I'], ee: ['E'], oo: ['O'], aa: ['aa'], uu: ['U'],
+    ie: ['I'], ou: ['aa', 'U'], au: ['aa', 'U'], sch: ['SS', 'kk'], ch: ['kk'], w: ['FF'], j: ['I']
+  },
+  pl: {
+    sz: ['CH'], cz: ['CH'], rz: ['CH'], ch: ['kk'], dz: ['DD', 'SS'], 'dż': ['CH'], 'ą': ['O'], 'ę': ['E'],
+    'ó': ['U'], 'ś': ['CH'], 'ć': ['CH'], 'ź': ['CH'], 'ż': ['CH'], 'ń': ['nn'], w: ['FF'], j: ['I']
+  },
+  pt: {
+    'ão': ['aa', 'U'], 'õe': ['O', 'I'], 'ã': ['aa'], 'õ': ['O'], lh: ['nn'], nh: ['nn'], ch: ['CH'],
+    qu: ['kk'], rr: ['RR'], ou: ['O'], x: ['CH']
+  },
+  id: {
+    ng: ['nn'], ny: ['nn'], sy: ['CH'], kh: ['kk'], c: ['CH'], au: ['aa', 'U'], ai: ['aa', 'I']
+  }
+};
+
+// The longest letter group any rule matches
+const MAX_GRAPHEME_LENGTH = 3;
+
+// Hindi (Devanagari): consonants carry an "a" unless a vowel sign or virama follows
+const DEVANAGARI_CONSONANTS: Record<string, Viseme> = {
+  'क': 'kk', 'ख': 'kk', 'ग': 'kk', 'घ': 'kk', 'ङ': 'nn',
+  'च': 'CH', 'छ': 'CH', 'ज': 'CH', 'झ': 'CH', 'ञ': 'nn',
+  'ट': 'DD', 'ठ': 'DD', 'ड': 'DD', 'ढ': 'DD', 'ण': 'nn',
+  'त': 'DD', 'थ': 'DD', 'द': 'DD', 'ध': 'DD', 'न': 'nn',
+  'प': 'PP', 'फ': 'FF', 'ब': 'PP', 'भ': 'PP', 'म': 'PP',
+  'य': 'I', 'र': 'RR', 'ल': 'nn', 'व': 'FF', 'श': 'CH', 'ष': 'CH', 'स': 'SS', 'ह': 'kk'
+};
+const DEVANAGARI_VOWEL_SIGNS: GraphemeRules = {
+  'ा': ['aa'], 'ि': ['I'], 'ी': ['I'], 'ु': ['U'], 'ू': ['U'], 'ृ': ['RR', 'I'],
+  'े': ['E'], 'ै': ['E'], 'ो': ['O'], 'ौ': ['O'], '्': []
+};
+const DEVANAGARI_OTHER: GraphemeRules = {
+  'अ': ['aa'], 'आ': ['aa'], 'इ': ['I'], 'ई': ['I'], 'उ': ['U'], 'ऊ': ['U'], 'ऋ': ['RR', 'I'],
+  'ए': ['E'], 'ऐ': ['E'], 'ओ': ['O'], 'औ': ['O'], 'ं': ['nn'], 'ँ': ['nn'], 'ः': [], '़': []
+};
+
+// Japanese kana, one row of five (a, i, u, e, o) per consonant; '・' marks kana that don't exist
+const KANA_ROWS: Array<[string, Viseme[]]> = [
+  ['あいうえお', []], ['ぁぃぅぇぉ', []],
+  ['かきくけこ', ['kk']], ['がぎぐげご', ['kk']],
+  ['さしすせそ', ['SS']], ['ざじずぜぞ', ['SS']],
+  ['たちつてと', ['DD']], ['だぢづでど', ['DD']],
+  ['なにぬねの', ['nn']],
+  ['はひふへほ', []], ['ばびぶべぼ', ['PP']], ['ぱぴぷぺぽ', ['PP']],
+  ['まみむめも', ['PP']],
+  ['や・ゆ・よ', ['I']], ['ゃ・ゅ・ょ', []],
+  ['らりるれろ', ['RR']],
+  ['わ・・・を', ['U']]
+];
+const VOWELS: Viseme[] = ['aa', 'I', 'U', 'E', 'O'];
+
+const KANA_RULES: GraphemeRules = (() => {
+  const rules: GraphemeRules = {};
+  KANA_ROWS.forEach(([row, consonant]) => {
+    for (let i = 0; i < row.length; i++) {
+      if (row[i] !== '・') rules[row[i]] = consonant.concat(VOWELS[i]);
+    }
+  });
+  // Kana whose consonant sounds different from the rest of their row
+  rules['し'] = ['CH', 'I'];
+  rules['じ'] = ['CH', 'I'];
+  rules['ち'] = ['CH', 'I'];
+  rules['つ'] = ['SS', 'U'];
+  rules['ふ'] = ['FF', 'U'];
+  rules['を'] = ['O'];
+  rules['ん'] = ['nn'];
+  // Small tsu doubles the next consonant, which is heard as a short stop
+  rules['っ'] = ['sil'];
+  return rules;
+})();
+
+// Korean (Hangul) syllable parts, in Unicode order
+const HANGUL_INITIALS: Array<Viseme | null> = [
+  'kk', 'kk', 'nn', 'DD', 'DD', 'RR', 'PP', 'PP', 'PP', 'SS', 'SS', null, 'CH', 'CH', 'CH', 'kk', 'DD', 'PP', null
+];
+const HANGUL_MEDIALS: Viseme[] = [
+  'aa', 'E', 'aa', 'E', 'O', 'E', 'O', 'E', 'O', 'aa', 'E', 'E', 'O', 'U', 'O', 'E', 'I', 'U', 'U', 'I', 'I'
+];
+const HANGUL_FINALS: Array<Viseme | null> = [
+  null, 'kk', 'kk', 'kk', 'nn', 'nn', 'nn', 'DD', 'RR', 'RR', 'RR', 'RR', 'RR', 'RR', 'RR', 'RR',
+  'PP', 'PP', 'PP', 'DD', 'DD', 'nn', 'DD', 'DD', 'kk', 'DD', 'PP', null
+];
+
+// Consonants used for syllables whose pronunciation can't be read from the text
+const GENERIC_ONSETS: Viseme[] = ['DD', 'SS', 'nn', 'kk', 'PP', 'CH'];
+
+function genericSyllable(code: number): Viseme[] {
+  return [GENERIC_ONSETS[code % GENERIC_ONSETS.length], VOWELS[code % VOWELS.length]];
+}
+
+function hangulSyllable(code: number): Viseme[] {
+  const offset = code - 0xac00;
+  const initial = HANGUL_INITIALS[Math.floor(offset / 588)];
+  const medial = HANGUL_MEDIALS[Math.floor((offset % 588) / 28)];
+  const final = HANGUL_FINALS[offset % 28];
+  const visemes: Viseme[] = [];
+  if (initial) visemes.push(initial);
+  visemes.push(medial);
+  if (final) visemes.push(final);
+  return visemes;
+}
+
+function isHan(code: number): boolean {
+  return (code >= 0x4e00 && code <= 0x9fff) || (code >= 0x3400 && code <= 0x4dbf);
+}
+
+function isHangul(code: number): boolean {
+  return code >= 0xac00 && code <= 0xd7a3;
+}
+
+function isKatakana(code: number): boolean {
+  return code >= 0x30a1 && code <= 0x30f6;
+}
+
+function isDigit(char: string): boolean {
+  return char >= '0' && char <= '9';
+}
+
+// Letters with upper and lower case (Latin, Cyrillic, Greek, ...)
+function isCasedLetter(char: string): boolean {
+  return char.toLowerCase() !== char.toUpperCase();
+}
+
+function getLanguageRules(language: string): GraphemeRules {
+  return LANGUAGE_RULES[language] || LANGUAGE_RULES[language.split('-')[0]] || {};
+}
+
+/**
+ * Turn text into the visemes it is spoken with, using simple spelling rules for `language` (e.g. 'de-DE').
+ * Spaces and punctuation become 'sil'. Chinese characters and digits don't show how they are pronounced,
+ * so each gets a plausible consonant-vowel syllable that keeps the mouth moving at the right pace.
+ */
+export function textToVisemes(text: string, language: string): VisemeMark[] {
+  const rules = getLanguageRules(language);
+  const marks: VisemeMark[] = [];
+  const push = (visemes: Viseme[], index: number) => {
+    visemes.forEach((viseme) => {
+      // Runs of silence (e.g. ". ") only need one mark
+      const last = marks[marks.length - 1];
+      if (viseme === 'sil' && last && last.viseme === 'sil') return;
+      marks.push({ viseme, index });
+    });
+  };
+
+  const lower = text.toLowerCase();
+  let i = 0;
+  while (i < lower.length) {
+    const char = lower[i];
+    const code = lower.charCodeAt(i);
+    // Katakana are spoken like the matching hiragana
+    const kana = isKatakana(code) ? String.fromCharCode(code - 0x60) : char;
+
+    if (isHangul(code)) {
+      push(hangulSyllable(code), i);
+    } else if (isHan(code) || isDigit(char)) {
+      push(genericSyllable(code), i);
+    } else if (KANA_RULES[kana]) {
+      push(KANA_RULES[kana], i);
+    } else if (char === 'ー' && marks.length > 0) {
+      // Long vowel mark: hold the previous vowel
+      push([marks[marks.length - 1].viseme], i);
+    } else if (DEVANAGARI_CONSONANTS[char]) {
+      push([DEVANAGARI_CONSONANTS[char]], i);
+      let next = lower[i + 1];
+      if (next === '़') next = lower[i + 2];
+      if (!next || !DEVANAGARI_VOWEL_SIGNS[next]) push(['aa'], i);
+    } else if (DEVANAGARI_VOWEL_SIGNS[char] || DEVANAGARI_OTHER[char]) {
+      push(DEVANAGARI_VOWEL_SIGNS[char] || DEVANAGARI_OTHER[char], i);
+    } else {
+      // Longest matching letter group, preferring the language's own spelling rules
+      let matched = false;
+      for (let length = MAX_GRAPHEME_LENGTH; length > 0 && !matched; length--) {
+        const grapheme = lower.slice(i, i + length);
+        const visemes = rules[grapheme] || (length === 1 ? BASE_RULES[grapheme] : undefined);
+        if (visemes) {
+          push(visemes, i);
+          i += length;
+          matched = true;
+        }
+      }
+      if (matched) continue;
+
+      // Accented letters are spoken like their base letter (é → e)
+      const base = char.normalize('NFD')[0];
+      if (base !== char && (rules[base] || BASE_RULES[base])) {
+        push(rules[base] || BASE_RULES[base], i);
+      } else if (isCasedLetter(char)) {
+        push(['aa'], i);
+      } else {
+        push(['sil'], i);
+      }
+    }
+    i++;
+  }
+
+  return marks;
+}
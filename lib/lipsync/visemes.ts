@@ -0,0 +1,51 @@
+/**
+ * Mouth shapes used for lip-sync, following the common 15-viseme set:
+ * silence, closed lips (p/b/m), lip on teeth (f/v), tongue between teeth (th), tongue behind teeth (t/d),
+ * back of the tongue (k/g), rounded fricatives (ch/sh/j), hissing (s/z), nasal/lateral (n/l), r, and five vowels
+ */
+export const VISEMES = ['sil', 'PP', 'FF', 'TH', 'DD', 'kk', 'CH', 'SS', 'nn', 'RR', 'aa', 'E', 'I', 'O', 'U'] as const;
+
+export type Viseme = typeof VISEMES[number];
+
+// How a viseme looks, in terms the avatars can apply to their mouths
+export interface MouthShape {
+  // How far the mouth is open, from 0 (closed, at rest) to 1
+  open: number;
+  // Lip width relative to the resting mouth: below 1 rounds the lips, above 1 spreads them
+  width: number;
+}
+
+export const VISEME_SHAPES: Record<Viseme, MouthShape> = {
+  sil: { open: 0, width: 1 },
+  PP: { open: 0, width: 0.9 },
+  FF: { open: 0.15, width: 1 },
+  TH: { open: 0.2, width: 1 },
+  DD: { open: 0.25, width: 1 },
+  kk: { open: 0.3, width: 1 },
+  CH: { open: 0.25, width: 0.8 },
+  SS: { open: 0.15, width: 1.15 },
+  nn: { open: 0.2, width: 1 },
+  RR: { open: 0.25, width: 0.85 },
+  aa: { open: 0.9, width: 1.1 },
+  E: { open: 0.55, width: 1.25 },
+  I: { open: 0.35, width: 1.3 },
+  O: { open: 0.7, width: 0.75 },
+  U: { open: 0.4, width: 0.6 }
+};
+
+const VOWEL_VISEMES: Viseme[] = ['aa', 'E', 'I', 'O', 'U'];
+
+export function isVowelViseme(viseme: Viseme): boolean {
+  return VOWEL_VISEMES.indexOf(viseme) >= 0;
+}
+
+/**
+ * Mix two shapes; `amount` 0 gives `from`, 1 gives `to`
+ */
+export function blendShapes(from: MouthShape, to: MouthShape, amount: number): MouthShape {
+  const k = Math.min(1, Math.max(0, amount));
+  return {
+    open: from.open + (to.open - from.open) * k,
+    width: from.width + (to.width - from.width) * k
+  };
+}
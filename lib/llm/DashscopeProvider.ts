@@ -0,0 +1,18 @@
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+
+export const DASHSCOPE_BASE_URL = 'https://dashscope.aliyuncs.com/compatible-mode/v1';
+
+/**
+ * Dashscope (Aliyun) provider using its OpenAI-compatible mode endpoint
+ */
+export class DashscopeProvider extends OpenAICompatibleProvider {
+  public readonly name = 'dashscope';
+
+  constructor(config: { apiKey: string; model?: string; temperature?: number; maxTokens?: number; baseUrl?: string }) {
+    super({
+      ...config,
+      baseUrl: config.baseUrl || DASHSCOPE_BASE_URL,
+      model: config.model || 'qwen-max'
+    });
+  }
+}
@@ -0,0 +1,48 @@
+import { ChatMessage, ToolCall, ToolDefinition } from '../types';
+
+// Generation parameters that can be set per provider or per request
+export interface LLMOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  // Tools the model may call instead of answering directly
+  tools?: ToolDefinition[];
+  // Cancels the request; it is never sent to the server
+  signal?: AbortSignal;
+}
+
+// Result of a completion: the text, plus any tool calls the model asked for
+export interface LLMCompletion {
+  content: string;
+  toolCalls?: ToolCall[];
+}
+
+// The model a backend uses unless a request asks for another
+export interface ModelInfo {
+  model: string;
+  // Context window in tokens, when it is configured rather than known from the model name
+  contextWindow?: number;
+}
+
+/**
+ * A chat completion backend.
+ * Server-side providers talk to an LLM API directly; the browser uses DashscopeClient,
+ * which forwards to whichever provider the /api/chat route is configured with.
+ */
+export interface LLMProvider {
+  readonly name: string;
+
+  /**
+   * Generate a complete response for the conversation
+   */
+  generateResponse(messages: ChatMessage[], options?: LLMOptions): Promise<LLMCompletion>;
+
+  /**
+   * Stream a response, passing each token to `onToken`, and return the full completion
+   */
+  streamResponse(
+    messages: ChatMessage[],
+    onToken: (token: string) => void,
+    options?: LLMOptions
+  ): Promise<LLMCompletion>;
+}
@@ -0,0 +1,78 @@
+import { ChatMessage, ToolCall } from '../types';
+import { LLMCompletion, LLMOptions, LLMProvider } from './LLMProvider';
+import { throwIfAborted } from './errors';
+
+/**
+ * Deterministic provider for offline development.
+ * Replies are derived from the last user message, so the same conversation always gets the same answer.
+ * Saying "use <tool name> <JSON arguments>" makes it call that tool when it is available.
+ */
+export class MockProvider implements LLMProvider {
+  public readonly name = 'mock';
+  private tokenDelay: number;
+
+  constructor(config: { tokenDelay?: number } = {}) {
+    this.tokenDelay = config.tokenDelay ?? 30;
+  }
+
+  public async generateResponse(messages: ChatMessage[], options?: LLMOptions): Promise<LLMCompletion> {
+    return this.buildCompletion(messages, options);
+  }
+
+  public async streamResponse(
+    messages: ChatMessage[],
+    onToken: (token: string) => void,
+    options?: LLMOptions
+  ): Promise<LLMCompletion> {
+    const completion = this.buildCompletion(messages, options);
+
+    // Emit word by word to exercise the streaming path
+    const tokens = completion.content.match(/\S+\s*/g) || [];
+    for (const token of tokens) {
+      if (this.tokenDelay > 0) {
+        await new Promise(resolve => setTimeout(resolve, this.tokenDelay));
+      }
+      throwIfAborted(options && options.signal);
+      onToken(token);
+    }
+
+    return completion;
+  }
+
+  private buildCompletion(messages: ChatMessage[], options: LLMOptions = {}): LLMCompletion {
+    const lastMessage = messages[messages.length - 1];
+
+    // Report tool results back as the final answer
+    if (lastMessage && lastMessage.role === 'tool') {
+      return { content: `The ${lastMessage.name || 'tool'} tool returned: ${lastMessage.content}` };
+    }
+
+    const toolCall = this.findRequestedToolCall(lastMessage, options);
+    if (toolCall) {
+      return { content: '', toolCalls: [toolCall] };
+    }
+
+    const userTurns = messages.filter(message => message.role === 'user').length;
+    if (!lastMessage || lastMessage.role !== 'user') {
+      return { content: 'Hello! This is a mock response.' };
+    }
+
+    return { content: `You said: "${lastMessage.content.trim()}". This is mock response number ${userTurns}.` };
+  }
+
+  private findRequestedToolCall(message: ChatMessage | undefined, options: LLMOptions): ToolCall | null {
+    if (!message || message.role !== 'user' || !options.tools) return null;
+
+    const match = message.content.trim().match(/^use (\w+)\s*(.*)$/i);
+    if (!match) return null;
+
+    const [, name, rawArguments] = match;
+    if (!options.tools.some(tool => tool.function.name === name)) return null;
+
+    return {
+      id: 'mock_call_1',
+      type: 'function',
+      function: { name, arguments: rawArguments.trim() || '{}' }
+    };
+  }
+}
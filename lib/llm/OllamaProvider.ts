@@ -0,0 +1,19 @@
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+
+export const OLLAMA_BASE_URL = 'http://localhost:11434/v1';
+
+/**
+ * Provider for a local Ollama server, via its OpenAI-compatible endpoint.
+ * No API key is needed, so it works fully offline.
+ */
+export class OllamaProvider extends OpenAICompatibleProvider {
+  public readonly name = 'ollama';
+
+  constructor(config: { model?: string; temperature?: number; maxTokens?: number; baseUrl?: string } = {}) {
+    super({
+      ...config,
+      baseUrl: config.baseUrl || OLLAMA_BASE_URL,
+      model: config.model || 'llama3.1'
+    });
+  }
+}
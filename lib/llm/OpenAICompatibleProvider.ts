@@ -0,0 +1,148 @@
+import { ChatMessage, ToolCall } from '../types';
+import { readServerSentEvents } from '../sse';
+import { LLMCompletion, LLMOptions, LLMProvider } from './LLMProvider';
+import { LLMError } from './errors';
+import { toApiMessage } from './messages';
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+/**
+ * Provider for any endpoint that implements the OpenAI Chat Completions API
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  public readonly name: string = 'openai';
+  protected config: OpenAICompatibleConfig;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.config = {
+      ...config,
+      // Unset values (e.g. from an empty LLM_TEMPERATURE) fall back to the defaults
+      temperature: config.temperature ?? 0.7,
+      maxTokens: config.maxTokens ?? 800,
+      // Accept base URLs with or without a trailing slash
+      baseUrl: config.baseUrl.replace(/\/+$/, '')
+    };
+  }
+
+  public async generateResponse(messages: ChatMessage[], options?: LLMOptions): Promise<LLMCompletion> {
+    const response = await this.request(messages, false, options);
+    const data = await response.json();
+    const choice = data.choices?.[0] || {};
+    const message = choice.message || {};
+    if (choice.finish_reason === 'content_filter') {
+      throw new LLMError('content_filter', `${this.name} stopped the reply with its content filter`);
+    }
+    
+    return {
+      content: message.content || '',
+      toolCalls: message.tool_calls && message.tool_calls.length > 0 ? message.tool_calls : undefined
+    };
+  }
+
+  public async streamResponse(
+    messages: ChatMessage[],
+    onToken: (token: string) => void,
+    options?: LLMOptions
+  ): Promise<LLMCompletion> {
+    const response = await this.request(messages, true, options);
+    if (!response.body) {
+      throw new LLMError('server', `${this.name} returned an empty stream`);
+    }
+
+    let fullText = '';
+    let filtered = false;
+    // Tool calls arrive in fragments keyed by index; the arguments string is split across chunks
+    const toolCalls: ToolCall[] = [];
+    
+    await readServerSentEvents(response.body, (data) => {
+      if (data === '[DONE]') return;
+
+      try {
+        const chunk = JSON.parse(data);
+        const choice = chunk.choices?.[0] || {};
+        const delta = choice.delta || {};
+        if (choice.finish_reason === 'content_filter') {
+          filtered = true;
+        }
+        
+        if (delta.content) {
+          fullText += delta.content;
+          onToken(delta.content);
+        }
+        
+        (delta.tool_calls || []).forEach((fragment: any) => {
+          const index = fragment.index ?? 0;
+          if (!toolCalls[index]) {
+            toolCalls[index] = { id: '', type: 'function', function: { name: '', arguments: '' } };
+          }
+          const call = toolCalls[index];
+          if (fragment.id) call.id = fragment.id;
+          if (fragment.function?.name) call.function.name += fragment.function.name;
+          if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+        });
+      } catch (error) {
+        console.error(`Failed to parse ${this.name} stream chunk:`, data);
+      }
+    });
+
+    if (filtered) {
+      throw new LLMError('content_filter', `${this.name} stopped the reply with its content filter`);
+    }
+
+    const completedCalls = toolCalls
+      .filter(call => call && call.function.name)
+      .map((call, index) => call.id ? call : { ...call, id: `call_${index}` });
+    return {
+      content: fullText,
+      toolCalls: completedCalls.length > 0 ? completedCalls : undefined
+    };
+  }
+
+  protected buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json'
+    };
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+    return headers;
+  }
+
+  private async request(messages: ChatMessage[], stream: boolean, options: LLMOptions = {}): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.config.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: this.buildHeaders(),
+        body: JSON.stringify({
+          model: options.model || this.config.model,
+          messages: messages.map(toApiMessage),
+          temperature: options.temperature ?? this.config.temperature,
+          max_tokens: options.maxTokens ?? this.config.maxTokens,
+          ...(options.tools && options.tools.length > 0 ? { tools: options.tools } : {}),
+          stream
+        }),
+        signal: options.signal
+      });
+    } catch (error) {
+      if (options.signal && options.signal.aborted) {
+        throw new LLMError('aborted', 'The request was cancelled');
+      }
+      throw new LLMError('network', `Failed to communicate with ${this.name}: ${(error as Error).message}`);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`${this.name} API error:`, errorText);
+      throw LLMError.fromResponse(response.status, errorText, response.headers.get('Retry-After'));
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,95 @@
+import { LLMProvider, ModelInfo } from './LLMProvider';
+import { DashscopeProvider } from './DashscopeProvider';
+import { OllamaProvider } from './OllamaProvider';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+import { MockProvider } from './MockProvider';
+
+export type LLMProviderName = 'dashscope' | 'openai' | 'ollama' | 'mock';
+
+export interface LLMConfig {
+  provider: LLMProviderName;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  baseUrl?: string;
+  apiKey?: string;
+  // Context window of the model in tokens, e.g. when Ollama runs it with a smaller num_ctx
+  contextWindow?: number;
+  // Further models the browser may ask for, besides `model` and those the personas use
+  allowedModels?: string[];
+}
+
+const PROVIDER_NAMES: LLMProviderName[] = ['dashscope', 'openai', 'ollama', 'mock'];
+
+// What the providers use when LLM_MODEL isn't set; openai always needs it
+const DEFAULT_MODELS: Partial<Record<LLMProviderName, string>> = {
+  dashscope: 'qwen-max',
+  ollama: 'llama3.1',
+  mock: 'mock'
+};
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Read the LLM configuration from environment variables (server-side only):
+ * LLM_PROVIDER, LLM_MODEL, LLM_TEMPERATURE, LLM_MAX_TOKENS, LLM_BASE_URL, LLM_API_KEY,
+ * LLM_CONTEXT_WINDOW and LLM_ALLOWED_MODELS (comma-separated).
+ * Dashscope keeps using DASHSCOPE_API_KEY.
+ */
+export function loadLLMConfig(env: Record<string, string | undefined> = process.env): LLMConfig {
+  const provider = (env.LLM_PROVIDER || 'dashscope').toLowerCase() as LLMProviderName;
+  if (!PROVIDER_NAMES.includes(provider)) {
+    throw new Error(`Unknown LLM_PROVIDER "${env.LLM_PROVIDER}". Expected one of: ${PROVIDER_NAMES.join(', ')}`);
+  }
+
+  return {
+    provider,
+    model: env.LLM_MODEL || undefined,
+    temperature: parseNumber(env.LLM_TEMPERATURE),
+    maxTokens: parseNumber(env.LLM_MAX_TOKENS),
+    baseUrl: env.LLM_BASE_URL || undefined,
+    apiKey: provider === 'dashscope' ? env.DASHSCOPE_API_KEY : env.LLM_API_KEY,
+    contextWindow: parseNumber(env.LLM_CONTEXT_WINDOW),
+    allowedModels: (env.LLM_ALLOWED_MODELS || '').split(',').map(model => model.trim()).filter(Boolean)
+  };
+}
+
+/**
+ * The model the configured provider uses by default, as reported to the browser
+ */
+export function describeModel(config: LLMConfig): ModelInfo {
+  const info: ModelInfo = { model: config.model || DEFAULT_MODELS[config.provider] || '' };
+  if (config.contextWindow && config.contextWindow > 0) info.contextWindow = config.contextWindow;
+  return info;
+}
+
+/**
+ * Build the provider described by the configuration
+ */
+export function createLLMProvider(config: LLMConfig): LLMProvider {
+  const { provider, model, temperature, maxTokens, baseUrl, apiKey } = config;
+
+  switch (provider) {
+    case 'dashscope':
+      if (!apiKey) {
+        throw new Error('DASHSCOPE_API_KEY is not set');
+      }
+      return new DashscopeProvider({ apiKey, model, temperature, maxTokens, baseUrl });
+
+    case 'openai':
+      if (!baseUrl || !model) {
+        throw new Error('LLM_BASE_URL and LLM_MODEL are required for the openai provider');
+      }
+      return new OpenAICompatibleProvider({ baseUrl, apiKey, model, temperature, maxTokens });
+
+    case 'ollama':
+      return new OllamaProvider({ model, temperature, maxTokens, baseUrl });
+
+    case 'mock':
+      return new MockProvider();
+  }
+}
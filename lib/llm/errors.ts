@@ -0,0 +1,158 @@
+export type LLMErrorKind =
+  | 'auth'
+  | 'rate_limit'
+  | 'timeout'
+  | 'server'
+  | 'network'
+  | 'content_filter'
+  | 'invalid_request'
+  | 'aborted'
+  | 'unknown';
+
+// Failures that are worth retrying after a short wait
+const TRANSIENT_KINDS: LLMErrorKind[] = ['rate_limit', 'timeout', 'server', 'network'];
+
+// Error codes the providers use when a prompt or reply is blocked by moderation
+const CONTENT_FILTER_CODES = /data_inspection_failed|content_filter|content_policy_violation|inappropriate/i;
+
+// JSON shape used to send an LLMError from the API route to the browser
+export interface LLMErrorPayload {
+  kind: LLMErrorKind;
+  message: string;
+  retryAfterMs?: number;
+}
+
+/**
+ * Typed failure of a chat completion, shared by the server-side providers and the browser client
+ */
+export class LLMError extends Error {
+  public readonly kind: LLMErrorKind;
+  public readonly status?: number;
+  // Delay the server asked for before retrying (from Retry-After)
+  public readonly retryAfterMs?: number;
+
+  constructor(kind: LLMErrorKind, message: string, options: { status?: number; retryAfterMs?: number } = {}) {
+    super(message);
+    // Keep instanceof working when classes are compiled down to ES5
+    Object.setPrototypeOf(this, LLMError.prototype);
+    this.name = 'LLMError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  public get retryable(): boolean {
+    return TRANSIENT_KINDS.includes(this.kind);
+  }
+
+  public toJSON(): LLMErrorPayload {
+    return { kind: this.kind, message: this.message, retryAfterMs: this.retryAfterMs };
+  }
+
+  /**
+   * Classify an HTTP error response from a completions endpoint
+   */
+  public static fromResponse(status: number, body: string = '', retryAfter?: string | null): LLMError {
+    const retryAfterMs = parseRetryAfter(retryAfter);
+    const message = `Request failed (HTTP ${status})`;
+
+    if (CONTENT_FILTER_CODES.test(body)) {
+      return new LLMError('content_filter', 'The request was blocked by the content filter', { status });
+    }
+    if (status === 401 || status === 403) {
+      return new LLMError('auth', message, { status });
+    }
+    if (status === 429) {
+      return new LLMError('rate_limit', message, { status, retryAfterMs });
+    }
+    if (status === 408 || status === 504) {
+      return new LLMError('timeout', message, { status });
+    }
+    if (status >= 500) {
+      return new LLMError('server', message, { status, retryAfterMs });
+    }
+    if (status >= 400) {
+      return new LLMError('invalid_request', message, { status });
+    }
+    return new LLMError('unknown', message, { status });
+  }
+
+  /**
+   * Rebuild an error sent by the API route
+   */
+  public static fromPayload(payload: Partial<LLMErrorPayload> | undefined, status?: number): LLMError {
+    if (!payload || typeof payload.kind !== 'string') {
+      return status ? LLMError.fromResponse(status) : new LLMError('unknown', 'Unknown error');
+    }
+    return new LLMError(payload.kind, payload.message || 'Unknown error', {
+      status,
+      retryAfterMs: payload.retryAfterMs
+    });
+  }
+}
+
+function parseRetryAfter(value?: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Wrap anything thrown during a request in an LLMError
+ */
+export function toLLMError(error: unknown): LLMError {
+  if (error instanceof LLMError) return error;
+  if (error && typeof error === 'object' && (error as Error).name === 'AbortError') {
+    // fetch and stream reads reject with an AbortError once their signal is aborted
+    return new LLMError('aborted', 'The request was cancelled');
+  }
+  if (error instanceof TypeError) {
+    // fetch rejects with a TypeError when the network is unreachable
+    return new LLMError('network', error.message);
+  }
+  return new LLMError('unknown', error instanceof Error ? error.message : String(error));
+}
+
+/**
+ * Whether a request failed only because it was cancelled, which the UI can ignore
+ */
+export function isAbortError(error: unknown): boolean {
+  return toLLMError(error).kind === 'aborted';
+}
+
+/**
+ * Throw an aborted LLMError if the signal has already been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal && signal.aborted) {
+    throw new LLMError('aborted', 'The request was cancelled');
+  }
+}
+
+/**
+ * Friendly text to show in the UI for a failed request
+ */
+export function describeLLMError(error: unknown): string {
+  switch (toLLMError(error).kind) {
+    case 'auth':
+      return 'The assistant is not configured correctly (authentication failed).';
+    case 'rate_limit':
+      return 'Too many requests right now. Please wait a moment and try again.';
+    case 'timeout':
+      return 'The response took too long. Please try again.';
+    case 'server':
+      return 'The AI service is having problems. Please try again shortly.';
+    case 'network':
+      return "Can't reach the server. Check your connection and try again.";
+    case 'content_filter':
+      return 'That request was blocked by the content filter. Try rephrasing it.';
+    case 'aborted':
+      return 'The request was cancelled.';
+    default:
+      return 'Something went wrong while generating a response. Please try again.';
+  }
+}
@@ -0,0 +1,66 @@
+import { ChatMessage, ToolCall, ToolDefinition } from '../types';
+
+const ROLES = ['user', 'assistant', 'system', 'tool'];
+
+// Most messages /api/chat accepts in one request; the browser trims its prompts to fit
+export const MAX_REQUEST_MESSAGES = 50;
+
+function isValidToolCall(call: any): call is ToolCall {
+  return !!call &&
+    typeof call.id === 'string' &&
+    call.type === 'function' &&
+    !!call.function &&
+    typeof call.function.name === 'string' &&
+    typeof call.function.arguments === 'string';
+}
+
+/**
+ * Check that a value is a chat message the completion APIs will accept
+ */
+export function isValidChatMessage(message: any): message is ChatMessage {
+  if (!message || !ROLES.includes(message.role) || typeof message.content !== 'string') {
+    return false;
+  }
+  if (message.tool_calls !== undefined &&
+      (!Array.isArray(message.tool_calls) || !message.tool_calls.every(isValidToolCall))) {
+    return false;
+  }
+  if (message.role === 'tool' && typeof message.tool_call_id !== 'string') {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Check that a value is a function tool definition
+ */
+export function isValidToolDefinition(tool: any): tool is ToolDefinition {
+  return !!tool &&
+    tool.type === 'function' &&
+    !!tool.function &&
+    typeof tool.function.name === 'string' &&
+    typeof tool.function.description === 'string' &&
+    !!tool.function.parameters &&
+    typeof tool.function.parameters === 'object';
+}
+
+/**
+ * Copy only the fields the completion APIs understand
+ */
+export function toApiMessage(message: ChatMessage): ChatMessage {
+  const apiMessage: ChatMessage = { role: message.role, content: message.content };
+  if (message.tool_calls && message.tool_calls.length > 0) {
+    apiMessage.tool_calls = message.tool_calls.map(call => ({
+      id: call.id,
+      type: 'function',
+      function: { name: call.function.name, arguments: call.function.arguments }
+    }));
+  }
+  if (message.tool_call_id) {
+    apiMessage.tool_call_id = message.tool_call_id;
+  }
+  if (message.name) {
+    apiMessage.name = message.name;
+  }
+  return apiMessage;
+}
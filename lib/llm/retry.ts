@@ -0,0 +1,60 @@
+import { LLMError, throwIfAborted, toLLMError } from './errors';
+
+export interface RetryOptions {
+  // Number of retries after the first attempt
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Return false to stop retrying, e.g. once part of a stream has been delivered
+  shouldRetry?: (error: LLMError, attempt: number) => boolean;
+  // Stops retrying (and waiting between attempts) once aborted
+  signal?: AbortSignal;
+}
+
+/**
+ * Exponential backoff with full jitter, honouring the server's Retry-After when it is longer
+ */
+export function getRetryDelay(error: LLMError, attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const exponential = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt));
+  const jittered = Math.random() * exponential;
+  return Math.min(maxDelayMs, Math.max(jittered, error.retryAfterMs || 0));
+}
+
+/**
+ * Run a request, retrying transient failures (rate limits, timeouts, server and network errors)
+ */
+export async function withRetry<T>(request: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { retries = 3, baseDelayMs = 500, maxDelayMs = 8000, shouldRetry, signal } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      throwIfAborted(signal);
+      return await request();
+    } catch (caught) {
+      const error = toLLMError(caught);
+      const canRetry = attempt < retries && error.retryable && (!shouldRetry || shouldRetry(error, attempt));
+      if (!canRetry) throw error;
+
+      const delay = getRetryDelay(error, attempt, baseDelayMs, maxDelayMs);
+      console.warn(`Chat request failed (${error.kind}), retrying in ${Math.round(delay)}ms`);
+      await wait(delay, signal);
+    }
+  }
+}
+
+/**
+ * Sleep between attempts, rejecting early if the request is cancelled
+ */
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new LLMError('aborted', 'The request was cancelled'));
+    };
+    const timer = setTimeout(() => {
+      if (signal) signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    if (signal) signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
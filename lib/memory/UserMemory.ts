@@ -0,0 +1,105 @@
+import { LLMOptions, LLMProvider } from '../llm/LLMProvider';
+import { MemoryStore, UserFact } from '../storage/MemoryStore';
+import { ChatMessage } from '../types';
+import { extractMemoryChanges } from './extractor';
+import { selectRelevantFacts } from './recall';
+
+// Facts kept per character; the least recently updated are forgotten first
+const MAX_FACTS = 50;
+
+/**
+ * What one character remembers about the user across conversations, stored in the browser.
+ * Facts are learned from the conversation with a model call and can be edited or deleted by the user.
+ */
+export class UserMemory {
+  private persona: string;
+  private store: MemoryStore;
+  private listeners = new Set<() => void>();
+  // Settles when the previous update has been stored, so extractions never work from stale facts
+  private previousUpdate: Promise<void> = Promise.resolve();
+
+  constructor(persona: string, store: MemoryStore = new MemoryStore()) {
+    this.persona = persona;
+    this.store = store;
+  }
+
+  public listFacts(): Promise<UserFact[]> {
+    return this.store.listFacts(this.persona);
+  }
+
+  /**
+   * The facts worth adding to the prompt for a message
+   */
+  public async recall(query: string): Promise<UserFact[]> {
+    return selectRelevantFacts(await this.listFacts(), query);
+  }
+
+  /**
+   * Extract facts about the user from new messages and store them
+   */
+  public learn(provider: LLMProvider, messages: ChatMessage[], options: LLMOptions = {}): Promise<void> {
+    return this.queueUpdate(async () => {
+      const known = await this.listFacts();
+      const changes = await extractMemoryChanges(provider, known, messages, options);
+      if (changes.add.length + changes.update.length + changes.remove.length === 0) return false;
+
+      for (const id of changes.remove) {
+        await this.store.deleteFact(id);
+      }
+      for (const { id, text } of changes.update) {
+        await this.store.updateFact(id, text);
+      }
+      for (const { category, text } of changes.add) {
+        await this.store.addFact(this.persona, text, category);
+      }
+
+      const facts = await this.listFacts();
+      for (const fact of facts.slice(MAX_FACTS)) {
+        await this.store.deleteFact(fact.id);
+      }
+      console.log(`Memory updated: ${changes.add.length} added, ${changes.update.length} updated, ${changes.remove.length} removed`);
+      return true;
+    });
+  }
+
+  public updateFact(id: string, text: string): Promise<void> {
+    if (!text.trim()) return this.deleteFact(id);
+    return this.queueUpdate(async () => Boolean(await this.store.updateFact(id, text)));
+  }
+
+  public deleteFact(id: string): Promise<void> {
+    return this.queueUpdate(async () => {
+      await this.store.deleteFact(id);
+      return true;
+    });
+  }
+
+  /**
+   * Forget everything this character knows about the user
+   */
+  public clear(): Promise<void> {
+    return this.queueUpdate(async () => {
+      await this.store.clearFacts(this.persona);
+      return true;
+    });
+  }
+
+  /**
+   * Be notified whenever the stored facts change; returns a function that stops the notifications
+   */
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Run updates one at a time and notify listeners when one changed something
+  private queueUpdate(update: () => Promise<boolean>): Promise<void> {
+    const result = this.previousUpdate.then(update).then((changed) => {
+      if (changed) this.listeners.forEach(listener => listener());
+    });
+    this.previousUpdate = result.catch(() => undefined);
+    return result;
+  }
+}
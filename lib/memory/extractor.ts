@@ -0,0 +1,103 @@
+import { LLMOptions, LLMProvider } from '../llm/LLMProvider';
+import { formatTranscript } from '../context/summarizer';
+import { MemoryCategory, UserFact } from '../storage/MemoryStore';
+import { ChatMessage } from '../types';
+
+export const MEMORY_CATEGORIES: MemoryCategory[] = ['identity', 'preference', 'topic'];
+
+// Longest fact that is stored; anything longer is not a single fact
+const MAX_FACT_LENGTH = 200;
+
+const EXTRACTION_PROMPT =
+  'You keep the long-term memory of an AI character about the user it talks to. ' +
+  'Read the new messages and decide what is worth remembering in future conversations: ' +
+  'who the user is (name, age, where they live, job, family), their preferences, and ongoing topics or plans. ' +
+  'Only keep facts the user stated or clearly confirmed about themselves; ignore small talk, questions, ' +
+  'facts about the world and anything the character said about itself. ' +
+  'Update or remove known facts that the new messages correct or contradict. ' +
+  'Answer with a single JSON object and nothing else, in this shape: ' +
+  '{"add": [{"category": "identity" | "preference" | "topic", "text": short fact in third person, e.g. "The user\'s name is Ana"}], ' +
+  '"update": [{"id": number of the known fact, "text": corrected fact}], ' +
+  '"remove": [numbers of known facts that are no longer true]}. ' +
+  'Use empty arrays when nothing changes. Write facts in the language of the conversation.';
+
+export interface MemoryChanges {
+  add: Array<{ category: MemoryCategory; text: string }>;
+  update: Array<{ id: string; text: string }>;
+  remove: string[];
+}
+
+const NO_CHANGES: MemoryChanges = { add: [], update: [], remove: [] };
+
+function isFactText(text: unknown): text is string {
+  return typeof text === 'string' && text.trim().length > 0 && text.length <= MAX_FACT_LENGTH;
+}
+
+/**
+ * Check the model's answer, mapping fact numbers back to ids and dropping anything malformed
+ */
+export function parseMemoryChanges(content: string, known: UserFact[]): MemoryChanges {
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  if (start < 0 || end < start) return NO_CHANGES;
+
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(content.slice(start, end + 1));
+  } catch (error) {
+    console.warn('Memory extraction did not return valid JSON');
+    return NO_CHANGES;
+  }
+
+  const list = (value: unknown): unknown[] => Array.isArray(value) ? value : [];
+  const factId = (number: unknown): string | null => {
+    const fact = typeof number === 'number' ? known[number - 1] : undefined;
+    return fact ? fact.id : null;
+  };
+
+  const add = list(parsed.add)
+    .map(item => item as { category?: unknown; text?: unknown })
+    .filter(item => item && isFactText(item.text))
+    .map(item => ({
+      category: MEMORY_CATEGORIES.includes(item.category as MemoryCategory) ? item.category as MemoryCategory : 'topic',
+      text: (item.text as string).trim()
+    }));
+
+  const update = list(parsed.update)
+    .map(item => item as { id?: unknown; text?: unknown })
+    .filter(item => item && isFactText(item.text) && factId(item.id) !== null)
+    .map(item => ({ id: factId(item.id) as string, text: (item.text as string).trim() }));
+
+  const remove = list(parsed.remove)
+    .map(factId)
+    .filter((id): id is string => id !== null);
+
+  return { add, update, remove };
+}
+
+/**
+ * Ask the model which facts about the user the new messages add, correct or invalidate
+ */
+export async function extractMemoryChanges(
+  provider: LLMProvider,
+  known: UserFact[],
+  messages: ChatMessage[],
+  options: LLMOptions = {}
+): Promise<MemoryChanges> {
+  const knownFacts = known.length > 0
+    ? known.map((fact, index) => `${index + 1}. [${fact.category}] ${fact.text}`).join('\n')
+    : '(none)';
+
+  const completion = await provider.generateResponse(
+    [
+      { role: 'system', content: EXTRACTION_PROMPT },
+      {
+        role: 'user',
+        content: `Known facts:\n${knownFacts}\n\nNew messages:\n${formatTranscript(messages)}`
+      }
+    ],
+    { model: options.model, temperature: 0, maxTokens: 300, signal: options.signal }
+  );
+
+  return parseMemoryChanges(completion.content, known);
+}
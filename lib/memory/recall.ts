@@ -0,0 +1,34 @@
+import { BM25Index } from '../knowledge/BM25Index';
+import { UserFact } from '../storage/MemoryStore';
+
+// Facts added to each request at most
+const DEFAULT_LIMIT = 8;
+
+/**
+ * Pick the facts worth mentioning for a message: who the user is always counts,
+ * then facts matching the message, then the most recently updated ones.
+ */
+export function selectRelevantFacts(facts: UserFact[], query: string, limit: number = DEFAULT_LIMIT): UserFact[] {
+  if (facts.length <= limit) return facts;
+
+  const selected = facts.filter(fact => fact.category === 'identity').slice(0, limit);
+  const add = (fact: UserFact) => {
+    if (selected.length < limit && selected.indexOf(fact) < 0) selected.push(fact);
+  };
+
+  const index = new BM25Index<UserFact>();
+  facts.forEach(fact => index.add(fact, fact.text));
+  index.search(query, limit).forEach(({ document }) => add(document));
+
+  [...facts].sort((a, b) => b.updatedAt - a.updatedAt).forEach(add);
+  return selected;
+}
+
+/**
+ * System message with what the character remembers about the user from earlier conversations
+ */
+export function formatMemoryPrompt(facts: UserFact[]): string {
+  return 'What you remember about the user from earlier conversations ' +
+    '(use it naturally when it helps, and don\'t list it back to them):\n' +
+    facts.map(fact => `- ${fact.text}`).join('\n');
+}
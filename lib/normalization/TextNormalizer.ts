@@ -0,0 +1,67 @@
+import { stripMarkup } from './markup';
+import { expandNumbers } from './numbers';
+import { Lexicon, createLexiconStep } from './lexicon';
+
+/**
+ * One stage of turning written text into words for a voice to say
+ */
+export interface NormalizationStep {
+  // Identifies the step, so it can be replaced or removed
+  readonly name: string;
+  // `language` is the BCP 47 language the text will be spoken in, e.g. 'de-DE'
+  apply(text: string, language: string): string;
+}
+
+/**
+ * Runs text through a list of steps before it is spoken. The chat panel shows the text as written;
+ * only what the voice says goes through the normalizer.
+ */
+export class TextNormalizer {
+  private steps: NormalizationStep[];
+
+  constructor(steps: NormalizationStep[] = []) {
+    this.steps = steps.slice();
+  }
+
+  public normalize(text: string, language: string): string {
+    const normalized = this.steps.reduce((current, step) => {
+      try {
+        return step.apply(current, language);
+      } catch (error) {
+        // A broken step shouldn't silence the reply
+        console.error(`Text normalization step ${step.name} failed:`, error);
+        return current;
+      }
+    }, text);
+    // Removed markup and emoji leave gaps, also before punctuation
+    return normalized.replace(/\s+/g, ' ').replace(/ ([,.!?;:])/g, '$1').trim();
+  }
+
+  /**
+   * Replace the step with the same name, or add it after the others
+   */
+  public setStep(step: NormalizationStep): void {
+    const index = this.steps.findIndex(existing => existing.name === step.name);
+    if (index >= 0) {
+      this.steps[index] = step;
+    } else {
+      this.steps.push(step);
+    }
+  }
+
+  public removeStep(name: string): void {
+    this.steps = this.steps.filter(step => step.name !== name);
+  }
+
+  public getStepNames(): string[] {
+    return this.steps.map(step => step.name);
+  }
+}
+
+/**
+ * The normalizer replies are spoken with: Markdown and other markup are stripped, numbers, dates and units
+ * are written out for the language, then the character's lexicon fixes words voices get wrong
+ */
+export function createTextNormalizer(lexicon: Lexicon = {}): TextNormalizer {
+  return new TextNormalizer([stripMarkup, expandNumbers, createLexiconStep(lexicon)]);
+}
@@ -0,0 +1,40 @@
+import { NormalizationStep } from './TextNormalizer';
+
+/**
+ * Words voices tend to mispronounce, and how to spell them so they come out right,
+ * e.g. { "Dashscope": "Dash Scope" }. Words are matched whole and regardless of case.
+ */
+export type Lexicon = Record<string, string>;
+
+export const LEXICON_STEP = 'lexicon';
+
+// Letters and digits that continue a word in the scripts written with spaces
+const WORD_CHARACTER = 'A-Za-z0-9\\u00C0-\\u024F\\u0370-\\u03FF\\u0400-\\u04FF';
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function createLexiconStep(lexicon: Lexicon): NormalizationStep {
+  // Longest first, so "Machinarium Mark II" wins over "Machinarium"
+  const words = Object.keys(lexicon)
+    .filter(word => word.trim())
+    .sort((a, b) => b.length - a.length);
+  const pattern = words.length > 0
+    ? new RegExp(
+      `(^|[^${WORD_CHARACTER}])(${words.map(escapeRegExp).join('|')})(?=$|[^${WORD_CHARACTER}])`,
+      'gi'
+    )
+    : null;
+  const spellings: Record<string, string> = {};
+  words.forEach(word => {
+    spellings[word.toLowerCase()] = lexicon[word];
+  });
+
+  return {
+    name: LEXICON_STEP,
+    apply: (text) => pattern
+      ? text.replace(pattern, (match, before: string, word: string) => before + spellings[word.toLowerCase()])
+      : text
+  };
+}
@@ -0,0 +1,49 @@
+import { NormalizationStep } from './TextNormalizer';
+
+// Emoji, their skin tone and gender modifiers, and flags; built at runtime because the pattern needs the `u` flag
+function createEmojiPattern(): RegExp {
+  try {
+    return new RegExp('[\\p{Extended_Pictographic}\\p{Emoji_Modifier}\\p{Regional_Indicator}\\u200D\\uFE0F\\u20E3]', 'gu');
+  } catch (error) {
+    // Browsers without Unicode property escapes: the common emoji blocks
+    return /(?:\uD83C[\uDDE6-\uDDFF\uDF00-\uDFFF]|\uD83D[\uDC00-\uDEFF]|\uD83E[\uDD00-\uDEFF]|[\u2600-\u27BF\u200D\uFE0F])/g;
+  }
+}
+
+const EMOJI = createEmojiPattern();
+
+// Reduce a link to its site name, e.g. 'https://www.example.com/docs?id=1' to 'example.com'
+function describeUrl(url: string): string {
+  const host = url.replace(/^[a-z]+:\/\//i, '').split(/[/?#]/)[0];
+  return host.replace(/^www\./i, '');
+}
+
+/**
+ * Removes what shouldn't be read aloud: Markdown markers, code, HTML tags, emoji and the bulk of URLs
+ */
+export const stripMarkup: NormalizationStep = {
+  name: 'markup',
+  apply: (text) => text
+    // Code blocks can't be read out sensibly; inline code keeps its words
+    .replace(/```[\s\S]*?(```|$)/g, ' ')
+    .replace(/`([^`]*)`/g, '$1')
+    // Images and links say their text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/<(https?:\/\/[^>\s]+)>/gi, (match, url: string) => describeUrl(url))
+    .replace(/\bhttps?:\/\/[^\s<>()]+[^\s<>().,;:!?'"]/gi, describeUrl)
+    .replace(/<\/?[a-z][^>]*>/gi, ' ')
+    // Table separator rows, then the cell borders
+    .replace(/^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/gm, ' ')
+    .replace(/^\s*\|(.*)\|\s*$/gm, (match, cells: string) => cells.split('|').map(cell => cell.trim()).join(', '))
+    // Headings, quotes, bullets and horizontal rules at the start of a line; numbered steps keep their numbers
+    .replace(/^\s*(#{1,6}|>+)\s*/gm, '')
+    .replace(/^\s*([-*_]\s*){3,}$/gm, ' ')
+    .replace(/^\s*[-*+•]\s+/gm, '')
+    // Emphasis and strikethrough; underscores inside words (snake_case) are left alone
+    .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '$2')
+    .replace(/\*(?=\S)([^*]*?\S)\*/g, '$1')
+    .replace(/(^|[^\w])_(?=\S)([^_]*?\S)_(?![\w])/g, '$1$2')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '$1')
+    .replace(EMOJI, '')
+};
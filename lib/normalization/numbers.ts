@@ -0,0 +1,210 @@
+import { NormalizationStep } from './TextNormalizer';
+
+// The few number words Intl doesn't provide, by language
+const NUMBER_WORDS: Record<string, { to: string; minus: string }> = {
+  en: { to: 'to', minus: 'minus' },
+  de: { to: 'bis', minus: 'minus' },
+  es: { to: 'a', minus: 'menos' },
+  fr: { to: 'à', minus: 'moins' },
+  hi: { to: 'से', minus: 'ऋण' },
+  id: { to: 'sampai', minus: 'minus' },
+  it: { to: 'a', minus: 'meno' },
+  ja: { to: 'から', minus: 'マイナス' },
+  ko: { to: '에서', minus: '마이너스' },
+  nl: { to: 'tot', minus: 'min' },
+  pl: { to: 'do', minus: 'minus' },
+  pt: { to: 'a', minus: 'menos' },
+  ru: { to: 'до', minus: 'минус' },
+  zh: { to: '到', minus: '负' }
+};
+
+// Unit symbols and the Intl unit they stand for; longer symbols are matched first
+const UNITS: Record<string, string> = {
+  'km/h': 'kilometer-per-hour',
+  'm/s': 'meter-per-second',
+  mph: 'mile-per-hour',
+  km: 'kilometer',
+  cm: 'centimeter',
+  mm: 'millimeter',
+  m: 'meter',
+  mi: 'mile',
+  ft: 'foot',
+  kg: 'kilogram',
+  g: 'gram',
+  lbs: 'pound',
+  lb: 'pound',
+  oz: 'ounce',
+  ml: 'milliliter',
+  mL: 'milliliter',
+  l: 'liter',
+  L: 'liter',
+  '°C': 'celsius',
+  '°F': 'fahrenheit',
+  '%': 'percent',
+  kB: 'kilobyte',
+  KB: 'kilobyte',
+  MB: 'megabyte',
+  GB: 'gigabyte',
+  TB: 'terabyte',
+  ms: 'millisecond',
+  sec: 'second',
+  min: 'minute',
+  hrs: 'hour',
+  hr: 'hour'
+};
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  'US$': 'USD',
+  '$': 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '₹': 'INR',
+  '¥': 'JPY'
+};
+
+// Digits with optional thousands separators and decimals, in either convention
+const NUMBER = '\\d+(?:[.,]\\d+)*';
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function alternatives(symbols: string[]): string {
+  return symbols
+    .slice()
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|');
+}
+
+const UNIT_PATTERN = new RegExp(`([-−]?)(${NUMBER})\\s?(${alternatives(Object.keys(UNITS))})(?![A-Za-z0-9])`, 'g');
+const CURRENCY_BEFORE_PATTERN = new RegExp(`(${alternatives(Object.keys(CURRENCY_SYMBOLS))})\\s?(${NUMBER})`, 'g');
+const CURRENCY_AFTER_PATTERN = new RegExp(`(${NUMBER})\\s?([€£₹]|USD|EUR|GBP|JPY|CNY|INR)(?![A-Za-z])`, 'g');
+const ISO_DATE_PATTERN = /\b(\d{4})-(\d{2})-(\d{2})\b/g;
+const RANGE_PATTERN = new RegExp(`(${NUMBER})(\\s?[–—]\\s?|-)(${NUMBER})`, 'g');
+const NEGATIVE_PATTERN = /(^|[\s(])[-−](\d)/g;
+
+function numberWords(language: string): { to: string; minus: string } {
+  return NUMBER_WORDS[language.split('-')[0]] || NUMBER_WORDS.en;
+}
+
+function getDecimalSeparator(language: string): string {
+  const decimal = new Intl.NumberFormat(language).formatToParts(1.5).find(part => part.type === 'decimal');
+  return decimal ? decimal.value : '.';
+}
+
+/**
+ * Read a number written with either convention. A lone separator followed by three digits is taken as
+ * a thousands separator only where it isn't the decimal point: '1.500' is 1500 in German and 1.5 in English.
+ */
+export function parseNumber(text: string, language: string): { value: number; decimals: number } {
+  const lastDot = text.lastIndexOf('.');
+  const lastComma = text.lastIndexOf(',');
+  let decimalIndex = -1;
+
+  if (lastDot >= 0 && lastComma >= 0) {
+    decimalIndex = Math.max(lastDot, lastComma);
+  } else if (lastDot >= 0 || lastComma >= 0) {
+    const separator = lastDot >= 0 ? '.' : ',';
+    const parts = text.split(separator);
+    const grouped = parts.length > 2 || (parts[1].length === 3 && separator !== getDecimalSeparator(language));
+    if (!grouped) decimalIndex = text.lastIndexOf(separator);
+  }
+
+  const whole = (decimalIndex >= 0 ? text.slice(0, decimalIndex) : text).replace(/[.,]/g, '');
+  const fraction = decimalIndex >= 0 ? text.slice(decimalIndex + 1) : '';
+  return { value: parseFloat(fraction ? `${whole}.${fraction}` : whole), decimals: fraction.length };
+}
+
+// Format with Intl, or give null where the browser doesn't support the options (e.g. older unit support)
+function format(language: string, options: Intl.NumberFormatOptions, value: number): string | null {
+  try {
+    return new Intl.NumberFormat(language, options).format(value);
+  } catch (error) {
+    return null;
+  }
+}
+
+function expandDates(text: string, language: string): string {
+  return text.replace(ISO_DATE_PATTERN, (match, year: string, month: string, day: string) => {
+    const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+    if (date.getUTCMonth() !== Number(month) - 1 || date.getUTCDate() !== Number(day)) return match;
+    try {
+      return new Intl.DateTimeFormat(language, { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' })
+        .format(date);
+    } catch (error) {
+      return match;
+    }
+  });
+}
+
+function expandCurrencies(text: string, language: string): string {
+  const say = (match: string, amount: string, currency: string) => {
+    const { value, decimals } = parseNumber(amount, language);
+    return format(language, {
+      style: 'currency',
+      currency,
+      currencyDisplay: 'name',
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals
+    }, value) || match;
+  };
+  // ¥ is the yuan in Chinese text and the yen elsewhere
+  const symbolCurrency = (symbol: string) =>
+    symbol === '¥' && language.split('-')[0] === 'zh' ? 'CNY' : CURRENCY_SYMBOLS[symbol];
+
+  return text
+    .replace(CURRENCY_BEFORE_PATTERN, (match, symbol: string, amount: string) => say(match, amount, symbolCurrency(symbol)))
+    .replace(CURRENCY_AFTER_PATTERN, (match, amount: string, symbol: string) =>
+      say(match, amount, symbol.length === 3 ? symbol : symbolCurrency(symbol)));
+}
+
+// '10-20' and '10–20' become '10 to 20'; hyphenated runs like phone numbers are left alone
+function expandRanges(text: string, language: string): string {
+  const { to } = numberWords(language);
+  return text.replace(RANGE_PATTERN, (match, from: string, dash: string, until: string, offset: number) => {
+    const before = text.charAt(offset - 1);
+    const after = text.charAt(offset + match.length);
+    if (/[\d\-–]/.test(before) || /[\d\-–]/.test(after)) return match;
+    // With a plain hyphen, '555-1234' is more likely a phone number than a range
+    if (dash === '-' && from.length !== until.length && from.length > 2) return match;
+    return `${from} ${to} ${until}`;
+  });
+}
+
+function expandUnits(text: string, language: string): string {
+  const { minus } = numberWords(language);
+  return text.replace(UNIT_PATTERN, (match, sign: string, amount: string, symbol: string, offset: number) => {
+    const before = text.charAt(offset - 1);
+    // Part of a name like 'A4 m' rather than a measurement
+    if (!sign && /[A-Za-z]/.test(before)) return match;
+
+    const { value, decimals } = parseNumber(amount, language);
+    const spoken = format(language, {
+      style: 'unit',
+      unit: UNITS[symbol],
+      unitDisplay: 'long',
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals
+    }, value);
+    if (!spoken) return match;
+    // A dash right after a word or number is a hyphen, not a minus sign
+    if (sign && /\w/.test(before)) return `${sign}${spoken}`;
+    return sign ? `${minus} ${spoken}` : spoken;
+  });
+}
+
+/**
+ * Writes out what voices read badly: ISO dates in the language's long form, amounts of money with the
+ * currency's name, measurements with the unit's full name, ranges with "to" and negative numbers with "minus"
+ */
+export const expandNumbers: NormalizationStep = {
+  name: 'numbers',
+  apply: (text, language) => {
+    const dated = expandDates(text, language);
+    const ranged = expandRanges(expandCurrencies(dated, language), language);
+    const measured = expandUnits(ranged, language);
+    return measured.replace(NEGATIVE_PATTERN, (match, before: string, digit: string) =>
+      `${before}${numberWords(language).minus} ${digit}`);
+  }
+};
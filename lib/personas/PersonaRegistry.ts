@@ -0,0 +1,79 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { PersonaDefinition, PersonaValidationError, validatePersona } from './schema';
+
+export const PERSONAS_DIRECTORY = path.join(process.cwd(), 'personas');
+
+/**
+ * The characters defined in /personas, loaded and validated on the server (at build time for static pages).
+ * Adding a character means adding a JSON file there.
+ */
+export class PersonaRegistry {
+  private personas: PersonaDefinition[];
+
+  constructor(personas: PersonaDefinition[]) {
+    this.personas = personas;
+  }
+
+  /**
+   * Load every *.json file in the directory, failing on the first invalid or conflicting definition
+   */
+  public static async fromDirectory(directory: string = PERSONAS_DIRECTORY): Promise<PersonaRegistry> {
+    const files = (await fs.readdir(directory)).filter(file => file.endsWith('.json')).sort();
+    const personas: PersonaDefinition[] = [];
+
+    for (const file of files) {
+      const content = await fs.readFile(path.join(directory, file), 'utf8');
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(content);
+      } catch (error) {
+        throw new PersonaValidationError(file, [`the file is not valid JSON (${(error as Error).message})`]);
+      }
+
+      const persona = validatePersona(parsed, file);
+      const problems: string[] = [];
+      if (`${persona.id}.json` !== file) {
+        problems.push(`"id" must match the file name (expected "${file.replace(/\.json$/, '')}")`);
+      }
+      personas.forEach((other) => {
+        if (other.id === persona.id) problems.push(`"id" is already used by another persona`);
+        if (other.route === persona.route) problems.push(`"route" ${persona.route} is already used by ${other.id}`);
+      });
+      if (problems.length > 0) {
+        throw new PersonaValidationError(file, problems);
+      }
+
+      personas.push(persona);
+    }
+
+    return new PersonaRegistry(personas);
+  }
+
+  public list(): PersonaDefinition[] {
+    return [...this.personas];
+  }
+
+  public get(id: string): PersonaDefinition | null {
+    return this.personas.find(persona => persona.id === id) || null;
+  }
+
+  public findByRoute(route: string): PersonaDefinition | null {
+    return this.personas.find(persona => persona.route === route) || null;
+  }
+}
+
+let sharedRegistry: Promise<PersonaRegistry> | null = null;
+
+/**
+ * The registry for /personas, loaded once per server process for the API routes; a failed load is retried on the next call
+ */
+export function getPersonaRegistry(): Promise<PersonaRegistry> {
+  if (!sharedRegistry) {
+    sharedRegistry = PersonaRegistry.fromDirectory().catch((error) => {
+      sharedRegistry = null;
+      throw error;
+    });
+  }
+  return sharedRegistry;
+}
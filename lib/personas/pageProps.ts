@@ -0,0 +1,50 @@
+import { PersonaRegistry } from './PersonaRegistry';
+import { PersonaDefinition } from './schema';
+import { ThemeName } from './themes';
+
+// Navigation link to another character's page
+export interface PersonaLink {
+  name: string;
+  route: string;
+  theme: ThemeName;
+}
+
+export interface PersonaPageProps {
+  persona: PersonaDefinition;
+  // The home page character, when this isn't the home page
+  home: PersonaLink | null;
+  // The other characters with their own pages
+  others: PersonaLink[];
+}
+
+function toLink(persona: PersonaDefinition): PersonaLink {
+  return { name: persona.name, route: persona.route, theme: persona.theme };
+}
+
+/**
+ * Props for the page at `route`, or null if no character lives there (server-side only)
+ */
+export async function getPersonaPageProps(route: string): Promise<PersonaPageProps | null> {
+  const registry = await PersonaRegistry.fromDirectory();
+  const persona = registry.findByRoute(route);
+  if (!persona) return null;
+
+  const home = persona.route === '/' ? null : registry.findByRoute('/');
+  return {
+    persona,
+    home: home ? toLink(home) : null,
+    others: registry.list()
+      .filter(other => other.route !== '/' && other.id !== persona.id)
+      .map(toLink)
+  };
+}
+
+/**
+ * Routes of the character pages other than the home page, e.g. 'beaver' for '/beaver'
+ */
+export async function getPersonaRoutes(): Promise<string[]> {
+  const registry = await PersonaRegistry.fromDirectory();
+  return registry.list()
+    .filter(persona => persona.route !== '/')
+    .map(persona => persona.route.slice(1));
+}
@@ -0,0 +1,210 @@
+import { LLMOptions } from '../llm/LLMProvider';
+import { BUILTIN_TOOL_GROUPS, BuiltinToolGroup } from '../tools/builtins';
+import { THEMES, ThemeName } from './themes';
+import { Lexicon } from '../normalization/lexicon';
+import { PROSODY_RANGES, Prosody, ProsodySetting } from '../tts/prosody';
+
+export const AVATAR_TYPES = ['TalkingHead', 'Beaver', 'ExplorerBeaver'] as const;
+
+// The 3D model class a character is rendered with
+export type AvatarType = typeof AVATAR_TYPES[number];
+
+/**
+ * A character, as defined by a file in /personas.
+ * Definitions are passed to pages as props, so optional fields are left out rather than set to undefined.
+ */
+export interface PersonaDefinition {
+  // Used for stored sessions, memories and the knowledge/<id> folder; must match the file name
+  id: string;
+  name: string;
+  // Page path, e.g. '/' or '/beaver'
+  route: string;
+  // Page title and meta description
+  title: string;
+  description: string;
+  avatar: AvatarType;
+  systemPrompt: string;
+  // Shown in the chat panel before the first reply
+  greeting: string;
+  voice: {
+    // BCP 47 language the character listens and speaks in by default, e.g. 'en-US'
+    language: string;
+    // Browser voice to prefer when it is available
+    name?: string;
+    // How the character speaks, e.g. faster and higher for an excitable one; unset settings are 1
+    prosody?: Partial<Prosody>;
+  };
+  // Model parameters, overriding the server defaults
+  llm?: Pick<LLMOptions, 'model' | 'temperature' | 'maxTokens'>;
+  // Built-in tools the character may use
+  tools?: BuiltinToolGroup[];
+  // Names the character answers to in wake-word mode; defaults to its name
+  wakeWords?: string[];
+  // Words voices mispronounce and how to spell them to be said right, e.g. { "Dashscope": "Dash Scope" }
+  lexicon?: Lexicon;
+  theme: ThemeName;
+}
+
+const PERSONA_KEYS = [
+  'id', 'name', 'route', 'title', 'description', 'avatar', 'systemPrompt', 'greeting', 'voice', 'llm', 'tools', 'wakeWords', 'lexicon', 'theme'
+];
+
+const VOICE_KEYS = ['language', 'name', 'prosody'];
+
+/**
+ * Thrown when a persona file can't be read or doesn't match the schema, listing every problem found
+ */
+export class PersonaValidationError extends Error {
+  public readonly source: string;
+  public readonly problems: string[];
+
+  constructor(source: string, problems: string[]) {
+    super(`Invalid persona ${source}:\n- ${problems.join('\n- ')}`);
+    this.name = 'PersonaValidationError';
+    this.source = source;
+    this.problems = problems;
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, PersonaValidationError.prototype);
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+/**
+ * Check a parsed persona file and return the definition.
+ * `systemPrompt` may be an array of sentences, which are joined with spaces.
+ */
+export function validatePersona(value: unknown, source: string): PersonaDefinition {
+  if (!isObject(value)) {
+    throw new PersonaValidationError(source, ['the file must contain a JSON object']);
+  }
+
+  const problems: string[] = [];
+  const requireString = (key: string) => {
+    if (!isNonEmptyString(value[key])) problems.push(`"${key}" must be a non-empty string`);
+  };
+
+  Object.keys(value)
+    .filter(key => PERSONA_KEYS.indexOf(key) < 0)
+    .forEach(key => problems.push(`unknown field "${key}"`));
+
+  ['id', 'name', 'title', 'description', 'greeting'].forEach(requireString);
+  if (isNonEmptyString(value.id) && !/^[a-z0-9-]+$/.test(value.id)) {
+    problems.push('"id" may only contain lowercase letters, digits and dashes');
+  }
+  if (typeof value.route !== 'string' || !/^\/[a-z0-9-]*$/.test(value.route)) {
+    problems.push('"route" must be "/" or a path like "/beaver"');
+  }
+  if (AVATAR_TYPES.indexOf(value.avatar as AvatarType) < 0) {
+    problems.push(`"avatar" must be one of ${AVATAR_TYPES.join(', ')}`);
+  }
+  if (!Object.prototype.hasOwnProperty.call(THEMES, value.theme as string)) {
+    problems.push(`"theme" must be one of ${Object.keys(THEMES).join(', ')}`);
+  }
+
+  const prompt = value.systemPrompt;
+  const systemPrompt = Array.isArray(prompt) && prompt.every(isNonEmptyString) ? prompt.join(' ') : prompt;
+  if (!isNonEmptyString(systemPrompt)) {
+    problems.push('"systemPrompt" must be a non-empty string or an array of strings');
+  }
+
+  const voice = value.voice;
+  if (!isObject(voice)) {
+    problems.push('"voice" must be an object with a "language"');
+  } else {
+    Object.keys(voice)
+      .filter(key => VOICE_KEYS.indexOf(key) < 0)
+      .forEach(key => problems.push(`unknown field "voice.${key}"`));
+    if (typeof voice.language !== 'string' || !/^[a-z]{2}-[A-Z]{2}$/.test(voice.language)) {
+      problems.push('"voice.language" must be a language tag like "en-US"');
+    }
+    if (voice.name !== undefined && !isNonEmptyString(voice.name)) {
+      problems.push('"voice.name" must be a non-empty string');
+    }
+    const prosody = voice.prosody;
+    if (prosody !== undefined && !isObject(prosody)) {
+      problems.push('"voice.prosody" must be an object');
+    } else if (prosody !== undefined) {
+      Object.keys(prosody).forEach(setting => {
+        if (!Object.prototype.hasOwnProperty.call(PROSODY_RANGES, setting)) {
+          problems.push(`unknown field "voice.prosody.${setting}"; it may only set ${Object.keys(PROSODY_RANGES).join(', ')}`);
+          return;
+        }
+        const range = PROSODY_RANGES[setting as ProsodySetting];
+        const amount = prosody[setting];
+        if (!(typeof amount === 'number' && amount >= range.min && amount <= range.max)) {
+          problems.push(`"voice.prosody.${setting}" must be a number from ${range.min} to ${range.max}`);
+        }
+      });
+    }
+  }
+
+  const llm = value.llm;
+  if (llm !== undefined) {
+    if (!isObject(llm)) {
+      problems.push('"llm" must be an object');
+    } else {
+      if (llm.model !== undefined && !isNonEmptyString(llm.model)) {
+        problems.push('"llm.model" must be a non-empty string');
+      }
+      if (llm.temperature !== undefined && !(typeof llm.temperature === 'number' && llm.temperature >= 0 && llm.temperature <= 2)) {
+        problems.push('"llm.temperature" must be a number from 0 to 2');
+      }
+      if (llm.maxTokens !== undefined && !(typeof llm.maxTokens === 'number' && llm.maxTokens > 0 && Math.floor(llm.maxTokens) === llm.maxTokens)) {
+        problems.push('"llm.maxTokens" must be a positive integer');
+      }
+    }
+  }
+
+  const tools = value.tools;
+  if (tools !== undefined && !(Array.isArray(tools) && tools.every(tool => BUILTIN_TOOL_GROUPS.indexOf(tool) >= 0))) {
+    problems.push(`"tools" must be an array of ${BUILTIN_TOOL_GROUPS.join(', ')}`);
+  }
+
+  const wakeWords = value.wakeWords;
+  if (wakeWords !== undefined && !(Array.isArray(wakeWords) && wakeWords.length > 0 && wakeWords.every(isNonEmptyString))) {
+    problems.push('"wakeWords" must be a non-empty array of strings');
+  }
+
+  const lexicon = value.lexicon;
+  if (lexicon !== undefined && !(isObject(lexicon) && Object.keys(lexicon).every(word =>
+    isNonEmptyString(word) && isNonEmptyString(lexicon[word])
+  ))) {
+    problems.push('"lexicon" must be an object mapping words to how they should be spelled to be said right');
+  }
+
+  if (problems.length > 0) {
+    throw new PersonaValidationError(source, problems);
+  }
+
+  const definition: PersonaDefinition = {
+    id: value.id as string,
+    name: value.name as string,
+    route: value.route as string,
+    title: value.title as string,
+    description: value.description as string,
+    avatar: value.avatar as AvatarType,
+    systemPrompt: systemPrompt as string,
+    greeting: value.greeting as string,
+    voice: { language: (voice as Record<string, string>).language },
+    theme: value.theme as ThemeName
+  };
+  if (isObject(voice) && voice.name) definition.voice.name = voice.name as string;
+  if (isObject(voice) && voice.prosody !== undefined) definition.voice.prosody = voice.prosody as Partial<Prosody>;
+  if (isObject(llm)) {
+    definition.llm = {};
+    if (llm.model !== undefined) definition.llm.model = llm.model as string;
+    if (llm.temperature !== undefined) definition.llm.temperature = llm.temperature as number;
+    if (llm.maxTokens !== undefined) definition.llm.maxTokens = llm.maxTokens as number;
+  }
+  if (tools !== undefined) definition.tools = tools as BuiltinToolGroup[];
+  if (wakeWords !== undefined) definition.wakeWords = wakeWords as string[];
+  if (lexicon !== undefined) definition.lexicon = lexicon as Lexicon;
+  return definition;
+}
@@ -0,0 +1,80 @@
+// Tailwind classes for each part of an agent's UI.
+// Class names are spelled out in full so Tailwind finds them when it scans this file.
+export interface PersonaTheme {
+  // Chat panel background
+  panel: string;
+  // Boxes inside the chat panel and the conversations sidebar
+  surface: string;
+  // Buttons and panels floating over the 3D view
+  control: string;
+  // Reply box and buttons
+  accent: string;
+  accentHover: string;
+  // Divider under the chat panel heading
+  border: string;
+  // Track of the rotation speed slider
+  slider: string;
+}
+
+export const THEMES = {
+  blue: {
+    panel: 'bg-blue-700',
+    surface: 'bg-blue-800',
+    control: 'bg-blue-600',
+    accent: 'bg-blue-600',
+    accentHover: 'hover:bg-blue-700',
+    border: 'border-blue-600',
+    slider: 'bg-blue-200'
+  },
+  amber: {
+    panel: 'bg-amber-700',
+    surface: 'bg-amber-800',
+    control: 'bg-amber-700',
+    accent: 'bg-amber-600',
+    accentHover: 'hover:bg-amber-700',
+    border: 'border-amber-600',
+    slider: 'bg-amber-200'
+  },
+  teal: {
+    panel: 'bg-teal-700',
+    surface: 'bg-teal-800',
+    control: 'bg-teal-700',
+    accent: 'bg-teal-600',
+    accentHover: 'hover:bg-teal-700',
+    border: 'border-teal-600',
+    slider: 'bg-teal-200'
+  },
+  emerald: {
+    panel: 'bg-emerald-700',
+    surface: 'bg-emerald-800',
+    control: 'bg-emerald-700',
+    accent: 'bg-emerald-600',
+    accentHover: 'hover:bg-emerald-700',
+    border: 'border-emerald-600',
+    slider: 'bg-emerald-200'
+  },
+  violet: {
+    panel: 'bg-violet-700',
+    surface: 'bg-violet-800',
+    control: 'bg-violet-700',
+    accent: 'bg-violet-600',
+    accentHover: 'hover:bg-violet-700',
+    border: 'border-violet-600',
+    slider: 'bg-violet-200'
+  },
+  rose: {
+    panel: 'bg-rose-700',
+    surface: 'bg-rose-800',
+    control: 'bg-rose-700',
+    accent: 'bg-rose-600',
+    accentHover: 'hover:bg-rose-700',
+    border: 'border-rose-600',
+    slider: 'bg-rose-200'
+  }
+};
+
+export type ThemeName = keyof typeof THEMES;
+
+export function getTheme(name: ThemeName): PersonaTheme {
+  return THEMES[name] || THEMES.blue;
+}
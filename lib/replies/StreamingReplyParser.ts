@@ -0,0 +1,136 @@
+// Start of the string value holding the spoken text
+const TEXT_KEY = /"text"\s*:\s*"/;
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  n: '\n',
+  t: '\t',
+  r: '\r',
+  b: '\b',
+  f: '\f'
+};
+
+/**
+ * Pulls the spoken text out of a structured reply while it is still being streamed.
+ * The model is asked for `{"emotion": ..., "text": "..."}`; `push` returns the characters of the
+ * "text" value as soon as they arrive, so they can be shown and spoken before the JSON is complete.
+ * Replies that don't start with a JSON object are passed through unchanged as plain text.
+ */
+export class StreamingReplyParser {
+  private buffer = '';
+  private mode: 'pending' | 'json' | 'plain' = 'pending';
+  // Index in the buffer of the next character of the text value, or -1 until it has been found
+  private position = -1;
+  // The JSON before the text value, e.g. the emotion, once the text value has been found
+  private preamble: string | null = null;
+  private textComplete = false;
+  private text = '';
+
+  /**
+   * Add a chunk of the raw reply and return the spoken text it completes (possibly empty)
+   */
+  public push(chunk: string): string {
+    this.buffer += chunk;
+
+    if (this.mode === 'pending') {
+      this.mode = this.detectMode();
+      if (this.mode === 'plain') {
+        return this.emit(this.buffer.replace(/^\s+/, ''));
+      }
+    }
+
+    if (this.mode === 'plain') return this.emit(chunk);
+    if (this.mode === 'json') return this.emit(this.decodeText());
+    return '';
+  }
+
+  /**
+   * All spoken text extracted so far
+   */
+  public getText(): string {
+    return this.text;
+  }
+
+  /**
+   * The raw JSON that came before the text value, or null until the text has started (and for plain text)
+   */
+  public getPreamble(): string | null {
+    return this.preamble;
+  }
+
+  /**
+   * Whether the reply turned out not to be JSON
+   */
+  public isPlainText(): boolean {
+    return this.mode === 'plain';
+  }
+
+  private emit(text: string): string {
+    this.text += text;
+    return text;
+  }
+
+  // Decide from the first characters whether the reply is JSON, optionally inside a ``` fence
+  private detectMode(): 'pending' | 'json' | 'plain' {
+    let rest = this.buffer.replace(/^\s+/, '');
+    if (!rest) return 'pending';
+
+    if (rest.charAt(0) === '`') {
+      if (rest.length < 3) return '```'.indexOf(rest) === 0 ? 'pending' : 'plain';
+      if (rest.indexOf('```') !== 0) return 'plain';
+
+      // Wait for the end of the fence line (e.g. ```json) before looking at the content
+      const newline = rest.indexOf('\n');
+      if (newline < 0) return 'pending';
+      rest = rest.slice(newline + 1).replace(/^\s+/, '');
+      if (!rest) return 'pending';
+    }
+
+    return rest.charAt(0) === '{' ? 'json' : 'plain';
+  }
+
+  // Decode as much of the "text" string value as has arrived
+  private decodeText(): string {
+    if (this.textComplete) return '';
+
+    if (this.position < 0) {
+      const match = TEXT_KEY.exec(this.buffer);
+      if (!match) return '';
+      this.position = match.index + match[0].length;
+      this.preamble = this.buffer.slice(0, match.index);
+    }
+
+    let decoded = '';
+    while (this.position < this.buffer.length) {
+      const char = this.buffer.charAt(this.position);
+      if (char === '"') {
+        this.textComplete = true;
+        break;
+      }
+      if (char !== '\\') {
+        decoded += char;
+        this.position++;
+        continue;
+      }
+
+      // Wait for the rest of an escape sequence that was split across chunks
+      const escape = this.readEscape(this.position);
+      if (!escape) break;
+      decoded += escape.value;
+      this.position += escape.length;
+    }
+    return decoded;
+  }
+
+  private readEscape(index: number): { value: string; length: number } | null {
+    const next = this.buffer.charAt(index + 1);
+    if (!next) return null;
+
+    if (next === 'u') {
+      const hex = this.buffer.slice(index + 2, index + 6);
+      if (hex.length < 4) return null;
+      const code = parseInt(hex, 16);
+      return { value: isNaN(code) ? '' : String.fromCharCode(code), length: 6 };
+    }
+    return { value: SIMPLE_ESCAPES[next] || next, length: 2 };
+  }
+}
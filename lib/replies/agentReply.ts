@@ -0,0 +1,109 @@
+import { AgentReply, EmotionType, GestureType } from '../types';
+import { StreamingReplyParser } from './StreamingReplyParser';
+
+export const EMOTIONS: EmotionType[] = ['neutral', 'happy', 'sad', 'angry', 'surprised', 'thinking'];
+export const GESTURES: GestureType[] = ['nod', 'shake', 'tilt', 'bounce'];
+
+const DEFAULT_INTENSITY = 0.6;
+const MAX_GESTURES = 3;
+
+/**
+ * Instructions sent with every request that expects an annotated reply.
+ * "text" comes last so the emotion is known before the avatar starts speaking.
+ */
+export const REPLY_FORMAT_PROMPT =
+  'Always answer with a single JSON object and nothing else, in this shape: ' +
+  '{"emotion": "neutral" | "happy" | "sad" | "angry" | "surprised" | "thinking", ' +
+  '"intensity": number from 0 to 1, ' +
+  '"gestures": array of zero to three of "nod", "shake", "tilt", "bounce", ' +
+  '"sources": numbers of the knowledge base passages you used, if you were given any, ' +
+  '"text": what you say out loud}. ' +
+  'Choose the emotion you are expressing in your answer, not one the user mentioned. ' +
+  'Put everything you want to say in "text" as plain spoken sentences.';
+
+/**
+ * Check a parsed reply, dropping unknown emotions and gestures instead of rejecting the reply
+ */
+export function validateAgentReply(value: unknown): AgentReply | null {
+  if (!value || typeof value !== 'object') return null;
+
+  const reply = value as Record<string, unknown>;
+  if (typeof reply.text !== 'string') return null;
+
+  const emotion = EMOTIONS.includes(reply.emotion as EmotionType) ? reply.emotion as EmotionType : 'neutral';
+  const intensity = typeof reply.intensity === 'number' && isFinite(reply.intensity)
+    ? Math.min(1, Math.max(0, reply.intensity))
+    : DEFAULT_INTENSITY;
+  const gestures = Array.isArray(reply.gestures)
+    ? reply.gestures.filter((gesture): gesture is GestureType => GESTURES.includes(gesture as GestureType)).slice(0, MAX_GESTURES)
+    : [];
+
+  const agentReply: AgentReply = { text: reply.text.trim(), emotion, intensity, gestures };
+  if (Array.isArray(reply.sources)) {
+    agentReply.citations = reply.sources.filter(
+      (source): source is number => typeof source === 'number' && source >= 1 && Math.floor(source) === source
+    );
+  }
+  return agentReply;
+}
+
+// The emotion named in a possibly incomplete JSON reply
+function readEmotion(json: string): EmotionType {
+  const match = /"emotion"\s*:\s*"([a-z]+)"/.exec(json);
+  return match && EMOTIONS.includes(match[1] as EmotionType) ? match[1] as EmotionType : 'neutral';
+}
+
+/**
+ * The emotion and intensity a streamed reply gave before its text, or null until the text has started.
+ * Lets the voice take on the emotion from the first sentence rather than once the reply is complete.
+ */
+export function readStreamedEmotion(parser: StreamingReplyParser): { emotion: EmotionType; intensity: number } | null {
+  const preamble = parser.getPreamble();
+  if (preamble === null) return null;
+
+  const intensityMatch = /"intensity"\s*:\s*(-?\d+(?:\.\d+)?)/.exec(preamble);
+  const intensity = intensityMatch ? Math.min(1, Math.max(0, parseFloat(intensityMatch[1]))) : DEFAULT_INTENSITY;
+  return { emotion: readEmotion(preamble), intensity };
+}
+
+/**
+ * Find the JSON object in a reply, allowing for a surrounding ``` fence
+ */
+function extractJsonObject(content: string): string | null {
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  if (start < 0 || end < start) return null;
+
+  // Only treat the reply as JSON if nothing but a fence comes before the object
+  if (!/^\s*(```[a-z]*\s*)?$/i.test(content.slice(0, start))) return null;
+  return content.slice(start, end + 1);
+}
+
+/**
+ * Turn the model's raw reply into an AgentReply.
+ * Malformed JSON keeps whatever spoken text can be recovered; plain text is used as is with a neutral expression.
+ */
+export function parseAgentReply(content: string): AgentReply {
+  const json = extractJsonObject(content);
+  if (json) {
+    try {
+      const reply = validateAgentReply(JSON.parse(json));
+      if (reply) return reply;
+    } catch (error) {
+      console.warn('Reply is not valid JSON, recovering the spoken text');
+    }
+  }
+
+  const parser = new StreamingReplyParser();
+  parser.push(content);
+
+  // A reply cut off after the emotion still carries it
+  const emotion = parser.isPlainText() ? 'neutral' : readEmotion(content);
+
+  return {
+    text: parser.getText().trim(),
+    emotion,
+    intensity: DEFAULT_INTENSITY,
+    gestures: []
+  };
+}
@@ -0,0 +1,35 @@
+/**
+ * Read a Server-Sent Events stream and pass the payload of each `data:` line to the callback.
+ * Works with both the browser and the Node.js fetch implementations.
+ */
+export async function readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  onData: (data: string) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by newlines; keep the trailing partial line for the next chunk
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (trimmed.startsWith('data:')) {
+        onData(trimmed.slice(5).trim());
+      }
+    }
+  }
+
+  const remaining = buffer.trim();
+  if (remaining.startsWith('data:')) {
+    onData(remaining.slice(5).trim());
+  }
+}
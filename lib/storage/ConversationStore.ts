@@ -0,0 +1,122 @@
+import { ChatMessage } from '../types';
+import { generateId, openDatabase, promisifyRequest, SESSIONS_STORE } from './database';
+
+export interface ConversationSession {
+  id: string;
+  // Id of the character the conversation is with, e.g. 'machinarium'
+  persona: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  // Conversation turns, without the system prompt
+  messages: ChatMessage[];
+  // Running summary of turns that were compacted out of `messages`
+  summary: string | null;
+}
+
+const DEFAULT_TITLE = 'New conversation';
+const TITLE_LENGTH = 40;
+
+/**
+ * Derive a session title from the first thing the user said
+ */
+export function titleFromMessages(messages: ChatMessage[]): string {
+  const firstUserMessage = messages.find(message => message.role === 'user');
+  if (!firstUserMessage) return DEFAULT_TITLE;
+
+  const text = firstUserMessage.content.trim().replace(/\s+/g, ' ');
+  return text.length > TITLE_LENGTH ? `${text.slice(0, TITLE_LENGTH - 1)}…` : text;
+}
+
+/**
+ * Persists conversation sessions in IndexedDB so they survive page reloads
+ */
+export class ConversationStore {
+  /**
+   * List sessions, most recently updated first, optionally only for one persona
+   */
+  public async listSessions(persona?: string): Promise<ConversationSession[]> {
+    const db = await openDatabase();
+    const store = db.transaction(SESSIONS_STORE, 'readonly').objectStore(SESSIONS_STORE);
+    const request = persona ? store.index('persona').getAll(persona) : store.getAll();
+    const sessions = await promisifyRequest<ConversationSession[]>(request);
+    return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  public async getSession(id: string): Promise<ConversationSession | null> {
+    const db = await openDatabase();
+    const store = db.transaction(SESSIONS_STORE, 'readonly').objectStore(SESSIONS_STORE);
+    const session = await promisifyRequest<ConversationSession | undefined>(store.get(id));
+    return session || null;
+  }
+
+  public async createSession(persona: string, title: string = DEFAULT_TITLE): Promise<ConversationSession> {
+    const now = Date.now();
+    const session: ConversationSession = {
+      id: generateId(),
+      persona,
+      title,
+      createdAt: now,
+      updatedAt: now,
+      messages: [],
+      summary: null
+    };
+    await this.putSession(session);
+    return session;
+  }
+
+  /**
+   * Store the latest messages and summary of a session.
+   * Untitled sessions are named after the first user message.
+   */
+  public async saveSession(
+    session: ConversationSession,
+    messages: ChatMessage[],
+    summary: string | null
+  ): Promise<ConversationSession> {
+    const updated: ConversationSession = {
+      ...session,
+      title: session.title === DEFAULT_TITLE ? titleFromMessages(messages) : session.title,
+      messages,
+      summary,
+      updatedAt: Date.now()
+    };
+    await this.putSession(updated);
+    return updated;
+  }
+
+  public async renameSession(id: string, title: string): Promise<ConversationSession | null> {
+    const session = await this.getSession(id);
+    if (!session) return null;
+
+    const renamed = { ...session, title: title.trim() || DEFAULT_TITLE, updatedAt: Date.now() };
+    await this.putSession(renamed);
+    return renamed;
+  }
+
+  public async deleteSession(id: string): Promise<void> {
+    const db = await openDatabase();
+    const store = db.transaction(SESSIONS_STORE, 'readwrite').objectStore(SESSIONS_STORE);
+    await promisifyRequest(store.delete(id));
+  }
+
+  private async putSession(session: ConversationSession): Promise<void> {
+    const db = await openDatabase();
+    const store = db.transaction(SESSIONS_STORE, 'readwrite').objectStore(SESSIONS_STORE);
+    await promisifyRequest(store.put(session));
+  }
+}
+
+/**
+ * The last thing the user said and the last reply, for showing a resumed session
+ */
+export function getLastExchange(messages: ChatMessage[]): { userMessage: string; assistantMessage: string } {
+  const reversed = [...messages].reverse();
+  const lastUser = reversed.find(message => message.role === 'user');
+  const lastAssistant = reversed.find(message => message.role === 'assistant' && message.content);
+
+  return {
+    userMessage: lastUser ? lastUser.content : '',
+    assistantMessage: lastAssistant ? lastAssistant.content : ''
+  };
+}
@@ -0,0 +1,81 @@
+import { generateId, MEMORIES_STORE, openDatabase, promisifyRequest } from './database';
+
+// Who the user is (name, age, home, job), what they like, or what they are working on or talking about
+export type MemoryCategory = 'identity' | 'preference' | 'topic';
+
+export interface UserFact {
+  id: string;
+  // Id of the character that remembers the fact, e.g. 'machinarium'
+  persona: string;
+  category: MemoryCategory;
+  text: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Persists what each character remembers about the user in IndexedDB
+ */
+export class MemoryStore {
+  /**
+   * List a character's facts, most recently updated first
+   */
+  public async listFacts(persona: string): Promise<UserFact[]> {
+    const db = await openDatabase();
+    const store = db.transaction(MEMORIES_STORE, 'readonly').objectStore(MEMORIES_STORE);
+    const facts = await promisifyRequest<UserFact[]>(store.index('persona').getAll(persona));
+    return facts.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  public async getFact(id: string): Promise<UserFact | null> {
+    const db = await openDatabase();
+    const store = db.transaction(MEMORIES_STORE, 'readonly').objectStore(MEMORIES_STORE);
+    const fact = await promisifyRequest<UserFact | undefined>(store.get(id));
+    return fact || null;
+  }
+
+  public async addFact(persona: string, text: string, category: MemoryCategory): Promise<UserFact> {
+    const now = Date.now();
+    const fact: UserFact = {
+      id: generateId(),
+      persona,
+      category,
+      text: text.trim(),
+      createdAt: now,
+      updatedAt: now
+    };
+    await this.putFact(fact);
+    return fact;
+  }
+
+  public async updateFact(id: string, text: string): Promise<UserFact | null> {
+    const fact = await this.getFact(id);
+    if (!fact) return null;
+
+    const updated = { ...fact, text: text.trim(), updatedAt: Date.now() };
+    await this.putFact(updated);
+    return updated;
+  }
+
+  public async deleteFact(id: string): Promise<void> {
+    const db = await openDatabase();
+    const store = db.transaction(MEMORIES_STORE, 'readwrite').objectStore(MEMORIES_STORE);
+    await promisifyRequest(store.delete(id));
+  }
+
+  /**
+   * Forget everything a character remembers
+   */
+  public async clearFacts(persona: string): Promise<void> {
+    const db = await openDatabase();
+    const store = db.transaction(MEMORIES_STORE, 'readwrite').objectStore(MEMORIES_STORE);
+    const keys = await promisifyRequest<IDBValidKey[]>(store.index('persona').getAllKeys(persona));
+    await Promise.all(keys.map(key => promisifyRequest(store.delete(key))));
+  }
+
+  private async putFact(fact: UserFact): Promise<void> {
+    const db = await openDatabase();
+    const store = db.transaction(MEMORIES_STORE, 'readwrite').objectStore(MEMORIES_STORE);
+    await promisifyRequest(store.put(fact));
+  }
+}
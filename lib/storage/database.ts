@@ -0,0 +1,78 @@
+// Shared IndexedDB database for everything the app keeps in the browser
+
+const DATABASE_NAME = 'buzzychat';
+const DATABASE_VERSION = 2;
+
+export const SESSIONS_STORE = 'sessions';
+export const MEMORIES_STORE = 'memories';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Create or migrate the object stores. Each version only adds what it introduced.
+ */
+function upgradeDatabase(db: IDBDatabase, oldVersion: number): void {
+  if (oldVersion < 1) {
+    const sessions = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+    sessions.createIndex('persona', 'persona', { unique: false });
+  }
+  if (oldVersion < 2) {
+    const memories = db.createObjectStore(MEMORIES_STORE, { keyPath: 'id' });
+    memories.createIndex('persona', 'persona', { unique: false });
+  }
+}
+
+/**
+ * Open the database once and share the connection
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (databasePromise) return databasePromise;
+
+  databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = (event) => upgradeDatabase(request.result, event.oldVersion);
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer version in another tab upgrade the database; the next call reopens it
+      db.onversionchange = () => {
+        db.close();
+        databasePromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('Database upgrade blocked by another open tab'));
+  });
+
+  // Allow a retry after a failure instead of caching the rejection
+  databasePromise.catch(() => {
+    databasePromise = null;
+  });
+
+  return databasePromise;
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Generate an id for a stored record
+ */
+export function generateId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
@@ -0,0 +1,31 @@
+// Small settings kept in localStorage, such as the listening mode.
+// Larger data (sessions, memories) lives in IndexedDB; see database.ts.
+
+const KEY_PREFIX = 'buzzychat:';
+
+/**
+ * Read a stored setting, or `fallback` when it is missing, invalid or storage is unavailable
+ */
+export function loadPreference<T>(key: string, isValid: (value: unknown) => value is T, fallback: T): T {
+  try {
+    if (typeof localStorage === 'undefined') return fallback;
+    const stored = localStorage.getItem(KEY_PREFIX + key);
+    if (stored === null) return fallback;
+    const value: unknown = JSON.parse(stored);
+    return isValid(value) ? value : fallback;
+  } catch (error) {
+    return fallback;
+  }
+}
+
+/**
+ * Store a setting; failures (private browsing, full storage) are logged and otherwise ignored
+ */
+export function savePreference(key: string, value: unknown): void {
+  try {
+    if (typeof localStorage === 'undefined') return;
+    localStorage.setItem(KEY_PREFIX + key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Failed to save the ${key} setting:`, error);
+  }
+}
@@ -0,0 +1,18 @@
+import { SpeechTranscriber, TranscriptionOptions } from './SpeechTranscriber';
+
+/**
+ * Offline stand-in for a speech-to-text server, for development and tests.
+ * Every recording is "heard" as the same sentence, so the recording pipeline can be exercised end to end.
+ */
+export class MockTranscriber implements SpeechTranscriber {
+  public readonly name = 'mock';
+  private transcript: string;
+
+  constructor(transcript: string = 'Hello, can you hear me?') {
+    this.transcript = transcript;
+  }
+
+  public async transcribe(audio: Uint8Array, options: TranscriptionOptions): Promise<string> {
+    return audio.length > 0 ? this.transcript : '';
+  }
+}
@@ -0,0 +1,262 @@
+import { MicrophoneLease, MicrophoneManager, getMicrophone } from '../audio/MicrophoneManager';
+
+const TRANSCRIBE_API_URL = '/api/transcribe';
+// How often MediaRecorder hands over a chunk of audio
+const CHUNK_MS = 250;
+// How often the microphone level is checked
+const MONITOR_INTERVAL_MS = 100;
+// RMS level (0 to 1) above which the microphone counts as speech
+const SPEECH_LEVEL = 0.02;
+// Silence after speech that ends an utterance
+const END_OF_UTTERANCE_MS = 900;
+// Utterances are sent once they get this long, and silent recordings are restarted
+const MAX_RECORDING_MS = 15000;
+// Shorter bursts of sound (clicks, coughs) are not sent
+const MIN_SPEECH_MS = 300;
+
+// A MediaRecorder and the chunks it has handed over so far
+interface Recording {
+  recorder: MediaRecorder;
+  chunks: Blob[];
+}
+
+/**
+ * Speech recognition for browsers without the Web Speech API (e.g. Firefox and many embedded webviews).
+ * The microphone is recorded with MediaRecorder; when the speaker goes quiet, the utterance is sent to
+ * /api/transcribe, which forwards it to a Whisper-compatible speech-to-text server.
+ */
+export class RecordingRecognizer {
+  private listening = false;
+  private language = 'en-US';
+  private onTranscript: ((text: string) => void) | null = null;
+  private lease: MicrophoneLease | null = null;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private audioContext: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private samples: Float32Array | null = null;
+  private recording: Recording | null = null;
+  private recordingStartedAt = 0;
+  private speechStartedAt: number | null = null;
+  private lastSpeechAt = 0;
+  private monitorTimer: ReturnType<typeof setInterval> | null = null;
+  private pendingRequests: AbortController[] = [];
+
+  public static isSupported(): boolean {
+    return typeof window !== 'undefined' &&
+      typeof (window as any).MediaRecorder !== 'undefined' &&
+      MicrophoneManager.isSupported();
+  }
+
+  /**
+   * Whether the server has a speech recognition engine configured
+   */
+  public static async isConfigured(): Promise<boolean> {
+    try {
+      const response = await fetch(TRANSCRIBE_API_URL);
+      if (!response.ok) return false;
+      const data = await response.json();
+      return data.available === true;
+    } catch (error) {
+      console.error('Failed to check for server speech recognition:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Start recording; `onTranscript` receives the text of each utterance.
+   * If already recording, whatever was recorded or is being transcribed so far is dropped, like a fresh start.
+   */
+  public async start(language: string, onTranscript: (text: string) => void): Promise<void> {
+    this.language = language;
+    this.onTranscript = onTranscript;
+    if (this.listening) {
+      this.finishUtterance(false, true);
+      this.pendingRequests.forEach(controller => controller.abort());
+      this.pendingRequests = [];
+      return;
+    }
+    this.listening = true;
+
+    let lease: MicrophoneLease;
+    try {
+      lease = await getMicrophone().acquire();
+    } catch (error) {
+      console.error('Failed to get microphone access:', error);
+      this.listening = false;
+      return;
+    }
+    // Stopped while waiting for permission
+    if (!this.listening) {
+      lease.release();
+      return;
+    }
+
+    const AudioContextClass = (window as any).AudioContext || (window as any).webkitAudioContext;
+    this.lease = lease;
+    this.audioContext = new AudioContextClass() as AudioContext;
+    this.analyser = this.audioContext.createAnalyser();
+    this.analyser.fftSize = 1024;
+    this.samples = new Float32Array(this.analyser.fftSize);
+    this.connect(lease.stream);
+    // Another microphone was picked: send what was said so far and record from the new one
+    lease.onStreamChange((stream) => {
+      this.connect(stream);
+      this.finishUtterance(this.heardEnoughSpeech(), true);
+    });
+
+    this.startRecording();
+    this.monitorTimer = setInterval(this.monitor, MONITOR_INTERVAL_MS);
+    console.log('Recording for server-side speech recognition');
+  }
+
+  // Language of the utterances recorded from now on
+  public setLanguage(language: string): void {
+    this.language = language;
+  }
+
+  /**
+   * Stop recording and release the microphone. Like SpeechRecognition.stop(), what was said up to now
+   * is still transcribed and delivered; use abort() to drop it.
+   */
+  public stop(): void {
+    if (!this.listening) return;
+    this.finishUtterance(this.heardEnoughSpeech(), false);
+    this.release();
+  }
+
+  /**
+   * Stop recording and release the microphone, dropping utterances that haven't been transcribed yet
+   */
+  public abort(): void {
+    if (!this.listening) return;
+    this.finishUtterance(false, false);
+    this.release();
+    this.pendingRequests.forEach(controller => controller.abort());
+    this.pendingRequests = [];
+  }
+
+  private release(): void {
+    this.listening = false;
+
+    if (this.monitorTimer) {
+      clearInterval(this.monitorTimer);
+      this.monitorTimer = null;
+    }
+    if (this.source) {
+      this.source.disconnect();
+      this.source = null;
+    }
+    if (this.lease) {
+      this.lease.release();
+      this.lease = null;
+    }
+    if (this.audioContext) {
+      this.audioContext.close().catch(() => undefined);
+      this.audioContext = null;
+    }
+    this.analyser = null;
+  }
+
+  private connect(stream: MediaStream): void {
+    if (!this.audioContext || !this.analyser) return;
+    if (this.source) this.source.disconnect();
+    this.source = this.audioContext.createMediaStreamSource(stream);
+    this.source.connect(this.analyser);
+  }
+
+  // Start a fresh recording; each utterance is its own file so it can be decoded on its own
+  private startRecording(): void {
+    if (!this.lease) return;
+
+    const recorder = new MediaRecorder(this.lease.stream);
+    // The last chunk arrives after stop(), so each recording keeps its own list
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.start(CHUNK_MS);
+
+    this.recording = { recorder, chunks };
+    this.recordingStartedAt = Date.now();
+    this.speechStartedAt = null;
+  }
+
+  // Watch the microphone level to find where utterances end
+  private monitor = (): void => {
+    if (!this.analyser || !this.samples) return;
+
+    this.analyser.getFloatTimeDomainData(this.samples);
+    let sum = 0;
+    for (let i = 0; i < this.samples.length; i++) {
+      sum += this.samples[i] * this.samples[i];
+    }
+    const level = Math.sqrt(sum / this.samples.length);
+    const now = Date.now();
+
+    if (level > SPEECH_LEVEL) {
+      if (this.speechStartedAt === null) this.speechStartedAt = now;
+      this.lastSpeechAt = now;
+    }
+
+    if (this.speechStartedAt !== null) {
+      if (now - this.lastSpeechAt > END_OF_UTTERANCE_MS || now - this.speechStartedAt > MAX_RECORDING_MS) {
+        this.finishUtterance(this.heardEnoughSpeech(), true);
+      }
+    } else if (now - this.recordingStartedAt > MAX_RECORDING_MS) {
+      // Nothing said for a while; don't let the recording grow forever
+      this.finishUtterance(false, true);
+    }
+  };
+
+  private heardEnoughSpeech(): boolean {
+    return this.speechStartedAt !== null && this.lastSpeechAt - this.speechStartedAt >= MIN_SPEECH_MS;
+  }
+
+  // Close the current recording, transcribe it if `send`, and start the next one if `next`
+  private finishUtterance(send: boolean, next: boolean): void {
+    const recording = this.recording;
+    if (!recording) return;
+
+    const { recorder, chunks } = recording;
+    recorder.onstop = () => {
+      if (send && chunks.length > 0) {
+        this.transcribe(new Blob(chunks, { type: recorder.mimeType }));
+      }
+    };
+    if (recorder.state !== 'inactive') recorder.stop();
+    this.recording = null;
+    if (next) this.startRecording();
+  }
+
+  private async transcribe(audio: Blob): Promise<void> {
+    const controller = new AbortController();
+    this.pendingRequests.push(controller);
+
+    try {
+      const response = await fetch(`${TRANSCRIBE_API_URL}?language=${encodeURIComponent(this.language)}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': audio.type || 'application/octet-stream'
+        },
+        body: audio,
+        signal: controller.signal
+      });
+      if (!response.ok) {
+        throw new Error(`Transcription failed (HTTP ${response.status})`);
+      }
+
+      const data = await response.json();
+      const text = typeof data.text === 'string' ? data.text.trim() : '';
+      if (text && this.onTranscript) {
+        console.log('Final transcript:', text);
+        this.onTranscript(text);
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error('Server-side speech recognition failed:', error);
+      }
+    } finally {
+      this.pendingRequests = this.pendingRequests.filter(c => c !== controller);
+    }
+  }
+}
@@ -0,0 +1,17 @@
+export interface TranscriptionOptions {
+  // MIME type of the recording, e.g. 'audio/webm;codecs=opus'
+  contentType: string;
+  // BCP 47 language spoken in the recording, e.g. 'en-US'
+  language: string;
+  // Cancels the request
+  signal?: AbortSignal;
+}
+
+/**
+ * A server-side speech-to-text engine, used by the /api/transcribe route
+ */
+export interface SpeechTranscriber {
+  readonly name: string;
+
+  transcribe(audio: Uint8Array, options: TranscriptionOptions): Promise<string>;
+}
@@ -0,0 +1,64 @@
+import { SpeechTranscriber, TranscriptionOptions } from './SpeechTranscriber';
+
+export interface WhisperConfig {
+  baseUrl: string;
+  apiKey?: string;
+  model?: string;
+}
+
+// File extensions Whisper servers use to recognize the recording format
+const EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'mp4',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav'
+};
+
+/**
+ * Transcriber for any endpoint that implements the OpenAI Audio Transcriptions API
+ * (`POST /audio/transcriptions`), such as OpenAI's Whisper or a local whisper.cpp / faster-whisper server
+ */
+export class WhisperTranscriber implements SpeechTranscriber {
+  public readonly name = 'whisper';
+  private config: WhisperConfig & { model: string };
+
+  constructor(config: WhisperConfig) {
+    this.config = {
+      model: config.model || 'whisper-1',
+      apiKey: config.apiKey,
+      // Accept base URLs with or without a trailing slash
+      baseUrl: config.baseUrl.replace(/\/+$/, '')
+    };
+  }
+
+  public async transcribe(audio: Uint8Array, options: TranscriptionOptions): Promise<string> {
+    const mimeType = options.contentType.split(';')[0].trim();
+    const form = new FormData();
+    form.append('file', new Blob([audio], { type: mimeType }), `speech.${EXTENSIONS[mimeType] || 'webm'}`);
+    form.append('model', this.config.model);
+    // Whisper takes ISO 639-1 codes ('en' rather than 'en-US')
+    form.append('language', options.language.split('-')[0]);
+    form.append('response_format', 'json');
+
+    const headers: Record<string, string> = {};
+    if (this.config.apiKey) {
+      headers.Authorization = `Bearer ${this.config.apiKey}`;
+    }
+
+    const response = await fetch(`${this.config.baseUrl}/audio/transcriptions`, {
+      method: 'POST',
+      headers,
+      body: form,
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new Error(`${this.name} transcription failed (HTTP ${response.status}) ${body.slice(0, 200)}`.trim());
+    }
+
+    const data = await response.json();
+    return typeof data.text === 'string' ? data.text.trim() : '';
+  }
+}
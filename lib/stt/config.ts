@@ -0,0 +1,54 @@
+import { SpeechTranscriber } from './SpeechTranscriber';
+import { WhisperTranscriber } from './WhisperTranscriber';
+import { MockTranscriber } from './MockTranscriber';
+
+// 'none' disables server-side transcription
+export type STTProviderName = 'none' | 'whisper' | 'mock';
+
+export interface STTConfig {
+  provider: STTProviderName;
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string;
+}
+
+const PROVIDER_NAMES: STTProviderName[] = ['none', 'whisper', 'mock'];
+
+/**
+ * Read the speech-to-text configuration from environment variables (server-side only):
+ * STT_PROVIDER, STT_BASE_URL, STT_API_KEY and STT_MODEL
+ */
+export function loadSTTConfig(env: Record<string, string | undefined> = process.env): STTConfig {
+  const provider = (env.STT_PROVIDER || 'none').toLowerCase() as STTProviderName;
+  if (!PROVIDER_NAMES.includes(provider)) {
+    throw new Error(`Unknown STT_PROVIDER "${env.STT_PROVIDER}". Expected one of: ${PROVIDER_NAMES.join(', ')}`);
+  }
+
+  return {
+    provider,
+    baseUrl: env.STT_BASE_URL || undefined,
+    apiKey: env.STT_API_KEY || undefined,
+    model: env.STT_MODEL || undefined
+  };
+}
+
+/**
+ * Build the transcriber described by the configuration, or null when server-side transcription is off
+ */
+export function createSpeechTranscriber(config: STTConfig): SpeechTranscriber | null {
+  const { provider, baseUrl, apiKey, model } = config;
+
+  switch (provider) {
+    case 'none':
+      return null;
+
+    case 'whisper':
+      if (!baseUrl) {
+        throw new Error('STT_BASE_URL is required for the whisper speech-to-text provider');
+      }
+      return new WhisperTranscriber({ baseUrl, apiKey, model });
+
+    case 'mock':
+      return new MockTranscriber();
+  }
+}
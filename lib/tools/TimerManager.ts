@@ -0,0 +1,68 @@
+export interface Timer {
+  id: string;
+  label: string;
+  durationSeconds: number;
+  endsAt: number;
+}
+
+// "1 hour and 30 minutes", "45 seconds"
+function formatDuration(totalSeconds: number): string {
+  const seconds = Math.max(1, Math.round(totalSeconds));
+  const parts: string[] = [];
+  const add = (count: number, unit: string) => {
+    if (count > 0) parts.push(`${count} ${unit}${count === 1 ? '' : 's'}`);
+  };
+  add(Math.floor(seconds / 3600), 'hour');
+  add(Math.floor(seconds % 3600 / 60), 'minute');
+  add(seconds % 60, 'second');
+  return parts.length > 1 ? `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}` : parts[0];
+}
+
+/**
+ * Keeps track of the countdown timers started by the set_timer tool
+ */
+export class TimerManager {
+  private timers = new Map<string, { timer: Timer; handle: ReturnType<typeof setTimeout> }>();
+  private nextId = 1;
+  private onTimerFinished: (timer: Timer) => void;
+
+  constructor(onTimerFinished: (timer: Timer) => void) {
+    this.onTimerFinished = onTimerFinished;
+  }
+
+  public start(durationSeconds: number, label?: string): Timer {
+    const id = `timer-${this.nextId++}`;
+    const timer: Timer = {
+      id,
+      label: label || formatDuration(durationSeconds),
+      durationSeconds,
+      endsAt: Date.now() + durationSeconds * 1000
+    };
+
+    const handle = setTimeout(() => {
+      this.timers.delete(id);
+      this.onTimerFinished(timer);
+    }, durationSeconds * 1000);
+
+    this.timers.set(id, { timer, handle });
+    return timer;
+  }
+
+  public cancel(id: string): boolean {
+    const entry = this.timers.get(id);
+    if (!entry) return false;
+
+    clearTimeout(entry.handle);
+    this.timers.delete(id);
+    return true;
+  }
+
+  public list(): Timer[] {
+    return Array.from(this.timers.values()).map(entry => entry.timer);
+  }
+
+  public cancelAll(): void {
+    this.timers.forEach(entry => clearTimeout(entry.handle));
+    this.timers.clear();
+  }
+}
@@ -0,0 +1,138 @@
+import { JSONSchema, ToolCall, ToolDefinition } from '../types';
+
+/**
+ * A function the model can call.
+ * `parameters` is the JSON schema of the arguments object passed to `handler`.
+ */
+export interface Tool<TArgs = any> {
+  name: string;
+  description: string;
+  parameters: JSONSchema;
+  handler: (args: TArgs) => unknown | Promise<unknown>;
+}
+
+/**
+ * Helper that keeps the handler's argument type when declaring a tool
+ */
+export function defineTool<TArgs>(tool: Tool<TArgs>): Tool<TArgs> {
+  return tool;
+}
+
+/**
+ * Holds the tools available to a QwenService and executes the calls the model makes
+ */
+export class ToolRegistry {
+  private tools = new Map<string, Tool>();
+
+  constructor(tools: Tool[] = []) {
+    tools.forEach(tool => this.register(tool));
+  }
+
+  public register(tool: Tool): void {
+    if (!/^[a-zA-Z0-9_-]{1,64}$/.test(tool.name)) {
+      throw new Error(`Invalid tool name "${tool.name}"`);
+    }
+    this.tools.set(tool.name, tool);
+  }
+
+  public unregister(name: string): void {
+    this.tools.delete(name);
+  }
+
+  public has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  public get size(): number {
+    return this.tools.size;
+  }
+
+  /**
+   * Tool definitions in the format expected by the `tools` field of a completion request
+   */
+  public getDefinitions(): ToolDefinition[] {
+    return Array.from(this.tools.values()).map(tool => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters
+      }
+    }));
+  }
+
+  /**
+   * Run a tool call and return its result as a string for the `tool` message.
+   * Failures are returned as `{"error": "..."}` so the model can recover.
+   */
+  public async execute(call: ToolCall): Promise<string> {
+    const tool = this.tools.get(call.function.name);
+    if (!tool) {
+      return JSON.stringify({ error: `Unknown tool "${call.function.name}"` });
+    }
+
+    let args: unknown;
+    try {
+      args = call.function.arguments.trim() ? JSON.parse(call.function.arguments) : {};
+    } catch (error) {
+      return JSON.stringify({ error: 'Arguments are not valid JSON' });
+    }
+
+    const validationError = validateArguments(args, tool.parameters);
+    if (validationError) {
+      return JSON.stringify({ error: validationError });
+    }
+
+    try {
+      const result = await tool.handler(args);
+      return typeof result === 'string' ? result : JSON.stringify(result ?? null);
+    } catch (error) {
+      console.error(`Tool ${tool.name} failed:`, error);
+      return JSON.stringify({ error: (error as Error).message || 'Tool failed' });
+    }
+  }
+}
+
+function matchesType(value: unknown, type: JSONSchema['type']): boolean {
+  switch (type) {
+    case 'string': return typeof value === 'string';
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'integer': return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'array': return Array.isArray(value);
+    case 'object': return !!value && typeof value === 'object' && !Array.isArray(value);
+    case 'null': return value === null;
+    default: return true;
+  }
+}
+
+/**
+ * Check the arguments against the top level of the schema: required properties, types and enums
+ */
+function validateArguments(args: unknown, schema: JSONSchema): string | null {
+  if (!matchesType(args, 'object')) {
+    return 'Arguments must be an object';
+  }
+
+  const values = args as Record<string, unknown>;
+  for (const name of schema.required || []) {
+    if (values[name] === undefined) {
+      return `Missing required argument "${name}"`;
+    }
+  }
+
+  const properties = schema.properties || {};
+  for (const name of Object.keys(values)) {
+    const property = properties[name];
+    if (!property) continue;
+
+    if (property.type && !matchesType(values[name], property.type)) {
+      return `Argument "${name}" must be of type ${property.type}`;
+    }
+    if (property.enum && !property.enum.includes(values[name] as string | number)) {
+      return `Argument "${name}" must be one of: ${property.enum.join(', ')}`;
+    }
+  }
+
+  return null;
+}
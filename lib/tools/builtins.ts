@@ -0,0 +1,128 @@
+import { defineTool, Tool } from './ToolRegistry';
+import { evaluateExpression } from './calculator';
+import { convertUnits, SUPPORTED_UNITS } from './units';
+import { Timer, TimerManager } from './TimerManager';
+
+// Longest timer the set_timer tool will start (24 hours)
+const MAX_TIMER_SECONDS = 24 * 60 * 60;
+
+export const clockTool = defineTool<{ timeZone?: string; locale?: string }>({
+  name: 'get_current_datetime',
+  description: 'Get the current local date and time, optionally in a specific IANA time zone such as "Europe/Paris".',
+  parameters: {
+    type: 'object',
+    properties: {
+      timeZone: { type: 'string', description: 'IANA time zone name. Defaults to the user\'s time zone.' },
+      locale: { type: 'string', description: 'BCP 47 locale used to format the result, e.g. "en-US".' }
+    }
+  },
+  handler: ({ timeZone, locale }) => {
+    const now = new Date();
+    const resolvedZone = timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+    const formatted = new Intl.DateTimeFormat(locale || 'en-US', {
+      dateStyle: 'full',
+      timeStyle: 'long',
+      timeZone: resolvedZone
+    }).format(now);
+
+    return { iso: now.toISOString(), formatted, timeZone: resolvedZone };
+  }
+});
+
+export const calculatorTool = defineTool<{ expression: string }>({
+  name: 'calculate',
+  description: 'Evaluate an arithmetic expression. Supports + - * / % ^, parentheses, pi, e, and sqrt, abs, round, floor, ceil, sin, cos, tan, ln, log, exp.',
+  parameters: {
+    type: 'object',
+    properties: {
+      expression: { type: 'string', description: 'The expression to evaluate, e.g. "(3 + 4) * sqrt(16)".' }
+    },
+    required: ['expression']
+  },
+  handler: ({ expression }) => ({ expression, result: evaluateExpression(expression) })
+});
+
+export const unitConversionTool = defineTool<{ value: number; from: string; to: string }>({
+  name: 'convert_units',
+  description: 'Convert a value between units of length, mass, volume, speed, time or temperature.',
+  parameters: {
+    type: 'object',
+    properties: {
+      value: { type: 'number', description: 'The value to convert.' },
+      from: { type: 'string', description: `Unit to convert from. Known units: ${SUPPORTED_UNITS.join(', ')}.` },
+      to: { type: 'string', description: 'Unit to convert to.' }
+    },
+    required: ['value', 'from', 'to']
+  },
+  handler: ({ value, from, to }) => ({ value, from, to, result: convertUnits(value, from, to) })
+});
+
+/**
+ * Tools for starting, listing and cancelling countdown timers.
+ * `timers` decides what happens when a timer finishes, e.g. announcing it out loud.
+ */
+export function createTimerTools(timers: TimerManager): Tool[] {
+  const describe = (timer: Timer) => ({
+    id: timer.id,
+    label: timer.label,
+    secondsRemaining: Math.max(0, Math.round((timer.endsAt - Date.now()) / 1000))
+  });
+
+  return [
+    defineTool<{ seconds: number; label?: string }>({
+      name: 'set_timer',
+      description: 'Start a countdown timer. The user is notified when it finishes.',
+      parameters: {
+        type: 'object',
+        properties: {
+          seconds: { type: 'number', description: 'Duration of the timer in seconds.' },
+          label: { type: 'string', description: 'Short name for the timer, e.g. "tea".' }
+        },
+        required: ['seconds']
+      },
+      handler: ({ seconds, label }) => {
+        if (seconds <= 0 || seconds > MAX_TIMER_SECONDS) {
+          throw new Error(`Timer duration must be between 1 second and ${MAX_TIMER_SECONDS} seconds`);
+        }
+        return describe(timers.start(seconds, label));
+      }
+    }),
+    defineTool<Record<string, never>>({
+      name: 'list_timers',
+      description: 'List the timers that are currently running.',
+      parameters: { type: 'object', properties: {} },
+      handler: () => ({ timers: timers.list().map(describe) })
+    }),
+    defineTool<{ id: string }>({
+      name: 'cancel_timer',
+      description: 'Cancel a running timer by its id.',
+      parameters: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'The id returned by set_timer or list_timers.' }
+        },
+        required: ['id']
+      },
+      handler: ({ id }) => ({ id, cancelled: timers.cancel(id) })
+    })
+  ];
+}
+
+export const BUILTIN_TOOL_GROUPS = ['clock', 'calculator', 'units', 'timers'] as const;
+
+export type BuiltinToolGroup = typeof BUILTIN_TOOL_GROUPS[number];
+
+/**
+ * Built-in local tools: clock, calculator, unit conversion and timers, or only the given groups
+ */
+export function createBuiltinTools(
+  timers: TimerManager,
+  groups: readonly BuiltinToolGroup[] = BUILTIN_TOOL_GROUPS
+): Tool[] {
+  const tools: Tool[] = [];
+  if (groups.includes('clock')) tools.push(clockTool);
+  if (groups.includes('calculator')) tools.push(calculatorTool);
+  if (groups.includes('units')) tools.push(unitConversionTool);
+  if (groups.includes('timers')) tools.push(...createTimerTools(timers));
+  return tools;
+}
@@ -0,0 +1,155 @@
+// Safe arithmetic evaluator for the calculator tool. Never uses eval().
+
+const FUNCTIONS: Record<string, (value: number) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  ln: Math.log,
+  log: Math.log10,
+  exp: Math.exp
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E
+};
+
+type Token = { type: 'number'; value: number } | { type: 'name'; value: string } | { type: 'op'; value: string };
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /^\s*(?:(\d+(?:\.\d+)?(?:e[+-]?\d+)?|\.\d+)|([a-z]+)|(\*\*|[-+*/%^(),]))/i;
+  let rest = expression;
+
+  while (rest.trim().length > 0) {
+    const match = pattern.exec(rest);
+    if (!match) {
+      throw new Error(`Unexpected character "${rest.trim()[0]}"`);
+    }
+
+    if (match[1] !== undefined) {
+      tokens.push({ type: 'number', value: parseFloat(match[1]) });
+    } else if (match[2] !== undefined) {
+      tokens.push({ type: 'name', value: match[2].toLowerCase() });
+    } else {
+      tokens.push({ type: 'op', value: match[3] === '**' ? '^' : match[3] });
+    }
+    rest = rest.slice(match[0].length);
+  }
+
+  return tokens;
+}
+
+/**
+ * Evaluate an arithmetic expression with + - * / % ^, parentheses,
+ * the constants pi and e, and common functions such as sqrt() and sin()
+ */
+export function evaluateExpression(expression: string): number {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peek = (): Token | undefined => tokens[position];
+  const isOp = (value: string): boolean => {
+    const token = peek();
+    return !!token && token.type === 'op' && token.value === value;
+  };
+  const expect = (value: string): void => {
+    if (!isOp(value)) throw new Error(`Expected "${value}"`);
+    position++;
+  };
+
+  // expression := term (('+' | '-') term)*
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    while (isOp('+') || isOp('-')) {
+      const op = (tokens[position++] as Token).value;
+      const right = parseTerm();
+      value = op === '+' ? value + right : value - right;
+    }
+    return value;
+  };
+
+  // term := unary (('*' | '/' | '%') unary)*
+  const parseTerm = (): number => {
+    let value = parseUnary();
+    while (isOp('*') || isOp('/') || isOp('%')) {
+      const op = (tokens[position++] as Token).value;
+      const right = parseUnary();
+      if (op === '*') value *= right;
+      else if (op === '/') value /= right;
+      else value %= right;
+    }
+    return value;
+  };
+
+  // unary := ('-' | '+') unary | power
+  const parseUnary = (): number => {
+    if (isOp('-')) {
+      position++;
+      return -parseUnary();
+    }
+    if (isOp('+')) {
+      position++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  // power := primary ('^' unary)?   (right associative)
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    if (isOp('^')) {
+      position++;
+      return Math.pow(base, parseUnary());
+    }
+    return base;
+  };
+
+  // primary := number | constant | function '(' expression ')' | '(' expression ')'
+  const parsePrimary = (): number => {
+    const token = peek();
+    if (!token) throw new Error('Unexpected end of expression');
+
+    if (token.type === 'number') {
+      position++;
+      return token.value;
+    }
+
+    if (token.type === 'name') {
+      position++;
+      // Names come from the model, so inherited keys like "constructor" must not count
+      if (Object.prototype.hasOwnProperty.call(CONSTANTS, token.value)) {
+        return CONSTANTS[token.value];
+      }
+      const fn = Object.prototype.hasOwnProperty.call(FUNCTIONS, token.value) ? FUNCTIONS[token.value] : undefined;
+      if (!fn) throw new Error(`Unknown function "${token.value}"`);
+      expect('(');
+      const argument = parseExpression();
+      expect(')');
+      return fn(argument);
+    }
+
+    if (isOp('(')) {
+      position++;
+      const value = parseExpression();
+      expect(')');
+      return value;
+    }
+
+    throw new Error(`Unexpected "${token.value}"`);
+  };
+
+  const result = parseExpression();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${(tokens[position] as Token).value}"`);
+  }
+  if (!Number.isFinite(result)) {
+    throw new Error('Result is not a finite number');
+  }
+  return result;
+}
@@ -0,0 +1,83 @@
+// Unit conversion for the convert_units tool.
+// Each unit is expressed as a factor of its category's base unit; temperature is handled separately.
+
+const UNIT_FACTORS: Record<string, Record<string, number>> = {
+  length: {
+    mm: 0.001, cm: 0.01, m: 1, km: 1000,
+    in: 0.0254, ft: 0.3048, yd: 0.9144, mi: 1609.344
+  },
+  mass: {
+    mg: 0.000001, g: 0.001, kg: 1, t: 1000,
+    oz: 0.028349523125, lb: 0.45359237
+  },
+  volume: {
+    ml: 0.001, l: 1, m3: 1000,
+    tsp: 0.00492892, tbsp: 0.0147868, cup: 0.24, 'fl oz': 0.0295735, gal: 3.78541
+  },
+  speed: {
+    'm/s': 1, 'km/h': 1 / 3.6, mph: 0.44704, knot: 0.514444
+  },
+  time: {
+    ms: 0.001, s: 1, min: 60, h: 3600, day: 86400, week: 604800
+  }
+};
+
+const ALIASES: Record<string, string> = {
+  millimeter: 'mm', millimeters: 'mm', centimeter: 'cm', centimeters: 'cm',
+  meter: 'm', meters: 'm', metre: 'm', metres: 'm', kilometer: 'km', kilometers: 'km',
+  inch: 'in', inches: 'in', foot: 'ft', feet: 'ft', yard: 'yd', yards: 'yd', mile: 'mi', miles: 'mi',
+  milligram: 'mg', milligrams: 'mg', gram: 'g', grams: 'g', kilogram: 'kg', kilograms: 'kg',
+  tonne: 't', tonnes: 't', ounce: 'oz', ounces: 'oz', pound: 'lb', pounds: 'lb', lbs: 'lb',
+  milliliter: 'ml', milliliters: 'ml', liter: 'l', liters: 'l', litre: 'l', litres: 'l',
+  teaspoon: 'tsp', teaspoons: 'tsp', tablespoon: 'tbsp', tablespoons: 'tbsp', cups: 'cup',
+  gallon: 'gal', gallons: 'gal', kph: 'km/h', knots: 'knot',
+  millisecond: 'ms', milliseconds: 'ms', second: 's', seconds: 's', sec: 's',
+  minute: 'min', minutes: 'min', hour: 'h', hours: 'h', hr: 'h', days: 'day', weeks: 'week',
+  celsius: 'c', '°c': 'c', fahrenheit: 'f', '°f': 'f', kelvin: 'k'
+};
+
+const TEMPERATURE_UNITS = ['c', 'f', 'k'];
+
+export const SUPPORTED_UNITS = [
+  ...Object.keys(UNIT_FACTORS).reduce<string[]>((units, category) => units.concat(Object.keys(UNIT_FACTORS[category])), []),
+  ...TEMPERATURE_UNITS
+];
+
+function normalizeUnit(unit: string): string {
+  const lower = unit.trim().toLowerCase();
+  return Object.prototype.hasOwnProperty.call(ALIASES, lower) ? ALIASES[lower] : lower;
+}
+
+function toCelsius(value: number, unit: string): number {
+  if (unit === 'f') return (value - 32) * 5 / 9;
+  if (unit === 'k') return value - 273.15;
+  return value;
+}
+
+function fromCelsius(value: number, unit: string): number {
+  if (unit === 'f') return value * 9 / 5 + 32;
+  if (unit === 'k') return value + 273.15;
+  return value;
+}
+
+/**
+ * Convert a value between two units of the same category
+ */
+export function convertUnits(value: number, from: string, to: string): number {
+  const fromUnit = normalizeUnit(from);
+  const toUnit = normalizeUnit(to);
+
+  if (TEMPERATURE_UNITS.includes(fromUnit) && TEMPERATURE_UNITS.includes(toUnit)) {
+    return fromCelsius(toCelsius(value, fromUnit), toUnit);
+  }
+
+  for (const category of Object.keys(UNIT_FACTORS)) {
+    const factors = UNIT_FACTORS[category];
+    // Units come from the model, so inherited keys like "constructor" must not count
+    if (Object.prototype.hasOwnProperty.call(factors, fromUnit) && Object.prototype.hasOwnProperty.call(factors, toUnit)) {
+      return value * factors[fromUnit] / factors[toUnit];
+    }
+  }
+
+  throw new Error(`Cannot convert from "${from}" to "${to}"`);
+}
@@ -0,0 +1,171 @@
+import { TTSProvider, TTSRequest, TTSUtteranceEvents } from './TTSProvider';
+
+// Where synthesized audio is played: the analyser measures it, and the context's destination is the speakers
+export interface AudioOutput {
+  context: AudioContext;
+  analyser: AnalyserNode;
+}
+
+const TTS_API_URL = '/api/tts';
+
+/**
+ * Speaks with the speech engine configured on the server (see /api/tts).
+ * Audio for each request is fetched as soon as it is queued, so the next sentence is usually ready
+ * when the previous one ends, and is played through the analyser so the mouth follows its real amplitude.
+ * If the server can't synthesize a request, it is spoken with the fallback provider instead.
+ */
+export class AudioTTSProvider implements TTSProvider {
+  public readonly name = 'server';
+  public readonly playsThroughAnalyser = true;
+  private output: AudioOutput;
+  private fallback: TTSProvider | null;
+  // Plays queued requests one after another
+  private queue: Promise<void> = Promise.resolve();
+  // Incremented on cancel, so requests queued before it are dropped
+  private generation = 0;
+  private pendingRequests: AbortController[] = [];
+  private currentSource: AudioBufferSourceNode | null = null;
+
+  constructor(output: AudioOutput, fallback: TTSProvider | null = null) {
+    this.output = output;
+    this.fallback = fallback;
+  }
+
+  /**
+   * Whether the server has a speech engine configured
+   */
+  public static async isConfigured(): Promise<boolean> {
+    try {
+      const response = await fetch(TTS_API_URL);
+      if (!response.ok) return false;
+      const data = await response.json();
+      return data.available === true;
+    } catch (error) {
+      console.error('Failed to check for server speech synthesis:', error);
+      return false;
+    }
+  }
+
+  public isAvailable(): boolean {
+    return true;
+  }
+
+  public speak(request: TTSRequest, events: TTSUtteranceEvents = {}): void {
+    const generation = this.generation;
+    const controller = new AbortController();
+    this.pendingRequests.push(controller);
+
+    const audio = this.fetchAudio(request, controller.signal);
+    // Handled when its turn comes; this keeps an early failure from being reported as unhandled
+    audio.catch(() => undefined);
+
+    this.queue = this.queue.then(async () => {
+      let buffer: AudioBuffer;
+      try {
+        buffer = await audio;
+      } catch (error) {
+        if (generation !== this.generation) return;
+        console.error('Server speech synthesis failed:', error);
+        await this.speakWithFallback(request, events, error);
+        return;
+      } finally {
+        this.pendingRequests = this.pendingRequests.filter(c => c !== controller);
+      }
+
+      if (generation !== this.generation) return;
+      await this.play(buffer, request.volume, events);
+    });
+  }
+
+  public cancel(): void {
+    this.generation++;
+    this.pendingRequests.forEach(controller => controller.abort());
+    this.pendingRequests = [];
+    this.queue = Promise.resolve();
+
+    const source = this.currentSource;
+    if (source) {
+      this.currentSource = null;
+      source.onended = null;
+      source.stop();
+      source.disconnect();
+    }
+    if (this.fallback) this.fallback.cancel();
+  }
+
+  private async fetchAudio(request: TTSRequest, signal: AbortSignal): Promise<AudioBuffer> {
+    const response = await fetch(TTS_API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        text: request.text,
+        language: request.language,
+        rate: request.rate,
+        pitch: request.pitch
+      }),
+      signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`Speech synthesis failed (HTTP ${response.status})`);
+    }
+
+    return this.output.context.decodeAudioData(await response.arrayBuffer());
+  }
+
+  // Resolves when the audio has finished playing; never resolves if it is cancelled
+  private play(buffer: AudioBuffer, volume: number, events: TTSUtteranceEvents): Promise<void> {
+    const { context, analyser } = this.output;
+
+    return new Promise((resolve) => {
+      const source = context.createBufferSource();
+      source.buffer = buffer;
+      // The analyser measures the audio before the volume is applied, so a quiet voice still moves the mouth
+      const gain = context.createGain();
+      gain.gain.value = volume;
+      source.connect(analyser);
+      source.connect(gain);
+      gain.connect(context.destination);
+
+      source.onended = () => {
+        source.disconnect();
+        gain.disconnect();
+        if (this.currentSource === source) this.currentSource = null;
+        if (events.onEnd) events.onEnd();
+        resolve();
+      };
+
+      this.currentSource = source;
+      // Browsers keep the context suspended until the page has been interacted with
+      if (context.state === 'suspended') {
+        context.resume().catch(error => console.error('Failed to resume audio playback:', error));
+      }
+      source.start();
+      if (events.onStart) events.onStart();
+    });
+  }
+
+  private speakWithFallback(request: TTSRequest, events: TTSUtteranceEvents, error: unknown): Promise<void> {
+    const fallback = this.fallback;
+    if (!fallback || !fallback.isAvailable()) {
+      if (events.onError) events.onError(error);
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => {
+      fallback.speak(request, {
+        ...events,
+        onEnd: () => {
+          if (events.onEnd) events.onEnd();
+          resolve();
+        },
+        onError: (fallbackError) => {
+          if (events.onError) events.onError(fallbackError);
+          resolve();
+        }
+      });
+    });
+  }
+}
@@ -0,0 +1,59 @@
+import { SpeechSynthesizer, SynthesisOptions, SynthesizedAudio } from './SpeechSynthesizer';
+
+export interface OpenAISpeechConfig {
+  baseUrl: string;
+  apiKey?: string;
+  model?: string;
+  voice?: string;
+}
+
+/**
+ * Synthesizer for any endpoint that implements the OpenAI Audio Speech API (`POST /audio/speech`),
+ * including self-hosted servers that mimic it. The model picks the pronunciation from the text,
+ * and pitch is not supported.
+ */
+export class OpenAISpeechSynthesizer implements SpeechSynthesizer {
+  public readonly name = 'openai';
+  private config: OpenAISpeechConfig & { model: string; voice: string };
+
+  constructor(config: OpenAISpeechConfig) {
+    this.config = {
+      model: config.model || 'tts-1',
+      voice: config.voice || 'alloy',
+      apiKey: config.apiKey,
+      // Accept base URLs with or without a trailing slash
+      baseUrl: config.baseUrl.replace(/\/+$/, '')
+    };
+  }
+
+  public async synthesize(text: string, options: SynthesisOptions): Promise<SynthesizedAudio> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) {
+      headers.Authorization = `Bearer ${this.config.apiKey}`;
+    }
+
+    const response = await fetch(`${this.config.baseUrl}/audio/speech`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.config.model,
+        voice: this.config.voice,
+        input: text,
+        // The API accepts speeds from 0.25 to 4
+        speed: Math.min(4, Math.max(0.25, options.rate ?? 1)),
+        response_format: 'mp3'
+      }),
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new Error(`${this.name} speech request failed (HTTP ${response.status}) ${body.slice(0, 200)}`.trim());
+    }
+
+    return {
+      audio: new Uint8Array(await response.arrayBuffer()),
+      contentType: response.headers.get('Content-Type') || 'audio/mpeg'
+    };
+  }
+}
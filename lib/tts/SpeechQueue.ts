@@ -0,0 +1,312 @@
+import { TTSUtteranceEvents } from './TTSProvider';
+
+// Chrome stops speaking an utterance after about 15 seconds, so longer sentences are split at a pause
+const MAX_SENTENCE_LENGTH = 200;
+
+export type SpeechQueueState = 'idle' | 'playing' | 'paused';
+
+export interface SpeechProgress {
+  state: SpeechQueueState;
+  // Sentence being spoken, or the one resume starts from when paused
+  index: number;
+  // Sentences known so far; grows while a streamed reply is still arriving
+  total: number;
+  // Text of sentence `index`, or '' when there is none yet
+  sentence: string;
+}
+
+export interface SpeechQueueCallbacks {
+  // The first sentence started
+  onStart?: () => void;
+  // The last sentence finished after `end` was called; not called when speech is stopped
+  onEnd?: () => void;
+}
+
+// Where a fenced code block starts and ends in the text; `end` is -1 while its closing fence hasn't arrived
+interface CodeFence {
+  start: number;
+  end: number;
+}
+
+function findCodeFences(text: string): CodeFence[] {
+  const fences: CodeFence[] = [];
+  let start = text.indexOf('```');
+  while (start >= 0) {
+    const close = text.indexOf('```', start + 3);
+    if (close < 0) {
+      fences.push({ start, end: -1 });
+      break;
+    }
+    fences.push({ start, end: close + 3 });
+    start = text.indexOf('```', close + 3);
+  }
+  return fences;
+}
+
+/**
+ * Split text into complete sentences and the unfinished remainder.
+ * Line breaks also end a sentence, so list items and headings are spoken separately, and a fenced code block
+ * is kept whole; one that hasn't been closed yet holds back everything from its start.
+ */
+export function extractCompleteSentences(text: string): { sentences: string[]; remainder: string } {
+  const sentences: string[] = [];
+  const boundary = /[.!?…]+["')\]]*\s+|[。！？]+|\n+/g;
+  const fences = findCodeFences(text);
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = boundary.exec(text)) !== null) {
+    const index = match.index;
+    const fence = fences.find(f => index >= f.start && (f.end < 0 || index < f.end));
+    if (fence) {
+      if (fence.end < 0) break;
+      // Look for the end of the sentence after the block
+      boundary.lastIndex = fence.end;
+      continue;
+    }
+
+    const end = index + match[0].length;
+    const sentence = text.slice(start, end).trim();
+    if (sentence) {
+      sentences.push(sentence);
+    }
+    start = end;
+  }
+
+  return { sentences, remainder: text.slice(start) };
+}
+
+/**
+ * Split a sentence that is too long to speak in one go, preferring commas and other pauses, then spaces
+ */
+export function splitLongSentence(sentence: string, maxLength: number = MAX_SENTENCE_LENGTH): string[] {
+  const parts: string[] = [];
+  let rest = sentence.trim();
+
+  while (rest.length > maxLength) {
+    const head = rest.slice(0, maxLength);
+    let cut = Math.max(
+      head.lastIndexOf(', '), head.lastIndexOf('; '), head.lastIndexOf(': '),
+      head.lastIndexOf(' - '), head.lastIndexOf('，'), head.lastIndexOf('、')
+    );
+    // A pause too early in the chunk would leave a string of tiny pieces
+    if (cut < maxLength / 2) cut = head.lastIndexOf(' ');
+    // No spaces at all (e.g. Chinese or Japanese without commas): cut anywhere
+    cut = cut > 0 ? cut + 1 : maxLength;
+
+    parts.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut).trim();
+  }
+
+  if (rest) parts.push(rest);
+  return parts;
+}
+
+/**
+ * Speaks one reply sentence by sentence, so no single utterance runs long enough for the browser to cut it off,
+ * and so the listener can pause, skip a sentence or hear the reply again.
+ * Text may be appended while the reply is still being generated; each complete sentence is queued as it arrives.
+ * All queued sentences are handed to the provider at once, so server audio for the next one is fetched early.
+ */
+export class SpeechQueue {
+  private speakSentence: (text: string, events: TTSUtteranceEvents) => void;
+  private cancelSpeech: () => void;
+  private prepareSentence: (text: string) => string;
+  private callbacks: SpeechQueueCallbacks = {};
+  private sentences: string[] = [];
+  // Text that doesn't end a sentence yet
+  private buffer = '';
+  private state: SpeechQueueState = 'idle';
+  private current = 0;
+  // Next sentence to hand to the provider
+  private nextToQueue = 0;
+  private started = false;
+  private ended = false;
+  // Incremented whenever the provider's queue is cancelled, so callbacks from cancelled sentences are ignored
+  private run = 0;
+  private onProgressCallback: ((progress: SpeechProgress) => void) | null = null;
+
+  /**
+   * @param speakSentence queues one sentence with the speech provider
+   * @param cancelSpeech stops the provider and drops everything it has queued
+   * @param prepareSentence turns a sentence as written into the words to say; sentences that come out empty are skipped
+   */
+  constructor(
+    speakSentence: (text: string, events: TTSUtteranceEvents) => void,
+    cancelSpeech: () => void,
+    prepareSentence: (text: string) => string = text => text
+  ) {
+    this.speakSentence = speakSentence;
+    this.cancelSpeech = cancelSpeech;
+    this.prepareSentence = prepareSentence;
+  }
+
+  /**
+   * Start a new reply, stopping the current one
+   */
+  public start(callbacks: SpeechQueueCallbacks = {}): void {
+    this.cancelRun();
+    this.callbacks = callbacks;
+    this.sentences = [];
+    this.buffer = '';
+    this.state = 'playing';
+    this.current = 0;
+    this.nextToQueue = 0;
+    this.started = false;
+    this.ended = false;
+    this.emitProgress();
+  }
+
+  // Add text to the reply; complete sentences are spoken right away unless paused
+  public append(text: string): void {
+    if (this.state === 'idle' || this.ended) return;
+
+    this.buffer += text;
+    const { sentences, remainder } = extractCompleteSentences(this.buffer);
+    this.buffer = remainder;
+    this.addSentences(sentences);
+  }
+
+  // Mark the reply as complete and speak whatever text is left over
+  public end(): void {
+    if (this.state === 'idle' || this.ended) return;
+
+    this.ended = true;
+    const remainder = this.buffer.trim();
+    this.buffer = '';
+    if (remainder) this.addSentences([remainder]);
+    // Everything has been spoken already, or the rest had nothing to say
+    if (this.state === 'playing' && this.current >= this.sentences.length) {
+      this.finish();
+    }
+  }
+
+  /**
+   * Stop speaking and forget the reply, without calling onEnd
+   */
+  public stop(): void {
+    if (this.state === 'idle') return;
+
+    this.cancelRun();
+    this.state = 'idle';
+    this.sentences = [];
+    this.buffer = '';
+    this.emitProgress();
+  }
+
+  // Cut the current sentence off; resume starts it again from its beginning
+  public pause(): void {
+    if (this.state !== 'playing') return;
+
+    this.cancelRun();
+    this.state = 'paused';
+    this.emitProgress();
+  }
+
+  public resume(): void {
+    if (this.state !== 'paused') return;
+    this.playFrom(this.current);
+  }
+
+  // Go on with the next sentence, resuming if paused
+  public skip(): void {
+    if (this.state === 'idle') return;
+
+    this.cancelRun();
+    this.playFrom(Math.min(this.current + 1, this.sentences.length));
+  }
+
+  // Speak the reply again from its first sentence
+  public replay(): void {
+    if (this.state === 'idle') return;
+
+    this.cancelRun();
+    this.playFrom(0);
+  }
+
+  public getProgress(): SpeechProgress {
+    return {
+      state: this.state,
+      index: this.current,
+      total: this.sentences.length,
+      sentence: this.sentences[this.current] || ''
+    };
+  }
+
+  // Called whenever the state or the current sentence changes
+  public onProgress(callback: ((progress: SpeechProgress) => void) | null): void {
+    this.onProgressCallback = callback;
+  }
+
+  private addSentences(sentences: string[]): void {
+    sentences.forEach(sentence => {
+      const spoken = this.prepareSentence(sentence).trim();
+      if (spoken) this.sentences.push(...splitLongSentence(spoken));
+    });
+    if (this.state === 'playing') this.queueSentences();
+    this.emitProgress();
+  }
+
+  private playFrom(index: number): void {
+    this.state = 'playing';
+    this.current = index;
+    this.nextToQueue = index;
+    if (this.ended && index >= this.sentences.length) {
+      this.finish();
+      return;
+    }
+    this.queueSentences();
+    this.emitProgress();
+  }
+
+  // Hand every sentence that isn't queued yet to the provider
+  private queueSentences(): void {
+    const run = this.run;
+
+    while (this.nextToQueue < this.sentences.length) {
+      const index = this.nextToQueue++;
+      const handleDone = () => {
+        if (run !== this.run) return;
+
+        this.current = index + 1;
+        if (this.ended && this.current >= this.sentences.length) {
+          this.finish();
+        }
+      };
+      this.speakSentence(this.sentences[index], {
+        onStart: () => {
+          if (run !== this.run) return;
+
+          this.current = index;
+          this.emitProgress();
+          if (!this.started) {
+            this.started = true;
+            if (this.callbacks.onStart) this.callbacks.onStart();
+          }
+        },
+        onEnd: handleDone,
+        onError: handleDone
+      });
+    }
+  }
+
+  private finish(): void {
+    const { onEnd } = this.callbacks;
+    this.run++;
+    this.state = 'idle';
+    this.sentences = [];
+    this.current = 0;
+    this.nextToQueue = 0;
+    this.emitProgress();
+    if (onEnd) onEnd();
+  }
+
+  private cancelRun(): void {
+    this.run++;
+    this.cancelSpeech();
+  }
+
+  private emitProgress(): void {
+    if (this.onProgressCallback) this.onProgressCallback(this.getProgress());
+  }
+}
@@ -0,0 +1,25 @@
+export interface SynthesisOptions {
+  // BCP 47 language of the text, e.g. 'en-US'
+  language: string;
+  // Speaking rate and pitch, where 1 is normal
+  rate?: number;
+  pitch?: number;
+  // Cancels the request
+  signal?: AbortSignal;
+}
+
+export interface SynthesizedAudio {
+  audio: Uint8Array;
+  // MIME type of the audio, e.g. 'audio/mpeg'
+  contentType: string;
+}
+
+/**
+ * A server-side speech engine that turns text into audio, used by the /api/tts route.
+ * The browser plays the audio with AudioTTSProvider.
+ */
+export interface SpeechSynthesizer {
+  readonly name: string;
+
+  synthesize(text: string, options: SynthesisOptions): Promise<SynthesizedAudio>;
+}
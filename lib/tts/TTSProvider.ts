@@ -0,0 +1,43 @@
+// One piece of text to speak, usually a sentence
+export interface TTSRequest {
+  text: string;
+  // BCP 47 language, e.g. 'en-US'
+  language: string;
+  rate: number;
+  pitch: number;
+  // From 0 (silent) to 1 (full volume)
+  volume: number;
+  // Browser voice to use, for providers that speak with browser voices
+  voiceURI?: string;
+}
+
+// Callbacks for one request; exactly one of onEnd or onError is called unless speech is cancelled
+export interface TTSUtteranceEvents {
+  onStart?: () => void;
+  // A word starting at `charIndex` of the request text is being spoken
+  onBoundary?: (charIndex: number) => void;
+  onEnd?: () => void;
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * A text-to-speech backend used by SpeechService.
+ * Requests are spoken one after another in the order they were made, until `cancel` is called.
+ */
+export interface TTSProvider {
+  readonly name: string;
+  // Whether the audio plays through SpeechService's analyser, so its amplitude can drive the mouth
+  readonly playsThroughAnalyser: boolean;
+
+  isAvailable(): boolean;
+
+  /**
+   * Queue text to be spoken after anything already queued
+   */
+  speak(request: TTSRequest, events?: TTSUtteranceEvents): void;
+
+  /**
+   * Stop speaking and drop everything queued
+   */
+  cancel(): void;
+}
@@ -0,0 +1,66 @@
+import { SpeechSynthesizer, SynthesisOptions, SynthesizedAudio } from './SpeechSynthesizer';
+
+const SAMPLE_RATE = 16000;
+// Length of the pulse for each character at rate 1
+const CHARACTER_MS = 60;
+const SILENT_CHARACTERS = /[\s.,!?;:…。、！？，：；]/;
+
+/**
+ * Offline stand-in for a speech engine, for development and tests.
+ * It "speaks" a buzzing tone with one pulse per character and gaps between words, so the audio
+ * pipeline and the mouth animation can be exercised without an API key or network access.
+ */
+export class ToneSpeechSynthesizer implements SpeechSynthesizer {
+  public readonly name = 'mock';
+
+  public async synthesize(text: string, options: SynthesisOptions): Promise<SynthesizedAudio> {
+    const rate = Math.max(0.1, options.rate ?? 1);
+    const pitch = Math.max(0.1, options.pitch ?? 1);
+    const samplesPerCharacter = Math.round((SAMPLE_RATE * CHARACTER_MS) / 1000 / rate);
+    const characters = text.trim();
+    const samples = new Int16Array(characters.length * samplesPerCharacter);
+
+    for (let i = 0; i < characters.length; i++) {
+      if (SILENT_CHARACTERS.test(characters[i])) continue;
+
+      // Vary the tone a little between characters so it doesn't sound like a single beep
+      const frequency = (140 + (characters.charCodeAt(i) % 7) * 15) * pitch;
+      for (let j = 0; j < samplesPerCharacter; j++) {
+        const envelope = Math.sin((Math.PI * j) / samplesPerCharacter);
+        const wave = Math.sin((2 * Math.PI * frequency * j) / SAMPLE_RATE);
+        samples[i * samplesPerCharacter + j] = Math.round(wave * envelope * 0.5 * 32767);
+      }
+    }
+
+    return { audio: encodeWav(samples, SAMPLE_RATE), contentType: 'audio/wav' };
+  }
+}
+
+// Wrap 16-bit mono PCM samples in a WAV file
+function encodeWav(samples: Int16Array, sampleRate: number): Uint8Array {
+  const dataSize = samples.length * 2;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // bytes per second
+  view.setUint16(32, 2, true); // bytes per sample
+  view.setUint16(34, 16, true); // bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+  for (let i = 0; i < samples.length; i++) {
+    view.setInt16(44 + i * 2, samples[i], true);
+  }
+
+  return new Uint8Array(buffer);
+}
@@ -0,0 +1,69 @@
+import { TTSProvider, TTSRequest, TTSUtteranceEvents } from './TTSProvider';
+
+/**
+ * Speaks with the browser's own voices through the Web Speech API.
+ * The browser plays the audio itself, so it can't be analysed, but it reports word boundaries.
+ */
+export class WebSpeechTTSProvider implements TTSProvider {
+  public readonly name = 'web-speech';
+  public readonly playsThroughAnalyser = false;
+  private synthesis: SpeechSynthesis | null = typeof window !== 'undefined' && window.speechSynthesis
+    ? window.speechSynthesis
+    : null;
+  // Keep references to queued utterances so the browser doesn't garbage collect them before they end
+  private queuedUtterances: SpeechSynthesisUtterance[] = [];
+
+  public isAvailable(): boolean {
+    return this.synthesis !== null;
+  }
+
+  public speak(request: TTSRequest, events: TTSUtteranceEvents = {}): void {
+    if (!this.synthesis) {
+      if (events.onError) events.onError(new Error('Speech synthesis not available'));
+      return;
+    }
+
+    const utterance = new SpeechSynthesisUtterance(request.text);
+    utterance.rate = request.rate;
+    utterance.pitch = request.pitch;
+    utterance.volume = request.volume;
+    utterance.lang = request.language;
+    const voice = request.voiceURI
+      ? this.synthesis.getVoices().find(v => v.voiceURI === request.voiceURI)
+      : undefined;
+    if (voice) {
+      utterance.voice = voice;
+    }
+
+    utterance.onstart = () => {
+      if (events.onStart) events.onStart();
+    };
+    utterance.onboundary = (event) => {
+      if (event.name === 'word' && events.onBoundary) events.onBoundary(event.charIndex);
+    };
+    utterance.onend = () => {
+      this.release(utterance);
+      if (events.onEnd) events.onEnd();
+    };
+    utterance.onerror = (event) => {
+      this.release(utterance);
+      // Utterances dropped by cancel() report these; cancelled speech gets no callbacks
+      if (event.error === 'interrupted' || event.error === 'canceled') return;
+      if (events.onError) events.onError(event.error);
+    };
+
+    this.queuedUtterances.push(utterance);
+    this.synthesis.speak(utterance);
+  }
+
+  public cancel(): void {
+    this.queuedUtterances = [];
+    if (this.synthesis && (this.synthesis.speaking || this.synthesis.pending)) {
+      this.synthesis.cancel();
+    }
+  }
+
+  private release(utterance: SpeechSynthesisUtterance): void {
+    this.queuedUtterances = this.queuedUtterances.filter(u => u !== utterance);
+  }
+}
@@ -0,0 +1,56 @@
+import { SpeechSynthesizer } from './SpeechSynthesizer';
+import { OpenAISpeechSynthesizer } from './OpenAISpeechSynthesizer';
+import { ToneSpeechSynthesizer } from './ToneSpeechSynthesizer';
+
+// 'browser' means there is no server-side engine and the browser's own voices are used
+export type TTSProviderName = 'browser' | 'openai' | 'mock';
+
+export interface TTSConfig {
+  provider: TTSProviderName;
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string;
+  voice?: string;
+}
+
+const PROVIDER_NAMES: TTSProviderName[] = ['browser', 'openai', 'mock'];
+
+/**
+ * Read the speech synthesis configuration from environment variables (server-side only):
+ * TTS_PROVIDER, TTS_BASE_URL, TTS_API_KEY, TTS_MODEL and TTS_VOICE
+ */
+export function loadTTSConfig(env: Record<string, string | undefined> = process.env): TTSConfig {
+  const provider = (env.TTS_PROVIDER || 'browser').toLowerCase() as TTSProviderName;
+  if (!PROVIDER_NAMES.includes(provider)) {
+    throw new Error(`Unknown TTS_PROVIDER "${env.TTS_PROVIDER}". Expected one of: ${PROVIDER_NAMES.join(', ')}`);
+  }
+
+  return {
+    provider,
+    baseUrl: env.TTS_BASE_URL || undefined,
+    apiKey: env.TTS_API_KEY || undefined,
+    model: env.TTS_MODEL || undefined,
+    voice: env.TTS_VOICE || undefined
+  };
+}
+
+/**
+ * Build the synthesizer described by the configuration, or null when the browser speaks by itself
+ */
+export function createSpeechSynthesizer(config: TTSConfig): SpeechSynthesizer | null {
+  const { provider, baseUrl, apiKey, model, voice } = config;
+
+  switch (provider) {
+    case 'browser':
+      return null;
+
+    case 'openai':
+      if (!baseUrl) {
+        throw new Error('TTS_BASE_URL is required for the openai speech provider');
+      }
+      return new OpenAISpeechSynthesizer({ baseUrl, apiKey, model, voice });
+
+    case 'mock':
+      return new ToneSpeechSynthesizer();
+  }
+}
@@ -0,0 +1,83 @@
+import { EmotionType } from '../types';
+import { loadPreference, savePreference } from '../storage/preferences';
+
+/**
+ * How a character's voice sounds; 1 is the voice's normal rate and pitch, and volume runs from 0 to 1
+ */
+export interface Prosody {
+  rate: number;
+  pitch: number;
+  volume: number;
+}
+
+export type ProsodySetting = keyof Prosody;
+
+export const DEFAULT_PROSODY: Prosody = { rate: 1, pitch: 1, volume: 1 };
+
+// What the sliders and persona files may use; browsers accept a little more but sound broken beyond this
+export const PROSODY_RANGES: Record<ProsodySetting, { min: number; max: number }> = {
+  rate: { min: 0.5, max: 2 },
+  pitch: { min: 0.5, max: 2 },
+  volume: { min: 0, max: 1 }
+};
+
+// How much "speak slower" or "speak faster" changes the rate
+export const RATE_STEP = 0.15;
+
+// How each emotion changes the character's voice at full intensity, as factors on its prosody
+const EMOTION_PROSODY: Record<EmotionType, Prosody> = {
+  neutral: { rate: 1, pitch: 1, volume: 1 },
+  happy: { rate: 1.08, pitch: 1.1, volume: 1 },
+  sad: { rate: 0.85, pitch: 0.9, volume: 0.85 },
+  angry: { rate: 1.05, pitch: 0.95, volume: 1 },
+  surprised: { rate: 1.1, pitch: 1.15, volume: 1 },
+  thinking: { rate: 0.92, pitch: 0.97, volume: 0.9 }
+};
+
+function clamp(setting: ProsodySetting, value: number): number {
+  const { min, max } = PROSODY_RANGES[setting];
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Adjust a character's prosody for the emotion of what it is saying; `intensity` (0 to 1) scales the change
+ */
+export function applyEmotion(prosody: Prosody, emotion: EmotionType, intensity: number = 1): Prosody {
+  const factors = EMOTION_PROSODY[emotion] || EMOTION_PROSODY.neutral;
+  const strength = Math.min(1, Math.max(0, intensity));
+  const adjust = (setting: ProsodySetting) =>
+    clamp(setting, prosody[setting] * (1 + (factors[setting] - 1) * strength));
+
+  return { rate: adjust('rate'), pitch: adjust('pitch'), volume: adjust('volume') };
+}
+
+/**
+ * Fill in missing settings from the defaults and keep each within its range
+ */
+export function completeProsody(prosody: Partial<Prosody> = {}): Prosody {
+  return {
+    rate: clamp('rate', prosody.rate ?? DEFAULT_PROSODY.rate),
+    pitch: clamp('pitch', prosody.pitch ?? DEFAULT_PROSODY.pitch),
+    volume: clamp('volume', prosody.volume ?? DEFAULT_PROSODY.volume)
+  };
+}
+
+export function isProsody(value: unknown): value is Prosody {
+  if (!value || typeof value !== 'object') return false;
+  const prosody = value as Record<string, unknown>;
+  return (Object.keys(PROSODY_RANGES) as ProsodySetting[]).every(setting => typeof prosody[setting] === 'number');
+}
+
+// The user's own settings for a character's voice, or null to use the character's
+export function loadProsodyOverride(personaId: string): Prosody | null {
+  const stored = loadPreference<Prosody | null>(
+    `prosody.${personaId}`,
+    (value): value is Prosody | null => value === null || isProsody(value),
+    null
+  );
+  return stored ? completeProsody(stored) : null;
+}
+
+export function saveProsodyOverride(personaId: string, prosody: Prosody | null): void {
+  savePreference(`prosody.${personaId}`, prosody);
+}
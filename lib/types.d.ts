@@ -59,8 +59,80 @@ declare class SpeechRecognition extends EventTarget {
 
 // Dashscope API Types
 export interface ChatMessage {
-  role: 'user' | 'assistant' | 'system';
+  role: 'user' | 'assistant' | 'system' | 'tool';
   content: string;
+  // Set on assistant messages that ask for tools to be run
+  tool_calls?: ToolCall[];
+  // Set on tool messages to link the result to its call
+  tool_call_id?: string;
+  name?: string;
+}
+
+// OpenAI-compatible function calling types
+export interface ToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    // JSON-encoded arguments, exactly as produced by the model
+    arguments: string;
+  };
+}
+
+export interface JSONSchema {
+  type?: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'null';
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  enum?: Array<string | number>;
+}
+
+export interface ToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: JSONSchema;
+  };
+}
+
+// Facial expression an avatar can show
+export type EmotionType = 'neutral' | 'happy' | 'sad' | 'angry' | 'surprised' | 'thinking';
+
+// Short body movements an avatar can play while it speaks
+export type GestureType = 'nod' | 'shake' | 'tilt' | 'bounce';
+
+// A reply from the model, annotated with how the avatar should deliver it
+export interface AgentReply {
+  // What the avatar says out loud; this is all that is kept in the history
+  text: string;
+  emotion: EmotionType;
+  // 0 (barely visible) to 1 (full expression)
+  intensity: number;
+  gestures: GestureType[];
+  // 1-based numbers of the knowledge passages the model said it used
+  citations?: number[];
+  // The knowledge passages behind the reply, shown as sources in the chat panel
+  sources?: KnowledgePassage[];
+}
+
+// One way speech recognition heard an utterance; recognizers list them best first
+export interface TranscriptAlternative {
+  text: string;
+  // 0 to 1, when the recognizer reports it
+  confidence?: number;
+}
+
+// A passage retrieved from a character's knowledge base
+export interface KnowledgePassage {
+  id: string;
+  // File the passage comes from, relative to the character's knowledge folder
+  source: string;
+  // Nearest heading above the passage (or the file name)
+  title: string;
+  text: string;
+  score: number;
 }
 
 export interface ChatRequest {
@@ -0,0 +1,235 @@
+import { MicrophoneLease, MicrophoneManager, getMicrophone } from '../audio/MicrophoneManager';
+
+// How often the microphone is analysed
+const FRAME_MS = 30;
+const FFT_SIZE = 1024;
+// Frequency band that carries most of the energy of speech
+const SPEECH_BAND_HZ: [number, number] = [250, 4000];
+// Share of the energy that must fall in the speech band
+const MIN_SPEECH_BAND_RATIO = 0.55;
+// Speech is tonal; noise like fans and keyboard clatter has a flat spectrum (flatness near 1)
+const MAX_SPECTRAL_FLATNESS = 0.5;
+// Quietest level the noise floor may settle at, so a silent room doesn't make every breath count as speech
+const MIN_NOISE_FLOOR = 0.003;
+// Voiced audio needed before speech is reported
+const ONSET_MS = 150;
+// While the avatar is talking, its voice leaks back into the microphone despite echo cancellation,
+// so the level must be this many times higher and last longer before it counts as the user
+const PLAYBACK_THRESHOLD_FACTOR = 2.5;
+const PLAYBACK_ONSET_MS = 300;
+// Silence after which speech is reported as over
+const HANGOVER_MS = 600;
+
+export interface VoiceActivityCallbacks {
+  onSpeechStart?: () => void;
+  onSpeechEnd?: () => void;
+}
+
+export interface FrameFeatures {
+  // RMS level of the samples, 0 to 1
+  level: number;
+  // Share of the spectral energy inside the speech band, 0 to 1
+  speechBandRatio: number;
+  // Spectral flatness of the speech band: near 0 for tonal sounds, near 1 for noise
+  flatness: number;
+}
+
+/**
+ * Measure one frame of microphone audio. `spectrum` holds decibel values from AnalyserNode.getFloatFrequencyData.
+ */
+export function measureFrame(samples: Float32Array, spectrum: Float32Array, sampleRate: number): FrameFeatures {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  const level = Math.sqrt(sum / samples.length);
+
+  const binHz = sampleRate / (spectrum.length * 2);
+  const low = Math.max(1, Math.floor(SPEECH_BAND_HZ[0] / binHz));
+  const high = Math.min(spectrum.length - 1, Math.ceil(SPEECH_BAND_HZ[1] / binHz));
+
+  let total = 0;
+  let band = 0;
+  let logSum = 0;
+  for (let i = 1; i < spectrum.length; i++) {
+    // Decibels to power; silent bins report -Infinity
+    const power = Number.isFinite(spectrum[i]) ? Math.pow(10, spectrum[i] / 10) : 0;
+    total += power;
+    if (i >= low && i <= high) {
+      band += power;
+      logSum += Math.log(power + 1e-12);
+    }
+  }
+
+  const bins = high - low + 1;
+  const mean = band / bins;
+  return {
+    level,
+    speechBandRatio: total > 0 ? band / total : 0,
+    flatness: mean > 0 ? Math.exp(logSum / bins) / mean : 1
+  };
+}
+
+/**
+ * Detects when the user starts and stops talking, from the level and spectrum of the microphone.
+ * Works on the shared echo-cancelled microphone stream and keeps running while the avatar speaks,
+ * so the user can talk over it.
+ */
+export class VoiceActivityDetector {
+  private sensitivity: number;
+  private playbackActive = false;
+  private callbacks: VoiceActivityCallbacks = {};
+  private running = false;
+  private lease: MicrophoneLease | null = null;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private audioContext: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private samples: Float32Array | null = null;
+  private spectrum: Float32Array | null = null;
+  private frameTimer: ReturnType<typeof setInterval> | null = null;
+  private noiseFloor = MIN_NOISE_FLOOR;
+  private voicedMs = 0;
+  private silentMs = 0;
+  private speaking = false;
+
+  public static isSupported(): boolean {
+    return typeof window !== 'undefined' &&
+      MicrophoneManager.isSupported() &&
+      Boolean((window as any).AudioContext || (window as any).webkitAudioContext);
+  }
+
+  /**
+   * @param sensitivity 0 (only loud, clear speech) to 1 (anything a little louder than the room)
+   */
+  constructor(sensitivity: number = 0.5) {
+    this.sensitivity = clampSensitivity(sensitivity);
+  }
+
+  public setSensitivity(sensitivity: number): void {
+    this.sensitivity = clampSensitivity(sensitivity);
+  }
+
+  // Tell the detector whether the avatar is talking, to raise its thresholds against echo
+  public setPlaybackActive(active: boolean): void {
+    this.playbackActive = active;
+  }
+
+  public isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  public async start(callbacks: VoiceActivityCallbacks): Promise<void> {
+    this.callbacks = callbacks;
+    if (this.running) return;
+    this.running = true;
+
+    let lease: MicrophoneLease;
+    try {
+      lease = await getMicrophone().acquire();
+    } catch (error) {
+      console.error('Failed to get microphone access:', error);
+      this.running = false;
+      return;
+    }
+    // Stopped while waiting for permission
+    if (!this.running) {
+      lease.release();
+      return;
+    }
+
+    const AudioContextClass = (window as any).AudioContext || (window as any).webkitAudioContext;
+    this.lease = lease;
+    this.audioContext = new AudioContextClass() as AudioContext;
+    this.analyser = this.audioContext.createAnalyser();
+    this.analyser.fftSize = FFT_SIZE;
+    this.analyser.smoothingTimeConstant = 0;
+    this.samples = new Float32Array(this.analyser.fftSize);
+    this.spectrum = new Float32Array(this.analyser.frequencyBinCount);
+    this.connect(lease.stream);
+    lease.onStreamChange(stream => this.connect(stream));
+
+    this.frameTimer = setInterval(this.analyseFrame, FRAME_MS);
+  }
+
+  public stop(): void {
+    if (!this.running) return;
+    this.running = false;
+
+    if (this.frameTimer) {
+      clearInterval(this.frameTimer);
+      this.frameTimer = null;
+    }
+    if (this.source) {
+      this.source.disconnect();
+      this.source = null;
+    }
+    if (this.lease) {
+      this.lease.release();
+      this.lease = null;
+    }
+    if (this.audioContext) {
+      this.audioContext.close().catch(() => undefined);
+      this.audioContext = null;
+    }
+    this.analyser = null;
+    this.speaking = false;
+    this.voicedMs = 0;
+    this.silentMs = 0;
+  }
+
+  private connect(stream: MediaStream): void {
+    if (!this.audioContext || !this.analyser) return;
+    if (this.source) this.source.disconnect();
+    this.source = this.audioContext.createMediaStreamSource(stream);
+    this.source.connect(this.analyser);
+  }
+
+  private analyseFrame = (): void => {
+    if (!this.analyser || !this.samples || !this.spectrum || !this.audioContext) return;
+
+    this.analyser.getFloatTimeDomainData(this.samples);
+    this.analyser.getFloatFrequencyData(this.spectrum);
+    const frame = measureFrame(this.samples, this.spectrum, this.audioContext.sampleRate);
+
+    // Sensitivity 1 needs twice the noise floor, sensitivity 0 needs six times
+    let threshold = this.noiseFloor * (6 - 4 * this.sensitivity);
+    let onsetMs = ONSET_MS;
+    if (this.playbackActive) {
+      threshold *= PLAYBACK_THRESHOLD_FACTOR;
+      onsetMs = PLAYBACK_ONSET_MS;
+    }
+
+    const voiced = frame.level > threshold &&
+      frame.speechBandRatio >= MIN_SPEECH_BAND_RATIO &&
+      frame.flatness <= MAX_SPECTRAL_FLATNESS;
+
+    if (voiced) {
+      this.voicedMs += FRAME_MS;
+      this.silentMs = 0;
+    } else {
+      // Short dips between syllables don't reset the onset
+      this.voicedMs = Math.max(0, this.voicedMs - 2 * FRAME_MS);
+      this.silentMs += FRAME_MS;
+      this.updateNoiseFloor(frame.level);
+    }
+
+    if (!this.speaking && this.voicedMs >= onsetMs) {
+      this.speaking = true;
+      if (this.callbacks.onSpeechStart) this.callbacks.onSpeechStart();
+    } else if (this.speaking && this.silentMs >= HANGOVER_MS) {
+      this.speaking = false;
+      this.voicedMs = 0;
+      if (this.callbacks.onSpeechEnd) this.callbacks.onSpeechEnd();
+    }
+  };
+
+  // Follow the background level: drop quickly when the room gets quieter, rise slowly when it gets louder
+  private updateNoiseFloor(level: number): void {
+    const rate = level < this.noiseFloor ? 0.2 : 0.02;
+    this.noiseFloor = Math.max(MIN_NOISE_FLOOR, this.noiseFloor + (level - this.noiseFloor) * rate);
+  }
+}
+
+function clampSensitivity(sensitivity: number): number {
+  return Math.min(1, Math.max(0, sensitivity));
+}
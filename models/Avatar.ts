@@ -0,0 +1,86 @@
+import type { EmotionType, GestureType } from '../lib/types';
+import type { VisemeTrack } from '../lib/lipsync/VisemeTrack';
+
+/**
+ * A 3D character the agent UI can drive, whatever model it is built from
+ */
+export interface Avatar {
+  /**
+   * Render into `container` and start animating
+   */
+  mount(container: HTMLElement): void;
+  unmount(): void;
+
+  /**
+   * Call `listener` once the model is ready to be shown, right away if it already is
+   */
+  onLoad(listener: () => void): void;
+  /**
+   * Call `listener` if the model can't be loaded
+   */
+  onLoadError(listener: (error: unknown) => void): void;
+
+  /**
+   * Move the mouth for the current audio level (0 to 1); ignored while a viseme track is playing
+   */
+  animateTalking(intensity: number): void;
+  /**
+   * Shape the mouth along the visemes of the utterance being spoken; null lets it return to rest
+   */
+  playVisemes(track: VisemeTrack | null): void;
+  /**
+   * Show an emotion; `intensity` (0 to 1) scales how strongly it is shown
+   */
+  setEmotion(emotion: EmotionType, intensity?: number): void;
+  /**
+   * Play gestures (nod, shake, tilt, bounce) one after another
+   */
+  playGestures(gestures: GestureType[]): void;
+
+  toggleAutoRotate(enable: boolean): void;
+  setAutoRotateSpeed(speed: number): void;
+  resetCamera(): void;
+}
+
+/**
+ * Keeps track of whether an avatar's model has loaded and notifies listeners, including late ones
+ */
+export class AvatarLoadEvents {
+  private state: 'loading' | 'loaded' | 'failed' = 'loading';
+  private error: unknown = null;
+  private loadListeners: Array<() => void> = [];
+  private errorListeners: Array<(error: unknown) => void> = [];
+
+  public onLoad(listener: () => void): void {
+    if (this.state === 'loaded') {
+      listener();
+    } else {
+      this.loadListeners.push(listener);
+    }
+  }
+
+  public onLoadError(listener: (error: unknown) => void): void {
+    if (this.state === 'failed') {
+      listener(this.error);
+    } else {
+      this.errorListeners.push(listener);
+    }
+  }
+
+  public loaded(): void {
+    if (this.state !== 'loading') return;
+    this.state = 'loaded';
+    this.loadListeners.forEach(listener => listener());
+    this.loadListeners = [];
+    this.errorListeners = [];
+  }
+
+  public failed(error: unknown): void {
+    if (this.state !== 'loading') return;
+    this.state = 'failed';
+    this.error = error;
+    this.errorListeners.forEach(listener => listener(error));
+    this.loadListeners = [];
+    this.errorListeners = [];
+  }
+}
@@ -1,7 +1,13 @@
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
-
-export class Beaver {
+import type { EmotionType, GestureType } from '../lib/types';
+import { GesturePlayer } from './GesturePlayer';
+import { VisemePlayer } from './VisemePlayer';
+import { Avatar, AvatarLoadEvents } from './Avatar';
+import { BeaverPose, getBeaverPose } from './beaverPoses';
+import type { VisemeTrack } from '../lib/lipsync/VisemeTrack';
+
+export class Beaver implements Avatar {
   private scene: THREE.Scene;
   private camera: THREE.PerspectiveCamera;
   private renderer: THREE.WebGLRenderer;
@@ -11,6 +17,12 @@ export class Beaver {
   private tail: THREE.Mesh;
   private container: HTMLElement | null = null;
   private animationId: number | null = null;
+  private pose: BeaverPose = getBeaverPose('neutral');
+  // Wraps the beaver so gestures don't interfere with the talking and emotion movement
+  private gesturePivot: THREE.Group = new THREE.Group();
+  private gestures = new GesturePlayer();
+  private visemes = new VisemePlayer();
+  private loadEvents = new AvatarLoadEvents();
 
   constructor() {
     // Initialize scene
@@ -53,6 +65,9 @@ export class Beaver {
     
     // Add ground
     this.addGround();
+    
+    // Built in code, so the model is ready as soon as it is constructed
+    this.loadEvents.loaded();
   }
 
   private createBeaver(): void {
@@ -196,7 +211,8 @@ export class Beaver {
     this.beaver.add(this.tail);
 
     // Add beaver to scene
-    this.scene.add(this.beaver);
+    this.gesturePivot.add(this.beaver);
+    this.scene.add(this.gesturePivot);
   }
 
   private createMouth(): THREE.Mesh {
@@ -278,6 +294,14 @@ export class Beaver {
     this.scene.add(fillLight);
   }
 
+  public onLoad(listener: () => void): void {
+    this.loadEvents.onLoad(listener);
+  }
+
+  public onLoadError(listener: (error: unknown) => void): void {
+    this.loadEvents.onLoadError(listener);
+  }
+
   public mount(container: HTMLElement): void {
     this.container = container;
     this.renderer.setSize(container.clientWidth, container.clientHeight);
@@ -322,6 +346,15 @@ export class Beaver {
     // Update controls for smooth damping
     this.controls.update();
     
+    this.gestures.update(this.gesturePivot);
+    
+    // Lip-sync to the utterance being spoken
+    const mouthShape = this.visemes.update();
+    if (mouthShape) {
+      this.mouth.scale.set(this.pose.mouthWidth * mouthShape.width, this.pose.mouthOpen + mouthShape.open * 1.5, 1);
+      this.moveHeadWhileTalking();
+    }
+    
     // Animate tail
     if (this.tail) {
       this.tail.rotation.z = Math.sin(Date.now() * 0.002) * 0.2;
@@ -331,14 +364,40 @@ export class Beaver {
   };
 
   public animateTalking(intensity: number): void {
+    if (this.visemes.isActive()) return;
+    
     // Scale mouth based on audio intensity
     const scale = 0.5 + intensity * 1.5; // Scale between 0.5 and 2.0 based on intensity
     
-    this.mouth.scale.set(1, scale, 1);
-    
-    // Also slightly move the head for more lively animation
+    this.mouth.scale.set(this.pose.mouthWidth, scale, 1);
+    this.moveHeadWhileTalking();
+  }
+
+  public playVisemes(track: VisemeTrack | null): void {
+    this.visemes.play(track);
+  }
+
+  // Slightly move the head for more lively animation
+  private moveHeadWhileTalking(): void {
     this.beaver.rotation.y = Math.sin(Date.now() * 0.0015) * 0.1;
-    this.beaver.rotation.x = Math.sin(Date.now() * 0.002) * 0.05;
+    this.beaver.rotation.x = this.pose.tilt + Math.sin(Date.now() * 0.002) * 0.05;
+  }
+
+  /**
+   * Show an emotion; `intensity` (0 to 1) scales how strongly it is shown
+   */
+  public setEmotion(emotion: EmotionType, intensity: number = 1): void {
+    this.pose = getBeaverPose(emotion, intensity);
+    this.mouth.scale.set(this.pose.mouthWidth, this.pose.mouthOpen, 1);
+    this.beaver.rotation.z = -this.pose.lean;
+    this.beaver.rotation.x = this.pose.tilt;
+  }
+
+  /**
+   * Play gestures (nod, shake, tilt, bounce) one after another
+   */
+  public playGestures(gestures: GestureType[]): void {
+    this.gestures.play(gestures);
   }
 
   /**
@@ -1,7 +1,13 @@
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
-
-export class ExplorerBeaver {
+import type { EmotionType, GestureType } from '../lib/types';
+import { GesturePlayer } from './GesturePlayer';
+import { VisemePlayer } from './VisemePlayer';
+import { Avatar, AvatarLoadEvents } from './Avatar';
+import { BeaverPose, getBeaverPose } from './beaverPoses';
+import type { VisemeTrack } from '../lib/lipsync/VisemeTrack';
+
+export class ExplorerBeaver implements Avatar {
   private scene: THREE.Scene;
   private camera: THREE.PerspectiveCamera;
   private renderer: THREE.WebGLRenderer;
@@ -10,6 +16,12 @@ export class ExplorerBeaver {
   private mouth: THREE.Mesh;
   private container: HTMLElement | null = null;
   private animationId: number | null = null;
+  private pose: BeaverPose = getBeaverPose('neutral');
+  // Wraps the beaver so gestures don't interfere with the talking and emotion movement
+  private gesturePivot: THREE.Group = new THREE.Group();
+  private gestures = new GesturePlayer();
+  private visemes = new VisemePlayer();
+  private loadEvents = new AvatarLoadEvents();
 
   constructor() {
     // Initialize scene
@@ -49,6 +61,9 @@ export class ExplorerBeaver {
     
     // Add base/platform
     this.addBase();
+    
+    // Built in code, so the model is ready as soon as it is constructed
+    this.loadEvents.loaded();
   }
 
   private createBeaver(): void {
@@ -95,7 +110,8 @@ export class ExplorerBeaver {
     this.beaver.add(this.mouth);
 
     // Add beaver to scene
-    this.scene.add(this.beaver);
+    this.gesturePivot.add(this.beaver);
+    this.scene.add(this.gesturePivot);
   }
 
   private createSafariHat(headPosition: THREE.Vector3): void {
@@ -351,6 +367,14 @@ export class ExplorerBeaver {
     this.scene.add(fillLight);
   }
 
+  public onLoad(listener: () => void): void {
+    this.loadEvents.onLoad(listener);
+  }
+
+  public onLoadError(listener: (error: unknown) => void): void {
+    this.loadEvents.onLoadError(listener);
+  }
+
   public mount(container: HTMLElement): void {
     this.container = container;
     this.renderer.setSize(container.clientWidth, container.clientHeight);
@@ -395,13 +419,44 @@ export class ExplorerBeaver {
     // Update controls for smooth damping
     this.controls.update();
     
+    this.gestures.update(this.gesturePivot);
+    
+    // Lip-sync to the utterance being spoken
+    const mouthShape = this.visemes.update();
+    if (mouthShape) {
+      this.mouth.scale.set(this.pose.mouthWidth * mouthShape.width, this.pose.mouthOpen + mouthShape.open * 1.5, 1);
+    }
+    
     this.renderer.render(this.scene, this.camera);
   };
 
   public animateTalking(intensity: number): void {
+    if (this.visemes.isActive()) return;
+    
     // Scale mouth based on audio intensity
     const scale = 0.5 + intensity * 1.5; // Scale between 0.5 and 2.0 based on intensity
-    this.mouth.scale.set(1, scale, 1);
+    this.mouth.scale.set(this.pose.mouthWidth, scale, 1);
+  }
+
+  public playVisemes(track: VisemeTrack | null): void {
+    this.visemes.play(track);
+  }
+
+  /**
+   * Show an emotion; `intensity` (0 to 1) scales how strongly it is shown
+   */
+  public setEmotion(emotion: EmotionType, intensity: number = 1): void {
+    this.pose = getBeaverPose(emotion, intensity);
+    this.mouth.scale.set(this.pose.mouthWidth, this.pose.mouthOpen, 1);
+    this.beaver.rotation.x = this.pose.lean;
+    this.beaver.rotation.z = this.pose.tilt;
+  }
+
+  /**
+   * Play gestures (nod, shake, tilt, bounce) one after another
+   */
+  public playGestures(gestures: GestureType[]): void {
+    this.gestures.play(gestures);
   }
 
   /**
@@ -0,0 +1,67 @@
+import * as THREE from 'three';
+import type { GestureType } from '../lib/types';
+
+// How long each gesture takes
+const GESTURE_DURATION_MS = 900;
+
+/**
+ * Plays gestures one after another on a pivot group that wraps an avatar.
+ * The pivot only carries the gesture movement, so it never fights with the avatar's own
+ * talking, emotion and idle animations.
+ */
+export class GesturePlayer {
+  private queue: GestureType[] = [];
+  private current: GestureType | null = null;
+  private startedAt = 0;
+
+  /**
+   * Replace any queued gestures and start playing the given ones in order
+   */
+  public play(gestures: GestureType[]): void {
+    this.queue = gestures.slice();
+    this.current = null;
+  }
+
+  public stop(): void {
+    this.queue = [];
+    this.current = null;
+  }
+
+  /**
+   * Move the pivot for the current frame; call from the render loop
+   */
+  public update(pivot: THREE.Object3D): void {
+    const now = Date.now();
+
+    if (this.current && now - this.startedAt >= GESTURE_DURATION_MS) {
+      this.current = null;
+    }
+    if (!this.current && this.queue.length > 0) {
+      this.current = this.queue.shift() || null;
+      this.startedAt = now;
+    }
+
+    pivot.rotation.set(0, 0, 0);
+    pivot.position.y = 0;
+    if (!this.current) return;
+
+    // 0 to 1 over the gesture, eased in and out so it starts and ends at rest
+    const progress = (now - this.startedAt) / GESTURE_DURATION_MS;
+    const envelope = Math.sin(progress * Math.PI);
+
+    switch (this.current) {
+      case 'nod':
+        pivot.rotation.x = Math.sin(progress * Math.PI * 4) * 0.12 * envelope;
+        break;
+      case 'shake':
+        pivot.rotation.y = Math.sin(progress * Math.PI * 4) * 0.2 * envelope;
+        break;
+      case 'tilt':
+        pivot.rotation.z = 0.15 * envelope;
+        break;
+      case 'bounce':
+        pivot.position.y = Math.abs(Math.sin(progress * Math.PI * 2)) * 0.3 * envelope;
+        break;
+    }
+  }
+}
@@ -1,10 +1,15 @@
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
 import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader';
+import type { EmotionType, GestureType } from '../lib/types';
+import { GesturePlayer } from './GesturePlayer';
+import { VisemePlayer } from './VisemePlayer';
+import { Avatar, AvatarLoadEvents } from './Avatar';
+import type { VisemeTrack } from '../lib/lipsync/VisemeTrack';
 
-export type EmotionType = 'neutral' | 'happy' | 'sad' | 'angry' | 'surprised' | 'thinking';
+export type { EmotionType };
 
-export class TalkingHead {
+export class TalkingHead implements Avatar {
   private scene: THREE.Scene;
   private camera: THREE.PerspectiveCamera;
   private renderer: THREE.WebGLRenderer;
@@ -22,9 +27,11 @@ export class TalkingHead {
   private mousePosition = { x: 0, y: 0 };
   private isMouseOver = false;
   private clickEffects: THREE.Mesh[] = [];
-  
-  // Callback for model loading
-  public onModelLoaded: (() => void) | null = null;
+  // Wraps the model so gestures don't interfere with the idle and mouse-tracking movement
+  private gesturePivot: THREE.Group = new THREE.Group();
+  private gestures = new GesturePlayer();
+  private visemes = new VisemePlayer();
+  private loadEvents = new AvatarLoadEvents();
 
   constructor() {
     // Initialize scene with lower quality for better performance
@@ -61,6 +68,7 @@ export class TalkingHead {
     // Create elements
     this.model = new THREE.Group();
     this.clock = new THREE.Clock();
+    this.scene.add(this.gesturePivot);
 
     // Load the GLB model
     this.loadModel();
@@ -95,13 +103,11 @@ export class TalkingHead {
         this.findMouthAndHead(this.model);
         
         // Add model to scene
-        this.scene.add(this.model);
+        this.gesturePivot.add(this.model);
         this.modelLoaded = true;
         
         // Notify that model is loaded
-        if (this.onModelLoaded) {
-          this.onModelLoaded();
-        }
+        this.loadEvents.loaded();
         
         console.log('Model loaded successfully');
       },
@@ -110,6 +116,7 @@ export class TalkingHead {
       },
       (error) => {
         console.error('Error loading model:', error);
+        this.loadEvents.failed(error);
       }
     );
   }
@@ -176,6 +183,14 @@ export class TalkingHead {
     this.scene.add(bottomLight);
   }
 
+  public onLoad(listener: () => void): void {
+    this.loadEvents.onLoad(listener);
+  }
+
+  public onLoadError(listener: (error: unknown) => void): void {
+    this.loadEvents.onLoadError(listener);
+  }
+
   public mount(container: HTMLElement): void {
     this.container = container;
     
@@ -369,6 +384,23 @@ export class TalkingHead {
       }
     }
     
+    this.gestures.update(this.gesturePivot);
+    
+    // Lip-sync to the utterance being spoken
+    const mouthShape = this.visemes.update();
+    if (mouthShape && this.modelLoaded) {
+      if (this.mouth) {
+        // Quantized to quarter steps for a robotic feel
+        const open = Math.round(mouthShape.open * 4) / 4;
+        if (this.mouth.name.toLowerCase().includes('jaw')) {
+          this.mouth.rotation.x = -0.4 * open;
+        } else {
+          this.mouth.scale.set(mouthShape.width, 1 + open * 1.2, 1);
+        }
+      }
+      this.moveHeadWhileTalking();
+    }
+    
     // Add subtle floating animation to the model - reduced updates for better performance
     if (this.modelLoaded && this.model) {
       const time = Date.now() * 0.001;
@@ -434,7 +466,7 @@ export class TalkingHead {
   };
 
   public animateTalking(intensity: number): void {
-    if (!this.modelLoaded) return;
+    if (!this.modelLoaded || this.visemes.isActive()) return;
     
     // Animate the mouth if found
     if (this.mouth) {
@@ -452,7 +484,15 @@ export class TalkingHead {
       }
     }
     
-    // Add slight mechanical movements to the head
+    this.moveHeadWhileTalking();
+  }
+
+  public playVisemes(track: VisemeTrack | null): void {
+    this.visemes.play(track);
+  }
+
+  // Add slight mechanical movements to the head
+  private moveHeadWhileTalking(): void {
     if (this.head) {
       // More mechanical, robot-like movement pattern
       const time = Date.now() * 0.001;
@@ -463,10 +503,12 @@ export class TalkingHead {
   }
   
   /**
-   * Set facial expression based on emotion
+   * Set facial expression based on emotion.
+   * `intensity` (0 to 1) scales how strongly the expression is shown.
    */
-  public setEmotion(emotion: EmotionType): void {
+  public setEmotion(emotion: EmotionType, intensity: number = 1): void {
     this.currentEmotion = emotion;
+    const k = Math.min(1, Math.max(0, intensity));
     
     if (!this.modelLoaded) return;
     
@@ -488,7 +530,7 @@ export class TalkingHead {
       if (emotionAnimation) {
         // Play the emotion animation
         const action = this.mixer.clipAction(emotionAnimation);
-        action.reset().play();
+        action.reset().setEffectiveWeight(k).play();
         return;
       }
     }
@@ -499,62 +541,62 @@ export class TalkingHead {
         case 'happy':
           // Try to create a mechanical smile effect
           if (this.mouth.name.toLowerCase().includes('jaw')) {
-            this.mouth.rotation.x = -0.1;
-            this.mouth.position.y = 0.05;
+            this.mouth.rotation.x = -0.1 * k;
+            this.mouth.position.y = 0.05 * k;
           } else {
-            this.mouth.rotation.z = 0.15;
-            this.mouth.scale.set(1.2, 0.8, 1);
+            this.mouth.rotation.z = 0.15 * k;
+            this.mouth.scale.set(1 + 0.2 * k, 1 - 0.2 * k, 1);
           }
           if (this.head) {
-            this.head.rotation.z = 0.05;
+            this.head.rotation.z = 0.05 * k;
           }
           break;
           
         case 'sad':
           // Try to create a mechanical frown effect
           if (this.mouth.name.toLowerCase().includes('jaw')) {
-            this.mouth.rotation.x = 0.1;
-            this.mouth.position.y = -0.05;
+            this.mouth.rotation.x = 0.1 * k;
+            this.mouth.position.y = -0.05 * k;
           } else {
-            this.mouth.rotation.z = -0.15;
-            this.mouth.scale.set(0.9, 0.7, 1);
+            this.mouth.rotation.z = -0.15 * k;
+            this.mouth.scale.set(1 - 0.1 * k, 1 - 0.3 * k, 1);
           }
           if (this.head) {
-            this.head.rotation.z = -0.05;
-            this.head.rotation.x = 0.1;
+            this.head.rotation.z = -0.05 * k;
+            this.head.rotation.x = 0.1 * k;
           }
           break;
           
         case 'angry':
           // Tight mechanical mouth effect
-          this.mouth.scale.set(0.7, 0.4, 1);
+          this.mouth.scale.set(1 - 0.3 * k, 1 - 0.6 * k, 1);
           if (this.head) {
-            this.head.rotation.x = -0.1;
+            this.head.rotation.x = -0.1 * k;
           }
           break;
           
         case 'surprised':
           // Open mouth wide with mechanical motion
           if (this.mouth.name.toLowerCase().includes('jaw')) {
-            this.mouth.rotation.x = -0.25;
+            this.mouth.rotation.x = -0.25 * k;
             // Quick oscillation for surprise
-            const oscillation = Math.sin(Date.now() * 0.01) * 0.05;
+            const oscillation = Math.sin(Date.now() * 0.01) * 0.05 * k;
             this.mouth.rotation.y = oscillation;
           } else {
-            this.mouth.scale.set(1.2, 1.5, 1);
+            this.mouth.scale.set(1 + 0.2 * k, 1 + 0.5 * k, 1);
           }
           if (this.head) {
-            this.head.position.z += 0.1;
+            this.head.position.z += 0.1 * k;
           }
           break;
           
         case 'thinking':
           // Asymmetric mechanical mouth and head tilt
-          this.mouth.rotation.z = 0.1;
-          this.mouth.position.x = 0.1;
+          this.mouth.rotation.z = 0.1 * k;
+          this.mouth.position.x = 0.1 * k;
           if (this.head) {
-            this.head.rotation.z = 0.1;
-            this.head.rotation.y = 0.15;
+            this.head.rotation.z = 0.1 * k;
+            this.head.rotation.y = 0.15 * k;
           }
           break;
           
@@ -576,6 +618,13 @@ export class TalkingHead {
     }
   }
 
+  /**
+   * Play gestures (nod, shake, tilt, bounce) one after another
+   */
+  public playGestures(gestures: GestureType[]): void {
+    this.gestures.play(gestures);
+  }
+
   private createUniverseBackground(): void {
     // Set a dark blue-purple background color for space
     this.scene.background = new THREE.Color(0x050a20); 
@@ -0,0 +1,49 @@
+import { VisemeTrack } from '../lib/lipsync/VisemeTrack';
+import { blendShapes, MouthShape, VISEME_SHAPES } from '../lib/lipsync/visemes';
+
+// How much of the way to the track's shape the mouth moves each frame; smooths out jumps between visemes
+const EASING = 0.5;
+// Below this the mouth counts as back at rest
+const REST_THRESHOLD = 0.01;
+
+/**
+ * Plays a viseme track on an avatar's mouth.
+ * Once the track is over the mouth eases back to rest, and `update` returns null so the avatar's
+ * emotion pose takes over again.
+ */
+export class VisemePlayer {
+  private track: VisemeTrack | null = null;
+  private shape: MouthShape = VISEME_SHAPES.sil;
+  private active = false;
+
+  /**
+   * Replace the current track; null lets the mouth return to rest
+   */
+  public play(track: VisemeTrack | null): void {
+    this.track = track;
+    if (track) this.active = true;
+  }
+
+  // Whether the mouth is following a track (or still returning to rest from one)
+  public isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * The mouth shape for the current frame, or null when nothing is playing; call from the render loop
+   */
+  public update(now: number = performance.now()): MouthShape | null {
+    if (!this.active) return null;
+
+    const playing = this.track !== null && !this.track.isFinished(now);
+    const target = playing && this.track ? this.track.sample(now) : VISEME_SHAPES.sil;
+    this.shape = blendShapes(this.shape, target, EASING);
+
+    if (!playing && this.shape.open < REST_THRESHOLD && Math.abs(this.shape.width - 1) < REST_THRESHOLD) {
+      this.track = null;
+      this.active = false;
+      this.shape = VISEME_SHAPES.sil;
+    }
+    return this.shape;
+  }
+}
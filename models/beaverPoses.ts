@@ -0,0 +1,38 @@
+import type { EmotionType } from '../lib/types';
+
+// How the procedural beavers show an emotion
+export interface BeaverPose {
+  // Horizontal and vertical mouth scale (vertical is replaced by the talking animation while speaking)
+  mouthWidth: number;
+  mouthOpen: number;
+  // Head movement in radians: lean forward (+) or back (-), and tilt to the side
+  lean: number;
+  tilt: number;
+}
+
+const NEUTRAL_POSE: BeaverPose = { mouthWidth: 1, mouthOpen: 1, lean: 0, tilt: 0 };
+
+const POSES: Record<EmotionType, BeaverPose> = {
+  neutral: NEUTRAL_POSE,
+  happy: { mouthWidth: 1.4, mouthOpen: 1.1, lean: -0.08, tilt: 0.05 },
+  sad: { mouthWidth: 0.8, mouthOpen: 0.6, lean: 0.2, tilt: -0.05 },
+  angry: { mouthWidth: 0.7, mouthOpen: 0.5, lean: 0.12, tilt: 0 },
+  surprised: { mouthWidth: 1.1, mouthOpen: 1.8, lean: -0.15, tilt: 0 },
+  thinking: { mouthWidth: 0.9, mouthOpen: 0.8, lean: 0.05, tilt: 0.15 }
+};
+
+/**
+ * The pose for an emotion, blended from neutral by `intensity` (0 to 1)
+ */
+export function getBeaverPose(emotion: EmotionType, intensity: number = 1): BeaverPose {
+  const target = POSES[emotion] || NEUTRAL_POSE;
+  const k = Math.min(1, Math.max(0, intensity));
+  const blend = (from: number, to: number) => from + (to - from) * k;
+
+  return {
+    mouthWidth: blend(NEUTRAL_POSE.mouthWidth, target.mouthWidth),
+    mouthOpen: blend(NEUTRAL_POSE.mouthOpen, target.mouthOpen),
+    lean: blend(NEUTRAL_POSE.lean, target.lean),
+    tilt: blend(NEUTRAL_POSE.tilt, target.tilt)
+  };
+}
@@ -0,0 +1,21 @@
+import type { AvatarType } from '../lib/personas/schema';
+import { Avatar } from './Avatar';
+import { Beaver } from './Beaver';
+import { ExplorerBeaver } from './ExplorerBeaver';
+import { TalkingHead } from './TalkingHead';
+
+/**
+ * Create the avatar a persona names in its "avatar" field
+ */
+export function createAvatar(type: AvatarType): Avatar {
+  switch (type) {
+    case 'TalkingHead':
+      return new TalkingHead();
+    case 'Beaver':
+      return new Beaver();
+    case 'ExplorerBeaver':
+      return new ExplorerBeaver();
+    default:
+      throw new Error(`Unknown avatar type: ${type}`);
+  }
+}
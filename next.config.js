@@ -1,9 +1,6 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
-  env: {
-    NEXT_PUBLIC_DASHSCOPE_API_KEY: process.env.NEXT_PUBLIC_DASHSCOPE_API_KEY,
-  }
 };
 
-module.exports = nextConfig; 
\ No newline at end of file
+module.exports = nextConfig;
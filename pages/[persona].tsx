@@ -0,0 +1,24 @@
+import type { GetStaticPaths, GetStaticProps, NextPage } from 'next';
+import PersonaPage from '../components/PersonaPage';
+import { getPersonaPageProps, getPersonaRoutes, PersonaPageProps } from '../lib/personas/pageProps';
+
+// Page for every character in /personas other than the one on the home page, e.g. /beaver
+const CharacterPage: NextPage<PersonaPageProps> = (props) => {
+  return <PersonaPage {...props} />;
+};
+
+export const getStaticPaths: GetStaticPaths = async () => {
+  const routes = await getPersonaRoutes();
+  return {
+    paths: routes.map(route => ({ params: { persona: route } })),
+    fallback: false
+  };
+};
+
+export const getStaticProps: GetStaticProps<PersonaPageProps, { persona: string }> = async ({ params }) => {
+  const props = params ? await getPersonaPageProps(`/${params.persona}`) : null;
+  if (!props) return { notFound: true };
+  return { props };
+};
+
+export default CharacterPage;
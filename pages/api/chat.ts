@@ -0,0 +1,190 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { ChatMessage, ToolCall } from '@/lib/types';
+import { LLMOptions, LLMProvider, ModelInfo } from '@/lib/llm/LLMProvider';
+import { LLMError, LLMErrorPayload, toLLMError } from '@/lib/llm/errors';
+import { MAX_REQUEST_MESSAGES, isValidChatMessage, isValidToolDefinition } from '@/lib/llm/messages';
+import { createLLMProvider, describeModel, loadLLMConfig } from '@/lib/llm/config';
+import { getPersonaRegistry } from '@/lib/personas/PersonaRegistry';
+
+const MAX_TOOLS = 32;
+
+type ChatApiResponse = { content: string; toolCalls?: ToolCall[] } | ModelInfo | { error: LLMErrorPayload };
+
+let provider: LLMProvider | null = null;
+
+/**
+ * Lazily build the provider selected through the LLM_* environment variables
+ */
+function getProvider(): LLMProvider {
+  if (!provider) {
+    provider = createLLMProvider(loadLLMConfig());
+  }
+  return provider;
+}
+
+/**
+ * Requests run on the server's key, so the client may only pick the configured model,
+ * one listed in LLM_ALLOWED_MODELS or one a persona is set up to use
+ */
+async function isAllowedModel(model: string): Promise<boolean> {
+  const config = loadLLMConfig();
+  if (model === describeModel(config).model || (config.allowedModels || []).includes(model)) return true;
+
+  try {
+    const registry = await getPersonaRegistry();
+    return registry.list().some(persona => persona.llm !== undefined && persona.llm.model === model);
+  } catch (error) {
+    console.error('Failed to load the personas:', error);
+    return false;
+  }
+}
+
+/**
+ * Check that the request body carries a well-formed conversation
+ */
+function isValidConversation(messages: unknown): messages is ChatMessage[] {
+  if (!Array.isArray(messages) || messages.length === 0 || messages.length > MAX_REQUEST_MESSAGES) {
+    return false;
+  }
+
+  return messages.every(isValidChatMessage);
+}
+
+/**
+ * Keep only the generation parameters the client is allowed to override, within sane bounds
+ */
+function sanitizeOptions(options: any): LLMOptions {
+  if (!options || typeof options !== 'object') return {};
+
+  const sanitized: LLMOptions = {};
+  if (typeof options.model === 'string' && options.model.trim()) {
+    sanitized.model = options.model.trim();
+  }
+  if (typeof options.temperature === 'number') {
+    sanitized.temperature = Math.min(2, Math.max(0, options.temperature));
+  }
+  if (typeof options.maxTokens === 'number') {
+    sanitized.maxTokens = Math.min(4000, Math.max(1, Math.round(options.maxTokens)));
+  }
+  if (Array.isArray(options.tools) && options.tools.length <= MAX_TOOLS && options.tools.every(isValidToolDefinition)) {
+    sanitized.tools = options.tools;
+  }
+  return sanitized;
+}
+
+/**
+ * Send a typed error the browser client can turn back into an LLMError
+ */
+function sendError(res: NextApiResponse<ChatApiResponse>, status: number, error: LLMError) {
+  if (error.retryAfterMs) {
+    res.setHeader('Retry-After', Math.ceil(error.retryAfterMs / 1000).toString());
+  }
+  return res.status(status).json({ error: error.toJSON() });
+}
+
+/**
+ * Relay the provider's token stream to the client as `data: {"content": "..."}` events,
+ * followed by a `data: {"toolCalls": [...]}` event when the model called tools,
+ * and terminated by `data: [DONE]`. Failures after the first token are sent as `data: {"error": {...}}`.
+ */
+async function relayStream(
+  llm: LLMProvider,
+  messages: ChatMessage[],
+  options: LLMOptions,
+  res: NextApiResponse
+): Promise<void> {
+  const writeHeaders = () => {
+    if (res.headersSent) return;
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      // Stops the built-in gzip compression from buffering the whole stream
+      'Content-Encoding': 'none'
+    });
+  };
+
+  // Headers are only sent with the first token, so a failed request can still return an error status
+  const completion = await llm.streamResponse(messages, (content) => {
+    writeHeaders();
+    res.write(`data: ${JSON.stringify({ content })}\n\n`);
+  }, options);
+
+  writeHeaders();
+  if (completion.toolCalls) {
+    res.write(`data: ${JSON.stringify({ toolCalls: completion.toolCalls })}\n\n`);
+  }
+  res.write('data: [DONE]\n\n');
+  res.end();
+}
+
+/**
+ * Server-side proxy for the configured LLM provider.
+ * API keys only live on the server and are never sent to the browser.
+ * Set `stream: true` in the body to receive the reply as Server-Sent Events.
+ * GET reports the model the provider uses by default, so the browser can budget its prompts for it.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ChatApiResponse>
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    return sendError(res, 405, new LLMError('invalid_request', 'Method not allowed'));
+  }
+
+  let llm: LLMProvider;
+  try {
+    llm = getProvider();
+  } catch (error) {
+    console.error('LLM provider is not configured:', error);
+    return sendError(res, 500, new LLMError('auth', 'LLM provider not configured on the server'));
+  }
+
+  if (req.method === 'GET') {
+    return res.status(200).json(describeModel(loadLLMConfig()));
+  }
+
+  const { messages, stream, options } = req.body || {};
+  if (!isValidConversation(messages)) {
+    return sendError(res, 400, new LLMError('invalid_request', 'Invalid conversation payload'));
+  }
+
+  const sanitized = sanitizeOptions(options);
+  if (sanitized.model && !(await isAllowedModel(sanitized.model))) {
+    return sendError(res, 400, new LLMError('invalid_request', `Model "${sanitized.model}" is not allowed`));
+  }
+
+  // Stop generating (and stop paying for tokens) if the browser cancels the request
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+  const llmOptions = { ...sanitized, signal: controller.signal };
+
+  try {
+    if (stream === true) {
+      return await relayStream(llm, messages, llmOptions, res);
+    }
+
+    const { content, toolCalls } = await llm.generateResponse(messages, llmOptions);
+    return res.status(200).json({ content, toolCalls });
+  } catch (caught) {
+    const error = toLLMError(caught);
+    if (error.kind === 'aborted') {
+      // The client went away, so there is nobody to send the error to
+      res.end();
+      return;
+    }
+    console.error(`Error calling ${llm.name} provider:`, error);
+
+    // Part of the stream was already sent, so report the failure as an event
+    if (res.headersSent) {
+      res.write(`data: ${JSON.stringify({ error: error.toJSON() })}\n\n`);
+      res.end();
+      return;
+    }
+
+    return sendError(res, error.status || 502, error);
+  }
+}
@@ -0,0 +1,76 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import path from 'path';
+import { KnowledgePassage } from '@/lib/types';
+import { KnowledgeBase } from '@/lib/knowledge/KnowledgeBase';
+import { createEmbedder, loadKnowledgeConfig } from '@/lib/knowledge/config';
+import { getPersonaRegistry } from '@/lib/personas/PersonaRegistry';
+
+const MAX_QUERY_LENGTH = 2000;
+const MAX_LIMIT = 10;
+
+type KnowledgeApiResponse = { passages: KnowledgePassage[] } | { error: string };
+
+// One index per character, built on first use
+const knowledgeBases = new Map<string, Promise<KnowledgeBase>>();
+
+/**
+ * Load the knowledge base for a character; characters without a knowledge folder get an empty one
+ */
+function getKnowledgeBase(persona: string): Promise<KnowledgeBase> {
+  let knowledgeBase = knowledgeBases.get(persona);
+  if (!knowledgeBase) {
+    const config = loadKnowledgeConfig();
+    knowledgeBase = KnowledgeBase.fromDirectory(path.join(config.directory, persona), {
+      embedder: createEmbedder(config)
+    }).catch((error) => {
+      if (error.code !== 'ENOENT') {
+        // Try again on the next request rather than caching the failure
+        knowledgeBases.delete(persona);
+        throw error;
+      }
+      return new KnowledgeBase([]);
+    });
+    knowledgeBases.set(persona, knowledgeBase);
+  }
+  return knowledgeBase;
+}
+
+/**
+ * Search a character's local knowledge base.
+ * POST { persona, query, limit? } and receive the most relevant passages with their sources.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<KnowledgeApiResponse>
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { persona, query, limit } = req.body || {};
+  // Persona ids name folders, so only allow plain slugs
+  if (typeof persona !== 'string' || !/^[a-z0-9-]+$/.test(persona)) {
+    return res.status(400).json({ error: 'Invalid persona' });
+  }
+  if (typeof query !== 'string' || !query.trim() || query.length > MAX_QUERY_LENGTH) {
+    return res.status(400).json({ error: 'Invalid query' });
+  }
+
+  try {
+    // Only characters that exist get an index, so the cache can't grow with made-up ids
+    const registry = await getPersonaRegistry();
+    if (!registry.get(persona)) {
+      return res.status(404).json({ error: 'Unknown persona' });
+    }
+
+    const knowledgeBase = await getKnowledgeBase(persona);
+    const passages = await knowledgeBase.search(query, {
+      limit: typeof limit === 'number' ? Math.min(MAX_LIMIT, Math.max(1, Math.round(limit))) : undefined
+    });
+    return res.status(200).json({ passages });
+  } catch (error) {
+    console.error(`Error searching the ${persona} knowledge base:`, error);
+    return res.status(500).json({ error: 'Knowledge search failed' });
+  }
+}
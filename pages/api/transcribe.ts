@@ -0,0 +1,118 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { SpeechTranscriber } from '@/lib/stt/SpeechTranscriber';
+import { createSpeechTranscriber, loadSTTConfig } from '@/lib/stt/config';
+
+// Utterances are capped at 15 seconds by the browser, so this is generous
+const MAX_AUDIO_BYTES = 10 * 1024 * 1024;
+
+type TranscribeApiResponse = { available: boolean } | { text: string } | { error: string };
+
+// The body is raw audio, not JSON
+export const config = {
+  api: {
+    bodyParser: false
+  }
+};
+
+let transcriber: SpeechTranscriber | null | undefined;
+
+/**
+ * Lazily build the transcriber selected through the STT_* environment variables
+ */
+function getTranscriber(): SpeechTranscriber | null {
+  if (transcriber === undefined) {
+    transcriber = createSpeechTranscriber(loadSTTConfig());
+  }
+  return transcriber;
+}
+
+/**
+ * Read the request body, or resolve to null if it is larger than `limit` bytes
+ */
+function readBody(req: NextApiRequest, limit: number): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let tooLarge = false;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        tooLarge = true;
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(tooLarge ? null : Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Server-side speech recognition for browsers without the Web Speech API.
+ * GET reports whether an engine is configured; POST ?language=xx-XX with the recorded audio as the body returns { text }.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<TranscribeApiResponse>
+) {
+  let engine: SpeechTranscriber | null;
+  try {
+    engine = getTranscriber();
+  } catch (error) {
+    console.error('Speech recognition is not configured:', error);
+    return res.status(500).json({ error: 'Speech recognition not configured on the server' });
+  }
+
+  if (req.method === 'GET') {
+    return res.status(200).json({ available: engine !== null });
+  }
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+  if (!engine) {
+    return res.status(404).json({ error: 'No speech recognition engine is configured' });
+  }
+
+  const { language } = req.query;
+  if (typeof language !== 'string' || !/^[a-z]{2}-[A-Z]{2}$/.test(language)) {
+    return res.status(400).json({ error: 'Invalid language' });
+  }
+  const contentType = req.headers['content-type'] || '';
+  if (!contentType.startsWith('audio/') && !contentType.startsWith('video/') &&
+      contentType !== 'application/octet-stream') {
+    return res.status(400).json({ error: 'Expected an audio recording' });
+  }
+
+  const audio = await readBody(req, MAX_AUDIO_BYTES);
+  if (audio === null) {
+    return res.status(413).json({ error: 'Recording too large' });
+  }
+  if (audio.length === 0) {
+    return res.status(400).json({ error: 'Empty recording' });
+  }
+
+  // Stop transcribing if the browser no longer wants the text
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  try {
+    const text = await engine.transcribe(new Uint8Array(audio), {
+      // Some browsers label audio-only recordings as video/webm
+      contentType: contentType.replace(/^video\//, 'audio/'),
+      language,
+      signal: controller.signal
+    });
+    return res.status(200).json({ text });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      res.end();
+      return;
+    }
+    console.error(`Error calling ${engine.name} speech recognition:`, error);
+    return res.status(502).json({ error: 'Speech recognition failed' });
+  }
+}
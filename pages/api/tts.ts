@@ -0,0 +1,85 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { SpeechSynthesizer } from '@/lib/tts/SpeechSynthesizer';
+import { createSpeechSynthesizer, loadTTSConfig } from '@/lib/tts/config';
+
+// Text is sent a sentence at a time, so this is generous
+const MAX_TEXT_LENGTH = 1000;
+
+type TTSApiResponse = { available: boolean } | { error: string };
+
+let synthesizer: SpeechSynthesizer | null | undefined;
+
+/**
+ * Lazily build the synthesizer selected through the TTS_* environment variables
+ */
+function getSynthesizer(): SpeechSynthesizer | null {
+  if (synthesizer === undefined) {
+    synthesizer = createSpeechSynthesizer(loadTTSConfig());
+  }
+  return synthesizer;
+}
+
+function clamp(value: unknown, min: number, max: number): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : undefined;
+}
+
+/**
+ * Server-side speech synthesis.
+ * GET reports whether an engine is configured; POST { text, language, rate?, pitch? } returns the audio.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<TTSApiResponse | Buffer>
+) {
+  let engine: SpeechSynthesizer | null;
+  try {
+    engine = getSynthesizer();
+  } catch (error) {
+    console.error('Speech synthesis is not configured:', error);
+    return res.status(500).json({ error: 'Speech synthesis not configured on the server' });
+  }
+
+  if (req.method === 'GET') {
+    return res.status(200).json({ available: engine !== null });
+  }
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+  if (!engine) {
+    return res.status(404).json({ error: 'No speech synthesis engine is configured' });
+  }
+
+  const { text, language, rate, pitch } = req.body || {};
+  if (typeof text !== 'string' || !text.trim() || text.length > MAX_TEXT_LENGTH) {
+    return res.status(400).json({ error: 'Invalid text' });
+  }
+  if (typeof language !== 'string' || !/^[a-z]{2}-[A-Z]{2}$/.test(language)) {
+    return res.status(400).json({ error: 'Invalid language' });
+  }
+
+  // Stop synthesizing if the browser no longer wants the audio
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  try {
+    const { audio, contentType } = await engine.synthesize(text, {
+      language,
+      rate: clamp(rate, 0.25, 4),
+      pitch: clamp(pitch, 0, 2),
+      signal: controller.signal
+    });
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Cache-Control', 'no-store');
+    return res.status(200).send(Buffer.from(audio));
+  } catch (error) {
+    if (controller.signal.aborted) {
+      res.end();
+      return;
+    }
+    console.error(`Error calling ${engine.name} speech synthesis:`, error);
+    return res.status(502).json({ error: 'Speech synthesis failed' });
+  }
+}